@@ -80,16 +80,37 @@ function showPreviewSidebar() {
 
 /**
  * Gets the current document content and metadata
+ * @param {Object} config - Generation configuration
+ * @param {string} config.scope - 'document' (default), 'selection' or 'heading'
+ * @param {number} config.headingIndex - Body index of the heading when scope is 'heading'
  * @returns {Object} Document data including title, content, and user email
  */
-function getDocumentData() {
+function getDocumentData(config) {
   const doc = DocumentApp.getActiveDocument();
   if (!doc) {
     throw new Error('No active document found. Please open a Google Doc.');
   }
 
-  const content = doc.getBody().getText();
-  const title = doc.getName();
+  const scope = (config && config.scope) || 'document';
+  let content;
+  let title = doc.getName();
+
+  if (scope === 'selection') {
+    content = getSelectedText(doc);
+    if (!content) {
+      throw new Error('Select some text in the document first.');
+    }
+  } else if (scope === 'heading') {
+    const section = extractHeadingSection(getBodyBlocks(doc.getBody()), config.headingIndex);
+    if (!section) {
+      throw new Error('The chosen heading was not found. Refresh the outline and try again.');
+    }
+    content = section.content;
+    title = section.heading;
+  } else {
+    content = doc.getBody().getText();
+  }
+
   const userEmail = Session.getActiveUser().getEmail();
 
   return {
@@ -99,6 +120,103 @@ function getDocumentData() {
   };
 }
 
+/**
+ * Gets the text of the current selection, including partially selected paragraphs
+ * @param {Document} doc - The active document
+ * @returns {string} Selected text, or an empty string when nothing is selected
+ */
+function getSelectedText(doc) {
+  const selection = doc.getSelection();
+  if (!selection) {
+    return '';
+  }
+
+  return selection.getRangeElements()
+    .map(function(rangeElement) {
+      const element = rangeElement.getElement();
+      if (!element.editAsText) {
+        return '';
+      }
+      const text = element.editAsText().getText();
+      return rangeElement.isPartial()
+        ? text.substring(rangeElement.getStartOffset(), rangeElement.getEndOffsetInclusive() + 1)
+        : text;
+    })
+    .filter(function(text) { return text.trim(); })
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Reads the text and heading level of each top-level body element
+ * @param {Body} body - The document body
+ * @returns {Array<Object>} Blocks with text and level (0 for body text)
+ */
+function getBodyBlocks(body) {
+  const blocks = [];
+  for (let i = 0; i < body.getNumChildren(); i++) {
+    const child = body.getChild(i);
+    const type = child.getType();
+    let text = '';
+    let level = 0;
+    if (type === DocumentApp.ElementType.PARAGRAPH) {
+      text = child.asParagraph().getText();
+      level = headingLevel(String(child.asParagraph().getHeading()));
+    } else if (type === DocumentApp.ElementType.LIST_ITEM) {
+      text = child.asListItem().getText();
+    } else if (type === DocumentApp.ElementType.TABLE) {
+      text = child.asTable().getText();
+    }
+    blocks.push({ text: text, level: level });
+  }
+  return blocks;
+}
+
+// Keep in sync with headingLevel in src/validation.ts
+function headingLevel(heading) {
+  if (heading === 'TITLE') {
+    return 1;
+  }
+  const match = heading.match(/^HEADING([1-6])$/);
+  return match ? Number(match[1]) : 0;
+}
+
+// Keep in sync with extractHeadingSection in src/validation.ts
+function extractHeadingSection(blocks, headingIndex) {
+  const heading = blocks[headingIndex];
+  if (!heading || heading.level === 0) {
+    return null;
+  }
+
+  const lines = [heading.text];
+  for (let i = headingIndex + 1; i < blocks.length; i++) {
+    if (blocks[i].level > 0 && blocks[i].level <= heading.level) {
+      break;
+    }
+    lines.push(blocks[i].text);
+  }
+  return { heading: heading.text.trim(), content: lines.join('\n').trim() };
+}
+
+/**
+ * Lists the document's headings for the sidebar's outline picker
+ * @returns {Array<Object>} Entries with the heading's body index, text and level
+ */
+function getDocumentOutline() {
+  const doc = DocumentApp.getActiveDocument();
+  if (!doc) {
+    return [];
+  }
+
+  const outline = [];
+  getBodyBlocks(doc.getBody()).forEach(function(block, index) {
+    if (block.level > 0 && block.text.trim()) {
+      outline.push({ index: index, text: block.text.trim(), level: block.level });
+    }
+  });
+  return outline;
+}
+
 /**
  * Gets the OAuth token for the current user
  * @returns {string} OAuth access token
@@ -153,11 +271,14 @@ function validateContent(content) {
 }
 
 /**
- * Calls the backend API to generate slides
+ * Starts a backend job that generates slides; poll it with getJobStatus
  * @param {Object} config - Generation configuration
  * @param {number} config.slideCount - Number of slides to generate
  * @param {string} config.customPrompt - Optional custom instructions
- * @returns {Object} Result with success status and either slidesUrl or error
+ * @param {string} config.notesLength - Speaker notes length (none, brief, detailed)
+ * @param {string} config.scope - Part of the document to use: document, selection or heading
+ * @param {number} config.headingIndex - Body index of the chosen heading when scope is heading
+ * @returns {Object} Result with success status and either jobId or error
  */
 function generateSlides(config) {
   // Validate config
@@ -169,7 +290,7 @@ function generateSlides(config) {
   // Get document data
   let docData;
   try {
-    docData = getDocumentData();
+    docData = getDocumentData(config);
   } catch (e) {
     return { success: false, error: e.message };
   }
@@ -197,11 +318,66 @@ function generateSlides(config) {
     documentTitle: docData.title,
     slideCount: config.slideCount,
     template: config.template || 'modern',
+    notesLength: config.notesLength || 'brief',
     customPrompt: config.customPrompt || '',
     userEmail: docData.userEmail,
     accessToken: accessToken
   };
 
+  return submitJob(payload);
+}
+
+/**
+ * Starts a preview-only job that returns the slide structure without
+ * creating slides (no OAuth required for backend); poll it with getJobStatus
+ * @param {Object} config - Generation configuration
+ * @param {number} config.slideCount - Number of slides to generate
+ * @param {string} config.customPrompt - Optional custom instructions
+ * @param {string} config.notesLength - Speaker notes length (none, brief, detailed)
+ * @param {string} config.scope - Part of the document to use: document, selection or heading
+ * @param {number} config.headingIndex - Body index of the chosen heading when scope is heading
+ * @returns {Object} Result with success status and either jobId or error
+ */
+function previewSlides(config) {
+  // Validate config
+  const configValidation = validateConfig(config);
+  if (!configValidation.isValid) {
+    return { success: false, error: configValidation.error };
+  }
+
+  // Get document data
+  let docData;
+  try {
+    docData = getDocumentData(config);
+  } catch (e) {
+    return { success: false, error: e.message };
+  }
+
+  // Validate content
+  const contentValidation = validateContent(docData.content);
+  if (!contentValidation.isValid) {
+    return { success: false, error: contentValidation.error };
+  }
+
+  const payload = {
+    documentContent: docData.content,
+    documentTitle: docData.title,
+    slideCount: config.slideCount,
+    notesLength: config.notesLength || 'brief',
+    customPrompt: config.customPrompt || '',
+    previewOnly: true
+  };
+
+  return submitJob(payload);
+}
+
+/**
+ * Submits a background generation job to the backend. Jobs are used because
+ * the full pipeline can take longer than UrlFetchApp allows for one request.
+ * @param {Object} payload - Request body for POST /generate/jobs
+ * @returns {Object} Result with success status and either jobId or error
+ */
+function submitJob(payload) {
   const options = {
     method: 'post',
     contentType: 'application/json',
@@ -210,7 +386,7 @@ function generateSlides(config) {
   };
 
   try {
-    const response = UrlFetchApp.fetch(BACKEND_URL + '/generate', options);
+    const response = UrlFetchApp.fetch(BACKEND_URL + '/generate/jobs', options);
     const responseCode = response.getResponseCode();
     const responseText = response.getContentText();
 
@@ -232,25 +408,14 @@ function generateSlides(config) {
       };
     }
 
-    if (responseCode >= 400) {
+    if (responseCode >= 400 || !result.success || !result.jobId) {
       return {
         success: false,
         error: result.error || 'Request failed with status ' + responseCode
       };
     }
 
-    if (result.success) {
-      return {
-        success: true,
-        slidesUrl: result.slidesUrl,
-        slidesId: result.slidesId
-      };
-    } else {
-      return {
-        success: false,
-        error: result.error || 'Unknown error occurred'
-      };
-    }
+    return { success: true, jobId: result.jobId };
   } catch (error) {
     // Handle network errors
     const errorMessage = error.toString();
@@ -268,51 +433,20 @@ function generateSlides(config) {
 }
 
 /**
- * Preview slides without creating them (no OAuth required for backend)
- * @param {Object} config - Generation configuration
- * @param {number} config.slideCount - Number of slides to generate
- * @param {string} config.customPrompt - Optional custom instructions
- * @returns {Object} Result with success status and slide structure or error
+ * Polls a generation job started by generateSlides or previewSlides
+ * @param {string} jobId - ID returned when the job was submitted
+ * @returns {Object} Result with success status; while running, done is false
+ *   and stage/progress describe the current step; when finished, the job's
+ *   slidesUrl/slidesId (generate) or structure (preview) are included, and a
+ *   job stopped by the strict fact check lists the unverified numbers in warnings
  */
-function previewSlides(config) {
-  // Validate config
-  const configValidation = validateConfig(config);
-  if (!configValidation.isValid) {
-    return { success: false, error: configValidation.error };
-  }
-
-  // Get document data
-  let docData;
+function getJobStatus(jobId) {
   try {
-    docData = getDocumentData();
-  } catch (e) {
-    return { success: false, error: e.message };
-  }
-
-  // Validate content
-  const contentValidation = validateContent(docData.content);
-  if (!contentValidation.isValid) {
-    return { success: false, error: contentValidation.error };
-  }
-
-  const payload = {
-    documentContent: docData.content,
-    documentTitle: docData.title,
-    slideCount: config.slideCount,
-    customPrompt: config.customPrompt || ''
-  };
-
-  const options = {
-    method: 'post',
-    contentType: 'application/json',
-    payload: JSON.stringify(payload),
-    muteHttpExceptions: true
-  };
-
-  try {
-    const response = UrlFetchApp.fetch(BACKEND_URL + '/generate/preview', options);
+    const response = UrlFetchApp.fetch(BACKEND_URL + '/generate/jobs/' + encodeURIComponent(jobId), {
+      method: 'get',
+      muteHttpExceptions: true
+    });
     const responseCode = response.getResponseCode();
-    const responseText = response.getContentText();
 
     if (responseCode >= 500) {
       return {
@@ -323,32 +457,34 @@ function previewSlides(config) {
 
     let result;
     try {
-      result = JSON.parse(responseText);
+      result = JSON.parse(response.getContentText());
     } catch (e) {
-      return {
-        success: false,
-        error: 'Invalid response from server.'
-      };
+      return { success: false, error: 'Invalid response from server.' };
     }
 
-    if (responseCode >= 400) {
+    if (responseCode >= 400 || !result.job) {
       return {
         success: false,
         error: result.error || 'Request failed with status ' + responseCode
       };
     }
 
-    if (result.success) {
-      return {
-        success: true,
-        structure: result.structure
-      };
-    } else {
-      return {
-        success: false,
-        error: result.error || 'Unknown error occurred'
-      };
+    const job = result.job;
+    if (job.status === 'failed') {
+      return { success: false, error: job.error || 'Generation failed', warnings: job.warnings || [] };
     }
+    if (job.status !== 'succeeded') {
+      return { success: true, done: false, stage: job.stage || '', progress: job.progress || 0 };
+    }
+
+    const jobResult = job.result || {};
+    return {
+      success: true,
+      done: true,
+      slidesUrl: jobResult.slidesUrl,
+      slidesId: jobResult.slidesId,
+      structure: jobResult.structure
+    };
   } catch (error) {
     return {
       success: false,
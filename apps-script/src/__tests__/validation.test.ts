@@ -7,6 +7,13 @@ import {
   parseGenerateResponse,
   parsePreviewResponse,
   parseNetworkError,
+  describeSlideBody,
+  parseJobSubmitResponse,
+  parseJobStatusResponse,
+  describeJobStage,
+  headingLevel,
+  buildOutline,
+  extractHeadingSection,
   MIN_SLIDE_COUNT,
   MAX_SLIDE_COUNT,
   MIN_CONTENT_LENGTH
@@ -136,6 +143,17 @@ describe('buildGeneratePayload', () => {
 
     expect(payload.customPrompt).toBe('Focus on Q4 metrics');
   });
+
+  it('should default speaker notes to brief', () => {
+    const payload = buildGeneratePayload(mockDocData, { slideCount: 5 }, 'test-token');
+    expect(payload.notesLength).toBe('brief');
+  });
+
+  it('should include the requested speaker notes length', () => {
+    const config = { slideCount: 5, notesLength: 'none' as const };
+    const payload = buildGeneratePayload(mockDocData, config, 'test-token');
+    expect(payload.notesLength).toBe('none');
+  });
 });
 
 describe('buildPreviewPayload', () => {
@@ -153,6 +171,8 @@ describe('buildPreviewPayload', () => {
     expect(payload.documentTitle).toBe(mockDocData.title);
     expect(payload.slideCount).toBe(5);
     expect(payload.customPrompt).toBe('');
+    expect(payload.notesLength).toBe('brief');
+    expect(payload.previewOnly).toBe(true);
     expect((payload as Record<string, unknown>).accessToken).toBeUndefined();
     expect((payload as Record<string, unknown>).userEmail).toBeUndefined();
   });
@@ -302,3 +322,136 @@ describe('constants', () => {
     expect(MIN_CONTENT_LENGTH).toBe(50);
   });
 });
+
+describe('describeSlideBody', () => {
+  it('should list bullets for untyped slides', () => {
+    expect(describeSlideBody({ title: 'T', bullets: ['A', 'B'] })).toEqual(['A', 'B']);
+  });
+
+  it('should number agenda items', () => {
+    expect(describeSlideBody({ type: 'agenda', title: 'Agenda', items: ['Intro', 'Plan'] }))
+      .toEqual(['1. Intro', '2. Plan']);
+  });
+
+  it('should summarize KPI metrics and context', () => {
+    expect(describeSlideBody({
+      type: 'kpi',
+      title: 'Results',
+      metrics: [{ value: '25%', label: 'Growth' }],
+      context: 'Best quarter yet'
+    })).toEqual(['25% Growth', 'Best quarter yet']);
+  });
+
+  it('should render table rows with their header', () => {
+    expect(describeSlideBody({ type: 'table', title: 'Costs', columns: ['Item', 'Cost'], rows: [['Servers', '$10k']] }))
+      .toEqual(['Item | Cost', 'Servers | $10k']);
+  });
+
+  it('should show the quote and attribution', () => {
+    expect(describeSlideBody({ type: 'quote', title: 'Voice', quote: 'It works', attribution: 'Jane' }))
+      .toEqual(['"It works"', '- Jane']);
+  });
+});
+
+describe('parseJobSubmitResponse', () => {
+  it('should return the job ID for accepted jobs', () => {
+    const result = parseJobSubmitResponse(202, JSON.stringify({ success: true, jobId: 'job-1' }));
+    expect(result).toEqual({ success: true, jobId: 'job-1' });
+  });
+
+  it('should return validation errors from the server', () => {
+    const result = parseJobSubmitResponse(400, JSON.stringify({ success: false, error: 'slideCount must be between 3 and 10' }));
+    expect(result).toEqual({ success: false, error: 'slideCount must be between 3 and 10' });
+  });
+
+  it('should handle server errors', () => {
+    expect(parseJobSubmitResponse(503, '').error).toBe('Server error (503). Please try again later.');
+  });
+});
+
+describe('parseJobStatusResponse', () => {
+  const response = (job: object) => JSON.stringify({ success: true, job });
+
+  it('should report stage and progress while running', () => {
+    const result = parseJobStatusResponse(200, response({ status: 'running', stage: 'summarizing', progress: 30 }));
+    expect(result).toEqual({ success: true, done: false, stage: 'summarizing', progress: 30 });
+  });
+
+  it('should return the presentation when a generate job succeeds', () => {
+    const result = parseJobStatusResponse(200, response({
+      status: 'succeeded',
+      progress: 100,
+      result: { slidesUrl: 'https://docs.google.com/presentation/d/abc', slidesId: 'abc' }
+    }));
+    expect(result).toMatchObject({ success: true, done: true, slidesUrl: 'https://docs.google.com/presentation/d/abc', slidesId: 'abc' });
+  });
+
+  it('should return the structure when a preview job succeeds', () => {
+    const structure = { title: 'Deck', slides: [{ title: 'One', bullets: ['A'] }] };
+    const result = parseJobStatusResponse(200, response({ status: 'succeeded', result: { structure } }));
+    expect(result.structure).toEqual(structure);
+  });
+
+  it('should surface the error of a failed job', () => {
+    const result = parseJobStatusResponse(200, response({ status: 'failed', error: 'Document not found' }));
+    expect(result).toEqual({ success: false, error: 'Document not found' });
+  });
+
+  it('should handle unknown jobs', () => {
+    const result = parseJobStatusResponse(404, JSON.stringify({ success: false, error: 'Job not found' }));
+    expect(result).toEqual({ success: false, error: 'Job not found' });
+  });
+});
+
+describe('describeJobStage', () => {
+  it('should describe each stage with progress', () => {
+    expect(describeJobStage('fetching', 10)).toBe('Reading document... (10%)');
+    expect(describeJobStage('rendering', 80)).toBe('Creating slides... (80%)');
+  });
+
+  it('should describe jobs that have not started', () => {
+    expect(describeJobStage('', 0)).toBe('Waiting to start... (0%)');
+  });
+});
+
+describe('document outline', () => {
+  const blocks = [
+    { text: 'Handbook', level: 1 },
+    { text: 'Welcome to the team.', level: 0 },
+    { text: 'Hiring', level: 2 },
+    { text: 'We hire 10 engineers.', level: 0 },
+    { text: 'Budget', level: 3 },
+    { text: '$2M approved.', level: 0 },
+    { text: ' ', level: 2 },
+    { text: 'Security', level: 2 },
+    { text: 'Rotate keys quarterly.', level: 0 }
+  ];
+
+  it('should map paragraph heading names to levels', () => {
+    expect(headingLevel('TITLE')).toBe(1);
+    expect(headingLevel('HEADING2')).toBe(2);
+    expect(headingLevel('NORMAL')).toBe(0);
+    expect(headingLevel('SUBTITLE')).toBe(0);
+  });
+
+  it('should list non-empty headings with their body index', () => {
+    expect(buildOutline(blocks)).toEqual([
+      { index: 0, text: 'Handbook', level: 1 },
+      { index: 2, text: 'Hiring', level: 2 },
+      { index: 4, text: 'Budget', level: 3 },
+      { index: 7, text: 'Security', level: 2 }
+    ]);
+  });
+
+  it('should include subsections and stop at the next heading of the same level', () => {
+    expect(extractHeadingSection(blocks, 2)).toEqual({
+      heading: 'Hiring',
+      content: 'Hiring\nWe hire 10 engineers.\nBudget\n$2M approved.'
+    });
+  });
+
+  it('should return null for indexes that are not headings', () => {
+    expect(extractHeadingSection(blocks, 1)).toBeNull();
+    expect(extractHeadingSection(blocks, 99)).toBeNull();
+  });
+});
@@ -12,9 +12,32 @@ export interface ValidationResult {
   error?: string;
 }
 
+export type NotesLength = 'none' | 'brief' | 'detailed';
+
+// Which part of the document slides are generated from
+export type DocumentScope = 'document' | 'selection' | 'heading';
+
 export interface GenerationConfig {
   slideCount: number;
   customPrompt?: string;
+  notesLength?: NotesLength;
+  scope?: DocumentScope;
+  // Body child index of the chosen heading when scope is 'heading'
+  headingIndex?: number;
+}
+
+/**
+ * Text of one top-level body element; level is the heading level, 0 for body text
+ */
+export interface BodyBlock {
+  text: string;
+  level: number;
+}
+
+export interface OutlineEntry {
+  index: number;
+  text: string;
+  level: number;
 }
 
 export interface DocumentData {
@@ -27,6 +50,7 @@ export interface GeneratePayload {
   documentContent: string;
   documentTitle: string;
   slideCount: number;
+  notesLength: NotesLength;
   customPrompt: string;
   userEmail: string;
   accessToken: string;
@@ -36,12 +60,44 @@ export interface PreviewPayload {
   documentContent: string;
   documentTitle: string;
   slideCount: number;
+  notesLength: NotesLength;
   customPrompt: string;
+  previewOnly: true;
 }
 
+export type SlideType =
+  | 'bullets'
+  | 'agenda'
+  | 'section'
+  | 'comparison'
+  | 'kpi'
+  | 'quote'
+  | 'timeline'
+  | 'table'
+  | 'image';
+
+/**
+ * Slide as returned by the backend; which fields are set depends on type
+ * (absent type means bullets)
+ */
 export interface SlideContent {
+  type?: SlideType;
   title: string;
-  bullets: string[];
+  bullets?: string[];
+  items?: string[];
+  subtitle?: string;
+  left?: { heading: string; bullets: string[] };
+  right?: { heading: string; bullets: string[] };
+  metrics?: Array<{ value: string; label: string }>;
+  context?: string;
+  quote?: string;
+  attribution?: string;
+  events?: Array<{ date: string; label: string }>;
+  columns?: string[];
+  rows?: string[][];
+  imageId?: string;
+  imageUrl?: string;
+  speakerNotes?: string;
 }
 
 export interface PresentationStructure {
@@ -62,6 +118,41 @@ export interface PreviewResult {
   error?: string;
 }
 
+export type JobStage = 'fetching' | 'summarizing' | 'rendering';
+
+export interface JobSubmitResult {
+  success: boolean;
+  jobId?: string;
+  error?: string;
+}
+
+export interface JobStatusResult {
+  success: boolean;
+  done?: boolean;
+  stage?: JobStage | '';
+  progress?: number;
+  slidesUrl?: string;
+  slidesId?: string;
+  structure?: PresentationStructure;
+  error?: string;
+}
+
+interface JobResponse {
+  success?: boolean;
+  error?: string;
+  job?: {
+    status: 'pending' | 'running' | 'succeeded' | 'failed';
+    stage?: JobStage;
+    progress?: number;
+    error?: string;
+    result?: {
+      slidesUrl?: string;
+      slidesId?: string;
+      structure?: PresentationStructure;
+    };
+  };
+}
+
 /**
  * Validates the generation configuration
  */
@@ -103,7 +194,54 @@ export function validateContent(content: string | null | undefined): ValidationR
 }
 
 /**
- * Builds the payload for the generate endpoint
+ * Heading level of a DocumentApp.ParagraphHeading name; titles count as level 1
+ */
+export function headingLevel(heading: string): number {
+  if (heading === 'TITLE') {
+    return 1;
+  }
+  const match = heading.match(/^HEADING([1-6])$/);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Headings offered in the sidebar's outline picker
+ */
+export function buildOutline(blocks: BodyBlock[]): OutlineEntry[] {
+  const outline: OutlineEntry[] = [];
+  blocks.forEach((block, index) => {
+    if (block.level > 0 && block.text.trim()) {
+      outline.push({ index, text: block.text.trim(), level: block.level });
+    }
+  });
+  return outline;
+}
+
+/**
+ * Text of a heading and everything under it, up to the next heading of the
+ * same or a higher level. Null when the index is not a heading.
+ */
+export function extractHeadingSection(
+  blocks: BodyBlock[],
+  headingIndex: number
+): { heading: string; content: string } | null {
+  const heading = blocks[headingIndex];
+  if (!heading || heading.level === 0) {
+    return null;
+  }
+
+  const lines = [heading.text];
+  for (let i = headingIndex + 1; i < blocks.length; i++) {
+    if (blocks[i].level > 0 && blocks[i].level <= heading.level) {
+      break;
+    }
+    lines.push(blocks[i].text);
+  }
+  return { heading: heading.text.trim(), content: lines.join('\n').trim() };
+}
+
+/**
+ * Builds the payload for a generation job
  */
 export function buildGeneratePayload(
   docData: DocumentData,
@@ -114,6 +252,7 @@ export function buildGeneratePayload(
     documentContent: docData.content,
     documentTitle: docData.title,
     slideCount: config.slideCount,
+    notesLength: config.notesLength || 'brief',
     customPrompt: config.customPrompt || '',
     userEmail: docData.userEmail,
     accessToken: accessToken
@@ -121,7 +260,7 @@ export function buildGeneratePayload(
 }
 
 /**
- * Builds the payload for the preview endpoint
+ * Builds the payload for a preview-only job
  */
 export function buildPreviewPayload(
   docData: DocumentData,
@@ -131,7 +270,9 @@ export function buildPreviewPayload(
     documentContent: docData.content,
     documentTitle: docData.title,
     slideCount: config.slideCount,
-    customPrompt: config.customPrompt || ''
+    notesLength: config.notesLength || 'brief',
+    customPrompt: config.customPrompt || '',
+    previewOnly: true
   };
 }
 
@@ -241,3 +382,123 @@ export function parseNetworkError(errorMessage: string): string {
   }
   return `Failed to connect to server: ${errorMessage}`;
 }
+
+/**
+ * Summarizes a slide's body as plain lines for the sidebar preview
+ */
+export function describeSlideBody(slide: SlideContent): string[] {
+  switch (slide.type) {
+    case 'agenda':
+      return (slide.items || []).map((item, index) => `${index + 1}. ${item}`);
+    case 'section':
+      return slide.subtitle ? [slide.subtitle] : [];
+    case 'comparison':
+      return [slide.left, slide.right]
+        .filter((column): column is { heading: string; bullets: string[] } => !!column)
+        .map((column) => `${column.heading}: ${column.bullets.join('; ')}`);
+    case 'kpi':
+      return (slide.metrics || [])
+        .map((metric) => `${metric.value} ${metric.label}`)
+        .concat(slide.context ? [slide.context] : []);
+    case 'quote':
+      return [`"${slide.quote || ''}"`].concat(slide.attribution ? [`- ${slide.attribution}`] : []);
+    case 'timeline':
+      return (slide.events || []).map((event) => `${event.date}: ${event.label}`);
+    case 'table':
+      return [slide.columns || [], ...(slide.rows || [])].map((row) => row.join(' | '));
+    default:
+      return slide.bullets || [];
+  }
+}
+
+/**
+ * Parses the HTTP response for job submission (POST /generate/jobs)
+ */
+export function parseJobSubmitResponse(
+  responseCode: number,
+  responseText: string
+): JobSubmitResult {
+  if (responseCode >= 500) {
+    return {
+      success: false,
+      error: `Server error (${responseCode}). Please try again later.`
+    };
+  }
+
+  let result: JobSubmitResult;
+  try {
+    result = JSON.parse(responseText);
+  } catch {
+    return {
+      success: false,
+      error: 'Invalid response from server. Please try again.'
+    };
+  }
+
+  if (responseCode >= 400 || !result.success || !result.jobId) {
+    return {
+      success: false,
+      error: result.error || `Request failed with status ${responseCode}`
+    };
+  }
+
+  return { success: true, jobId: result.jobId };
+}
+
+/**
+ * Parses the HTTP response for job polling (GET /generate/jobs/:id)
+ */
+export function parseJobStatusResponse(
+  responseCode: number,
+  responseText: string
+): JobStatusResult {
+  if (responseCode >= 500) {
+    return {
+      success: false,
+      error: `Server error (${responseCode}). Please try again later.`
+    };
+  }
+
+  let result: JobResponse;
+  try {
+    result = JSON.parse(responseText);
+  } catch {
+    return { success: false, error: 'Invalid response from server.' };
+  }
+
+  if (responseCode >= 400 || !result.job) {
+    return {
+      success: false,
+      error: result.error || `Request failed with status ${responseCode}`
+    };
+  }
+
+  const job = result.job;
+  if (job.status === 'failed') {
+    return { success: false, error: job.error || 'Generation failed' };
+  }
+  if (job.status !== 'succeeded') {
+    return { success: true, done: false, stage: job.stage || '', progress: job.progress || 0 };
+  }
+
+  const jobResult = job.result || {};
+  return {
+    success: true,
+    done: true,
+    slidesUrl: jobResult.slidesUrl,
+    slidesId: jobResult.slidesId,
+    structure: jobResult.structure
+  };
+}
+
+/**
+ * Status line shown in the sidebar while a job runs
+ */
+export function describeJobStage(stage: JobStage | '' | undefined, progress: number | undefined): string {
+  const labels: Record<JobStage, string> = {
+    fetching: 'Reading document',
+    summarizing: 'Summarizing with AI',
+    rendering: 'Creating slides'
+  };
+  return `${(stage && labels[stage]) || 'Waiting to start'}... (${progress || 0}%)`;
+}
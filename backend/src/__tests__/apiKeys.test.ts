@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  checkApiKeyQuota,
+  findApiKey,
+  generateApiKey,
+  getApiKeyUsage,
+  hasApiKeyScope,
+  recordApiKeyRequest,
+  recordApiKeyTokens,
+  setApiKeys,
+} from "../services/apiKeys.js";
+
+describe("API keys", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    setApiKeys(null);
+  });
+
+  it("should find keys configured in API_KEYS by their hash", () => {
+    const { key, hash } = generateApiKey();
+    vi.stubEnv("API_KEYS", JSON.stringify([{ id: "ci", hash, scopes: ["preview"] }]));
+    setApiKeys(null);
+
+    expect(key).toMatch(/^d2s_/);
+    expect(hash).not.toContain(key);
+    expect(findApiKey(key)?.id).toBe("ci");
+    expect(findApiKey(`${key}x`)).toBeNull();
+  });
+
+  it("should reject malformed API_KEYS entries", () => {
+    vi.stubEnv("API_KEYS", JSON.stringify([{ id: "ci", hash: "plaintext-key", scopes: ["preview"] }]));
+    setApiKeys(null);
+
+    expect(() => findApiKey("anything")).toThrow("Invalid API key at API_KEYS[0]");
+  });
+
+  it("should let create-slides keys preview but not the reverse", () => {
+    const previewKey = { id: "a", hash: "0".repeat(64), scopes: ["preview" as const] };
+    const slidesKey = { id: "b", hash: "1".repeat(64), scopes: ["create-slides" as const] };
+
+    expect(hasApiKeyScope(previewKey, "create-slides")).toBe(false);
+    expect(hasApiKeyScope(slidesKey, "preview")).toBe(true);
+  });
+
+  it("should enforce daily request and token quotas and reset them at midnight UTC", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-30T23:00:00Z"));
+    const key = { id: "ci", hash: "0".repeat(64), scopes: ["preview" as const], requestsPerDay: 2, tokensPerDay: 1000 };
+    setApiKeys([key]);
+
+    recordApiKeyRequest("ci");
+    expect(checkApiKeyQuota(key)).toBeNull();
+    recordApiKeyTokens("ci", 1200);
+    expect(checkApiKeyQuota(key)).toBe("Daily token quota of 1000 exceeded");
+
+    vi.setSystemTime(new Date("2025-07-01T00:00:01Z"));
+    expect(checkApiKeyQuota(key)).toBeNull();
+    recordApiKeyRequest("ci");
+    recordApiKeyRequest("ci");
+    expect(checkApiKeyQuota(key)).toBe("Daily request quota of 2 exceeded");
+
+    expect(getApiKeyUsage("ci")).toMatchObject({
+      period: "2025-07-01",
+      requests: 2,
+      tokens: 0,
+      totalRequests: 3,
+      totalTokens: 1200,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  AuthError,
+  checkTokenAccess,
+  createGoogleTokenVerifier,
+  createLocalTokenVerifier,
+  setTokenVerifier,
+  TokenVerifier,
+  verifyAccessToken,
+} from "../utils/auth.js";
+
+const SLIDES_SCOPE = "https://www.googleapis.com/auth/presentations";
+const DOCS_SCOPE = "https://www.googleapis.com/auth/documents.readonly";
+
+describe("createGoogleTokenVerifier", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should post the token to tokeninfo and parse the response", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({
+        email: "user@example.com",
+        email_verified: "true",
+        scope: `${SLIDES_SCOPE} ${DOCS_SCOPE}`,
+        exp: "2000000000",
+      }),
+    });
+
+    const token = await createGoogleTokenVerifier().verify("access-token");
+
+    expect(token).toEqual({
+      email: "user@example.com",
+      emailVerified: true,
+      scopes: [SLIDES_SCOPE, DOCS_SCOPE],
+      expiresAt: 2_000_000_000_000,
+    });
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe("https://oauth2.googleapis.com/tokeninfo");
+    expect(url).not.toContain("access-token");
+    expect((init as RequestInit).body).toBe("access_token=access-token");
+  });
+
+  it("should reject tokens Google reports as invalid", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 400, statusText: "Bad Request" });
+
+    await expect(createGoogleTokenVerifier().verify("expired")).rejects.toMatchObject({
+      code: "INVALID_TOKEN",
+      httpStatus: 401,
+    });
+  });
+
+  it("should report an unreachable tokeninfo endpoint as a verification failure", async () => {
+    global.fetch = vi.fn().mockRejectedValue(new Error("ECONNRESET"));
+
+    await expect(createGoogleTokenVerifier().verify("token")).rejects.toMatchObject({
+      code: "VERIFICATION_FAILED",
+      httpStatus: 502,
+    });
+  });
+});
+
+describe("verifyAccessToken", () => {
+  const verify = vi.fn<TokenVerifier["verify"]>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    verify.mockReset();
+    setTokenVerifier({ verify });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setTokenVerifier(null);
+  });
+
+  it("should cache verified tokens until they expire", async () => {
+    verify.mockImplementation(async () => ({ emailVerified: false, scopes: [], expiresAt: Date.now() + 60_000 }));
+
+    await verifyAccessToken("token");
+    await verifyAccessToken("token");
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60_000);
+    await verifyAccessToken("token");
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache rejected tokens", async () => {
+    verify.mockRejectedValue(new AuthError("INVALID_TOKEN", "Invalid or expired Google access token", 401));
+
+    await expect(verifyAccessToken("bad")).rejects.toBeInstanceOf(AuthError);
+    await expect(verifyAccessToken("bad")).rejects.toBeInstanceOf(AuthError);
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject tokens that have already expired", async () => {
+    verify.mockResolvedValue({ emailVerified: false, scopes: [], expiresAt: Date.now() - 1 });
+
+    await expect(verifyAccessToken("old")).rejects.toMatchObject({ code: "INVALID_TOKEN" });
+  });
+
+  it("should use the local stand-in when installed", async () => {
+    setTokenVerifier(createLocalTokenVerifier({ known: { emailVerified: false, scopes: [] } }));
+
+    await expect(verifyAccessToken("known")).resolves.toMatchObject({ scopes: [] });
+    await expect(verifyAccessToken("unknown")).rejects.toMatchObject({ code: "INVALID_TOKEN" });
+  });
+});
+
+describe("checkTokenAccess", () => {
+  const token = { email: "User@Example.com", emailVerified: true, scopes: [DOCS_SCOPE], expiresAt: Infinity };
+
+  it("should accept the scopes and email the request needs", () => {
+    expect(() => checkTokenAccess(token, ["docs"], "user@example.com")).not.toThrow();
+  });
+
+  it("should accept broader Drive scopes in place of the API scope", () => {
+    const driveToken = { ...token, scopes: ["https://www.googleapis.com/auth/drive"] };
+    expect(() => checkTokenAccess(driveToken, ["docs", "slides"])).not.toThrow();
+  });
+
+  it("should reject missing scopes", () => {
+    expect(() => checkTokenAccess(token, ["slides"])).toThrow(
+      expect.objectContaining({ code: "INSUFFICIENT_SCOPE", httpStatus: 403 })
+    );
+  });
+
+  it("should require Drive read access to copy a master deck", () => {
+    const slidesToken = { ...token, scopes: ["https://www.googleapis.com/auth/presentations"] };
+    expect(() => checkTokenAccess(slidesToken, ["slides", "master"])).toThrow(
+      "Access token is missing a required scope: https://www.googleapis.com/auth/drive.readonly or https://www.googleapis.com/auth/drive"
+    );
+  });
+
+  it("should reject a different or unverified email", () => {
+    expect(() => checkTokenAccess(token, [], "other@example.com")).toThrow(
+      expect.objectContaining({ code: "EMAIL_MISMATCH" })
+    );
+    expect(() => checkTokenAccess({ ...token, emailVerified: false }, [], "user@example.com")).toThrow(
+      expect.objectContaining({ code: "EMAIL_MISMATCH" })
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens, splitIntoSections, chunkSections } from "../services/chunking.js";
+
+describe("estimateTokens", () => {
+  it("should estimate roughly four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("a".repeat(401))).toBe(101);
+  });
+});
+
+describe("splitIntoSections", () => {
+  it("should split on markdown headings", () => {
+    const sections = splitIntoSections("# Overview\nIntro text\n## Rollout\nRollout text");
+    expect(sections).toEqual([
+      { heading: "Overview", content: "Intro text" },
+      { heading: "Rollout", content: "Rollout text" },
+    ]);
+  });
+
+  it("should split on numbered headings", () => {
+    const sections = splitIntoSections("1. Background\nSome context.\n2.1 Proposed Design\nDetails.");
+    expect(sections.map((s) => s.heading)).toEqual(["1. Background", "2.1 Proposed Design"]);
+  });
+
+  it("should not treat numbered sentences as headings", () => {
+    const sections = splitIntoSections("1. We shipped the feature on time.\n2. Costs fell.");
+    expect(sections).toHaveLength(1);
+  });
+
+  it("should put text before the first heading in an Introduction section", () => {
+    const sections = splitIntoSections("Preamble\n# Details\nBody");
+    expect(sections[0]).toEqual({ heading: "Introduction", content: "Preamble" });
+  });
+
+  it("should skip empty sections", () => {
+    const sections = splitIntoSections("# Empty\n\n# Filled\nText");
+    expect(sections).toEqual([{ heading: "Filled", content: "Text" }]);
+  });
+});
+
+describe("chunkSections", () => {
+  it("should merge small neighbouring sections", () => {
+    const chunks = chunkSections(
+      [
+        { heading: "A", content: "a".repeat(40) },
+        { heading: "B", content: "b".repeat(40) },
+      ],
+      100
+    );
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toContain("## B");
+  });
+
+  it("should keep sections separate when merging would exceed the budget", () => {
+    const chunks = chunkSections(
+      [
+        { heading: "A", content: "a".repeat(300) },
+        { heading: "B", content: "b".repeat(300) },
+      ],
+      100
+    );
+    expect(chunks.map((c) => c.heading)).toEqual(["A", "B"]);
+  });
+
+  it("should split oversized sections into parts within the budget", () => {
+    const paragraph = "x".repeat(200);
+    const chunks = chunkSections(
+      [{ heading: "Big", content: [paragraph, paragraph, paragraph].join("\n\n") }],
+      60
+    );
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].heading).toBe("Big (part 1)");
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it("should hard-split a single paragraph larger than the budget", () => {
+    const chunks = chunkSections([{ heading: "Wall", content: "y".repeat(1000) }], 50);
+    expect(chunks.length).toBe(5);
+  });
+});
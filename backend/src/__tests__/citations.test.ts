@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { buildCitationPassages, formatCitationNotes, resolveCitations } from "../services/citations.js";
+import { SlideContent, StructuredDocument } from "../types/index.js";
+
+const document: StructuredDocument = {
+  title: "Q3 Review",
+  sections: [
+    { heading: "", level: 0, blocks: [{ type: "paragraph", spans: [{ text: "A quarter of steady progress." }] }] },
+    {
+      heading: "Results",
+      level: 1,
+      url: "https://docs.google.com/document/d/abc/edit#heading=h.1",
+      blocks: [
+        { type: "paragraph", spans: [{ text: "Revenue grew by " }, { text: "25%", bold: true }, { text: " year over year." }] },
+        { type: "list", ordered: false, items: [{ spans: [{ text: "Churn fell to 3%" }], depth: 0 }] },
+      ],
+    },
+  ],
+};
+
+describe("buildCitationPassages", () => {
+  it("should use the document's sections when its structure is known", () => {
+    expect(buildCitationPassages("", document)).toEqual([
+      { heading: "", text: "a quarter of steady progress." },
+      {
+        heading: "Results",
+        url: "https://docs.google.com/document/d/abc/edit#heading=h.1",
+        text: "revenue grew by 25% year over year. churn fell to 3%",
+      },
+    ]);
+  });
+
+  it("should split plain content at its headings", () => {
+    const passages = buildCitationPassages("Opening words.\n\n## Risks\n\nHiring is **slow**.");
+    expect(passages).toEqual([
+      { heading: "", text: "opening words." },
+      { heading: "Risks", text: "hiring is slow." },
+    ]);
+  });
+});
+
+describe("resolveCitations", () => {
+  const passages = buildCitationPassages("", document);
+
+  it("should add the heading and link of the passage a quote was found in", () => {
+    const slide: SlideContent = {
+      title: "Growth",
+      bullets: ["Revenue up 25%", "Churn down", "Steady quarter"],
+      citations: [{ quote: "“Revenue grew by 25%… year over year”" }, { quote: "churn fell to 3%" }, null],
+    };
+
+    expect(resolveCitations(slide, passages)).toEqual({
+      title: "Growth",
+      bullets: ["Revenue up 25%", "Churn down", "Steady quarter"],
+      citations: [
+        {
+          quote: "“Revenue grew by 25%… year over year”",
+          heading: "Results",
+          url: "https://docs.google.com/document/d/abc/edit#heading=h.1",
+        },
+        { quote: "churn fell to 3%", heading: "Results", url: "https://docs.google.com/document/d/abc/edit#heading=h.1" },
+        null,
+      ],
+    });
+  });
+
+  it("should drop quotes that are not in the document", () => {
+    const slide: SlideContent = {
+      title: "Growth",
+      bullets: ["Revenue up 25%", "Steady quarter"],
+      citations: [{ quote: "revenue doubled" }, { quote: "a quarter of steady progress" }],
+    };
+
+    expect(resolveCitations(slide, passages)).toEqual({
+      title: "Growth",
+      bullets: ["Revenue up 25%", "Steady quarter"],
+      citations: [null, { quote: "a quarter of steady progress" }],
+    });
+    expect(resolveCitations({ title: "T", bullets: ["A"], citations: [{ quote: "made up" }] }, passages)).toEqual({
+      title: "T",
+      bullets: ["A"],
+    });
+  });
+});
+
+describe("formatCitationNotes", () => {
+  it("should number the cited bullets", () => {
+    expect(formatCitationNotes({
+      title: "Growth",
+      bullets: ["Steady quarter", "Revenue up 25%"],
+      citations: [null, { quote: "Revenue grew by 25%", heading: "Results", url: "https://docs.google.com/x" }],
+    })).toBe("Sources:\n[2] \"Revenue grew by 25%\" (Results, https://docs.google.com/x)");
+  });
+
+  it("should be empty for slides without citations", () => {
+    expect(formatCitationNotes({ title: "T", bullets: ["A"] })).toBe("");
+    expect(formatCitationNotes({ type: "section", title: "Part Two" })).toBe("");
+  });
+});
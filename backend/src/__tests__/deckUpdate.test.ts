@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { slides_v1 } from "googleapis";
+import { buildDeckUpdateRequests, DeckSlide, readDeckSlides } from "../services/deckUpdate.js";
+import { buildPresentationRequests, PresentationRequests, TitleSlideIds } from "../services/slideRequests.js";
+import { getTemplateConfig } from "../services/themes.js";
+import { PresentationStructure, SlideTemplate } from "../types/index.js";
+
+const titleSlide: TitleSlideIds = { slideId: "p", titleShapeId: "p_title" };
+
+const structure: PresentationStructure = {
+  title: "Quarterly Review",
+  slides: [
+    { title: "Highlights", bullets: ["Revenue grew 25%", "Churn fell to 2%"], speakerNotes: "Lead with growth" },
+    { title: "Plan", bullets: ["Hire", "Expand"] },
+    { type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$1M"]] },
+  ],
+};
+
+function build(deckStructure: PresentationStructure, template?: SlideTemplate): PresentationRequests {
+  return buildPresentationRequests({ structure: deckStructure, templateConfig: getTemplateConfig(template), titleSlide });
+}
+
+function hex(color: slides_v1.Schema$RgbColor | null | undefined): string | undefined {
+  return color ? `#${[color.red, color.green, color.blue].map((value) => Math.round((value ?? 0) * 255).toString(16).padStart(2, "0")).join("")}` : undefined;
+}
+
+// The deck Slides would hold after sending the requests for a structure
+function deckFor(deckStructure: PresentationStructure): DeckSlide[] {
+  const { requests, speakerNotes } = build(deckStructure);
+  const slides: DeckSlide[] = [
+    { objectId: "p", objectIds: ["p_title"], texts: { p_title: deckStructure.title }, styles: {}, notes: "", titleShapeId: "p_title" },
+  ];
+  for (const request of requests) {
+    const current = slides[slides.length - 1];
+    if (request.createSlide?.objectId) {
+      const objectId = request.createSlide.objectId;
+      slides.push({ objectId, objectIds: [], texts: {}, styles: {}, notes: speakerNotes.find(({ slideId }) => slideId === objectId)?.text || "" });
+    }
+    const filled = request.updatePageProperties || request.updateShapeProperties;
+    const fill = request.updatePageProperties?.pageProperties?.pageBackgroundFill?.solidFill
+      ?? request.updateShapeProperties?.shapeProperties?.shapeBackgroundFill?.solidFill;
+    if (filled?.objectId && fill) {
+      current.styles[filled.objectId] = { ...current.styles[filled.objectId], fill: hex(fill.color?.rgbColor) };
+    }
+    const styled = request.updateTextStyle;
+    if (styled?.objectId && styled.textRange?.type === "ALL" && !styled.cellLocation) {
+      current.styles[styled.objectId] = {
+        ...current.styles[styled.objectId],
+        color: hex(styled.style?.foregroundColor?.opaqueColor?.rgbColor),
+        fontFamily: styled.style?.fontFamily ?? undefined,
+        fontSize: styled.style?.fontSize?.magnitude ?? undefined,
+      };
+    }
+    const created = request.createShape || request.createTable;
+    if (created?.objectId) {
+      current.objectIds.push(created.objectId);
+    }
+    const insert = request.insertText;
+    if (insert?.objectId && insert.text && current.objectId !== "p") {
+      const { rowIndex, columnIndex } = insert.cellLocation || {};
+      current.texts[insert.cellLocation ? `${insert.objectId}[${rowIndex},${columnIndex}]` : insert.objectId] = insert.text;
+    }
+  }
+  return slides;
+}
+
+describe("readDeckSlides", () => {
+  it("should read the text, table cells and speaker notes of each slide", () => {
+    const [slide] = readDeckSlides({
+      slides: [{
+        objectId: "slide_0",
+        pageProperties: { pageBackgroundFill: { solidFill: { color: { rgbColor: { red: 1, green: 1, blue: 1 } } } } },
+        pageElements: [
+          {
+            objectId: "title_0",
+            shape: {
+              text: {
+                textElements: [
+                  { paragraphMarker: {} },
+                  { textRun: { content: "Plan\n", style: { foregroundColor: { opaqueColor: { rgbColor: { blue: 0.6 } } }, fontSize: { magnitude: 32, unit: "PT" } } } },
+                ],
+              },
+            },
+          },
+          {
+            objectId: "table_0",
+            table: {
+              tableRows: [{ tableCells: [{ location: { rowIndex: 0, columnIndex: 1 }, text: { textElements: [{ textRun: { content: "Cost\n" } }] } }] }],
+            },
+          },
+        ],
+        slideProperties: {
+          layoutObjectId: "layout-1",
+          notesPage: {
+            notesProperties: { speakerNotesObjectId: "notes_0" },
+            pageElements: [{ objectId: "notes_0", shape: { text: { textElements: [{ textRun: { content: "Say this\n" } }] } } }],
+          },
+        },
+      }],
+    });
+
+    expect(slide).toEqual({
+      objectId: "slide_0",
+      objectIds: ["title_0", "table_0"],
+      texts: { title_0: "Plan", "table_0[0,1]": "Cost" },
+      styles: { slide_0: { fill: "#ffffff" }, title_0: { color: "#000099", fontSize: 32 } },
+      notes: "Say this",
+      layoutId: "layout-1",
+    });
+  });
+});
+
+describe("buildDeckUpdateRequests", () => {
+  it("should leave an unchanged deck alone", () => {
+    const update = buildDeckUpdateRequests({ slides: deckFor(structure), presentation: build(structure), title: structure.title });
+
+    expect(update.requests).toEqual([]);
+    expect(update.speakerNotes).toEqual([]);
+    expect(update.deckChanges).toEqual({ unchanged: ["slide_0", "slide_1", "slide_2"], updated: [], added: [], removed: [] });
+  });
+
+  it("should replace changed slides in place and keep slides added by hand", () => {
+    const manual: DeckSlide = { objectId: "manual", objectIds: ["note"], texts: { note: "Added by hand" }, styles: {}, notes: "" };
+    const [title, first, second, third] = deckFor(structure);
+    const edited: PresentationStructure = {
+      ...structure,
+      slides: [
+        { ...structure.slides[0], speakerNotes: "Lead with churn" },
+        structure.slides[1],
+        { title: "Risks", bullets: ["Hiring"] },
+        { title: "Next Steps", bullets: ["Approve budget"] },
+      ],
+    };
+
+    const update = buildDeckUpdateRequests({
+      slides: [title, first, manual, second, third],
+      presentation: build(edited),
+      title: edited.title,
+    });
+
+    expect(update.deckChanges).toEqual({ unchanged: ["slide_1"], updated: ["slide_0", "slide_2"], added: ["slide_3"], removed: [] });
+    const structural = update.requests.filter((request) => request.deleteObject || request.createSlide);
+    expect(structural).toEqual([
+      { deleteObject: { objectId: "slide_0" } },
+      { createSlide: expect.objectContaining({ objectId: "slide_0", insertionIndex: 1 }) },
+      { deleteObject: { objectId: "slide_2" } },
+      { createSlide: expect.objectContaining({ objectId: "slide_2", insertionIndex: 4 }) },
+      { createSlide: expect.objectContaining({ objectId: "slide_3", insertionIndex: 5 }) },
+    ]);
+    expect(update.requests.some((request) => JSON.stringify(request).includes("manual"))).toBe(false);
+    expect(update.speakerNotes).toEqual([{ slideId: "slide_0", text: "Lead with churn" }]);
+  });
+
+  it("should keep the slides after one that now continues on a new slide", () => {
+    const bullets = Array.from({ length: 30 }, (_, i) => `${i} Revenue grew in every region this quarter with strong demand from enterprise customers`);
+    const edited: PresentationStructure = { ...structure, slides: [{ title: "Highlights", bullets, speakerNotes: "Lead with growth" }, ...structure.slides.slice(1)] };
+
+    const update = buildDeckUpdateRequests({ slides: deckFor(structure), presentation: build(edited), title: edited.title });
+
+    expect(update.deckChanges).toEqual({ unchanged: ["slide_1", "slide_2"], updated: ["slide_0"], added: ["slide_0_1"], removed: [] });
+    expect(update.requests.filter((request) => request.deleteObject || request.createSlide)).toEqual([
+      { deleteObject: { objectId: "slide_0" } },
+      { createSlide: expect.objectContaining({ objectId: "slide_0", insertionIndex: 1 }) },
+      { createSlide: expect.objectContaining({ objectId: "slide_0_1", insertionIndex: 2 }) },
+    ]);
+  });
+
+  it("should rebuild every slide and repaint the title slide for a new template", () => {
+    const update = buildDeckUpdateRequests({ slides: deckFor(structure), presentation: build(structure, "corporate"), title: structure.title });
+
+    expect(update.deckChanges).toEqual({ unchanged: [], updated: ["slide_0", "slide_1", "slide_2"], added: [], removed: [] });
+    expect(update.requests.slice(0, 3)).toEqual([
+      { deleteText: { objectId: "p_title", textRange: { type: "ALL" } } },
+      expect.objectContaining({ updatePageProperties: expect.objectContaining({ objectId: "p" }) }),
+      { insertText: { objectId: "p_title", text: structure.title, insertionIndex: 0 } },
+    ]);
+  });
+
+  it("should update the title and delete slides the structure no longer has", () => {
+    const edited = { title: "Annual Review", slides: structure.slides.slice(0, 1) };
+
+    const update = buildDeckUpdateRequests({ slides: deckFor(structure), presentation: build(edited), title: edited.title });
+
+    expect(update.requests.slice(0, 3)).toEqual([
+      { deleteText: { objectId: "p_title", textRange: { type: "ALL" } } },
+      expect.objectContaining({ updatePageProperties: expect.objectContaining({ objectId: "p" }) }),
+      { insertText: { objectId: "p_title", text: "Annual Review", insertionIndex: 0 } },
+    ]);
+    expect(update.requests.slice(-2)).toEqual([{ deleteObject: { objectId: "slide_1" } }, { deleteObject: { objectId: "slide_2" } }]);
+    expect(update.deckChanges.removed).toEqual(["slide_1", "slide_2"]);
+  });
+
+  it("should refuse to update a deck without generated slides", () => {
+    expect(() => buildDeckUpdateRequests({
+      slides: [{ objectId: "p", objectIds: [], texts: {}, styles: {}, notes: "" }],
+      presentation: build(structure),
+      title: structure.title,
+    })).toThrow(expect.objectContaining({ code: "NOT_A_GENERATED_DECK", httpStatus: 400 }));
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { extractDocumentId, extractTextFromDocument, fetchGoogleDocsContent, DocsError } from "../services/docs.js";
+import {
+  extractDocumentId,
+  extractTextFromDocument,
+  fetchGoogleDocsContent,
+  parseDocumentStructure,
+  DocsError,
+} from "../services/docs.js";
 
 describe("extractDocumentId", () => {
   it("should extract ID from standard edit URL", () => {
@@ -131,6 +137,170 @@ describe("extractTextFromDocument", () => {
   });
 });
 
+describe("parseDocumentStructure", () => {
+  const paragraph = (text: string, extra: object = {}) => ({
+    paragraph: { elements: [{ textRun: { content: `${text}\n` } }], ...extra },
+  });
+  const heading = (text: string, level: number) =>
+    paragraph(text, { paragraphStyle: { namedStyleType: `HEADING_${level}` } });
+
+  it("should start a section at each heading", () => {
+    const result = parseDocumentStructure({
+      title: "Plan",
+      body: {
+        content: [
+          paragraph("Preamble"),
+          heading("Goals", 1),
+          paragraph("Grow revenue"),
+          heading("Q1", 2),
+          paragraph("Launch beta"),
+        ],
+      },
+    });
+
+    expect(result.title).toBe("Plan");
+    expect(result.sections.map(({ heading, level }) => [heading, level])).toEqual([
+      ["", 0],
+      ["Goals", 1],
+      ["Q1", 2],
+    ]);
+    expect(result.sections[2].blocks).toEqual([{ type: "paragraph", spans: [{ text: "Launch beta" }] }]);
+  });
+
+  it("should link headings to their place in the Doc", () => {
+    const result = parseDocumentStructure({
+      body: {
+        content: [paragraph("Goals", { paragraphStyle: { namedStyleType: "HEADING_1", headingId: "h.abc" } })],
+      },
+    }, "doc123");
+
+    expect(result.sections[0].url).toBe("https://docs.google.com/document/d/doc123/edit#heading=h.abc");
+  });
+
+  it("should keep bold, italic and links as styled spans", () => {
+    const result = parseDocumentStructure({
+      body: {
+        content: [{
+          paragraph: {
+            elements: [
+              { textRun: { content: "Revenue grew " } },
+              { textRun: { content: "25%", textStyle: { bold: true } } },
+              { textRun: { content: " per " } },
+              { textRun: { content: "report", textStyle: { italic: true, link: { url: "https://example.com/r" } } } },
+              { textRun: { content: "\n" } },
+            ],
+          },
+        }],
+      },
+    });
+
+    expect(result.sections[0].blocks[0]).toEqual({
+      type: "paragraph",
+      spans: [
+        { text: "Revenue grew " },
+        { text: "25%", bold: true },
+        { text: " per " },
+        { text: "report", italic: true, link: "https://example.com/r" },
+      ],
+    });
+  });
+
+  it("should group list paragraphs with their nesting and numbering", () => {
+    const result = parseDocumentStructure({
+      body: {
+        content: [
+          paragraph("First", { bullet: { listId: "steps" } }),
+          paragraph("Detail", { bullet: { listId: "steps", nestingLevel: 1 } }),
+          paragraph("Second", { bullet: { listId: "steps" } }),
+          paragraph("Other", { bullet: { listId: "dots" } }),
+        ],
+      },
+      lists: {
+        steps: { listProperties: { nestingLevels: [{ glyphType: "DECIMAL" }, { glyphType: "ALPHA" }] } },
+        dots: { listProperties: { nestingLevels: [{ glyphType: "GLYPH_TYPE_UNSPECIFIED" }] } },
+      },
+    });
+
+    expect(result.sections[0].blocks).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        items: [
+          { spans: [{ text: "First" }], depth: 0 },
+          { spans: [{ text: "Detail" }], depth: 1 },
+          { spans: [{ text: "Second" }], depth: 0 },
+        ],
+      },
+      { type: "list", ordered: false, items: [{ spans: [{ text: "Other" }], depth: 0 }] },
+    ]);
+  });
+
+  it("should keep tables as rows of cells", () => {
+    const cell = (text: string) => ({ content: [paragraph(text)] });
+    const result = parseDocumentStructure({
+      body: {
+        content: [{
+          table: {
+            tableRows: [
+              { tableCells: [cell("Region"), cell("Revenue")] },
+              { tableCells: [cell("EMEA"), cell("$4M")] },
+            ],
+          },
+        }],
+      },
+    });
+
+    expect(result.sections[0].blocks).toEqual([{
+      type: "table",
+      rows: [
+        [[{ text: "Region" }], [{ text: "Revenue" }]],
+        [[{ text: "EMEA" }], [{ text: "$4M" }]],
+      ],
+    }]);
+  });
+});
+
+describe("parseDocumentStructure images", () => {
+  it("should add inline images after their paragraph with the image URI", () => {
+    const result = parseDocumentStructure({
+      body: {
+        content: [
+          {
+            paragraph: {
+              elements: [
+                { textRun: { content: "Our architecture:" } },
+                { inlineObjectElement: { inlineObjectId: "kix.arch" } },
+                { textRun: { content: "\n" } },
+              ],
+            },
+          },
+          { paragraph: { elements: [{ inlineObjectElement: { inlineObjectId: "kix.chart" } }, { textRun: { content: "\n" } }] } },
+          { paragraph: { elements: [{ inlineObjectElement: { inlineObjectId: "kix.drawing" } }] } },
+        ],
+      },
+      inlineObjects: {
+        "kix.arch": {
+          inlineObjectProperties: {
+            embeddedObject: { title: "Architecture", imageProperties: { contentUri: "https://lh3.googleusercontent.com/arch" } },
+          },
+        },
+        "kix.chart": {
+          inlineObjectProperties: {
+            embeddedObject: { imageProperties: { contentUri: "https://lh3.googleusercontent.com/chart" } },
+          },
+        },
+        "kix.drawing": { inlineObjectProperties: { embeddedObject: {} } },
+      },
+    });
+
+    expect(result.sections[0].blocks).toEqual([
+      { type: "paragraph", spans: [{ text: "Our architecture:" }] },
+      { type: "image", id: "kix.arch", uri: "https://lh3.googleusercontent.com/arch", description: "Architecture" },
+      { type: "image", id: "kix.chart", uri: "https://lh3.googleusercontent.com/chart" },
+    ]);
+  });
+});
+
 describe("fetchGoogleDocsContent", () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -163,6 +333,12 @@ describe("fetchGoogleDocsContent", () => {
     expect(result).toEqual({
       title: "My Document",
       content: "Document content here",
+      document: {
+        title: "My Document",
+        sections: [
+          { heading: "", level: 0, blocks: [{ type: "paragraph", spans: [{ text: "Document content here" }] }] },
+        ],
+      },
     });
 
     expect(global.fetch).toHaveBeenCalledWith(
@@ -201,6 +377,58 @@ describe("fetchGoogleDocsContent", () => {
     expect(result.title).toBe("Untitled Document");
   });
 
+  it("should narrow the document to a heading's section", async () => {
+    const paragraph = (text: string, namedStyleType = "NORMAL_TEXT") => ({
+      paragraph: { elements: [{ textRun: { content: `${text}\n` } }], paragraphStyle: { namedStyleType } },
+    });
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        title: "Handbook",
+        body: {
+          content: [
+            paragraph("Intro"),
+            paragraph("Hiring", "HEADING_1"),
+            paragraph("Hire 10 engineers"),
+            paragraph("Budget", "HEADING_2"),
+            paragraph("$2M"),
+            paragraph("Security", "HEADING_1"),
+            paragraph("Rotate keys"),
+          ],
+        },
+      }),
+    });
+
+    const result = await fetchGoogleDocsContent(
+      "https://docs.google.com/document/d/test123/edit",
+      "mock-token",
+      { sectionHeading: " hiring " }
+    );
+
+    expect(result.title).toBe("Hiring");
+    expect(result.content).toBe("# Hiring\n\nHire 10 engineers\n\n## Budget\n\n$2M");
+    expect(result.document?.sections.map((section) => section.heading)).toEqual(["Hiring", "Budget"]);
+
+    await expect(fetchGoogleDocsContent(
+      "https://docs.google.com/document/d/test123/edit",
+      "mock-token",
+      { sectionHeading: "Roadmap" }
+    )).rejects.toMatchObject({ code: "SECTION_NOT_FOUND", httpStatus: 400 });
+  });
+
+  it("should not narrow documents that were only readable as plain text", async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 403, statusText: "Forbidden" })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ name: "Shared Document" }) })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve("Hiring\nHire 10 engineers") });
+
+    await expect(fetchGoogleDocsContent(
+      "https://docs.google.com/document/d/shared123/edit",
+      "mock-token",
+      { sectionHeading: "Hiring" }
+    )).rejects.toMatchObject({ code: "SECTION_NOT_FOUND" });
+  });
+
   it("should throw DocsError with DOCUMENT_NOT_FOUND for 404", async () => {
     global.fetch = vi.fn().mockResolvedValue({
       ok: false,
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDocumentOutline,
+  extractDocumentSection,
+  getDocumentImages,
+  mergeSpans,
+  renderDocumentMarkdown,
+  spansToMarkdown,
+} from "../services/document.js";
+import { StructuredDocument } from "../types/index.js";
+
+const document: StructuredDocument = {
+  title: "Plan",
+  sections: [
+    { heading: "", level: 0, blocks: [{ type: "paragraph", spans: [{ text: "Intro" }] }] },
+    {
+      heading: "Goals",
+      level: 1,
+      blocks: [{
+        type: "list",
+        ordered: true,
+        items: [
+          { spans: [{ text: "Grow" }], depth: 0 },
+          { spans: [{ text: "EMEA" }], depth: 1 },
+          { spans: [{ text: "Retain" }], depth: 0 },
+        ],
+      }],
+    },
+    {
+      heading: "Numbers",
+      level: 2,
+      blocks: [{
+        type: "table",
+        rows: [
+          [[{ text: "Region" }], [{ text: "Revenue" }]],
+          [[{ text: "EMEA" }], [{ text: "$4M", bold: true }]],
+        ],
+      }],
+    },
+    { heading: "Appendix detail", level: 3, blocks: [{ type: "paragraph", spans: [{ text: "Notes" }] }] },
+  ],
+};
+
+describe("spansToMarkdown", () => {
+  it("should mark emphasis and links inside surrounding whitespace", () => {
+    expect(spansToMarkdown([
+      { text: "Revenue " },
+      { text: "grew 25% ", bold: true },
+      { text: "per " },
+      { text: "report", italic: true, link: "https://example.com" },
+    ])).toBe("Revenue **grew 25%** per [*report*](https://example.com)");
+  });
+});
+
+describe("mergeSpans", () => {
+  it("should join adjacent spans with the same style and drop empty ones", () => {
+    expect(mergeSpans([{ text: "a" }, { text: "" }, { text: "b" }, { text: "c", bold: true }])).toEqual([
+      { text: "ab" },
+      { text: "c", bold: true },
+    ]);
+  });
+});
+
+describe("renderDocumentMarkdown", () => {
+  it("should render headings, nested numbered lists and tables", () => {
+    expect(renderDocumentMarkdown(document)).toBe([
+      "Intro",
+      "# Goals",
+      "1. Grow\n  1. EMEA\n2. Retain",
+      "## Numbers",
+      "| Region | Revenue |\n| --- | --- |\n| EMEA | **$4M** |",
+      "### Appendix detail",
+      "Notes",
+    ].join("\n\n"));
+  });
+});
+
+describe("buildDocumentOutline", () => {
+  it("should list H1 and H2 headings indented by level", () => {
+    expect(buildDocumentOutline(document)).toBe("- Goals (H1)\n  - Numbers (H2)");
+  });
+
+  it("should be empty for documents without headings", () => {
+    expect(buildDocumentOutline({ title: "T", sections: [document.sections[0]] })).toBe("");
+  });
+});
+
+describe("extractDocumentSection", () => {
+  it("should keep the heading's section and its subsections", () => {
+    expect(extractDocumentSection(document, "goals")).toEqual({
+      title: "Goals",
+      sections: document.sections.slice(1),
+    });
+    expect(extractDocumentSection(document, "Numbers")?.sections.map((section) => section.heading)).toEqual([
+      "Numbers",
+      "Appendix detail",
+    ]);
+  });
+
+  it("should return null when no heading matches", () => {
+    expect(extractDocumentSection(document, "Intro")).toBeNull();
+  });
+});
+
+describe("document images", () => {
+  const withImage: StructuredDocument = {
+    title: "Design",
+    sections: [{
+      heading: "Architecture",
+      level: 1,
+      blocks: [
+        { type: "image", id: "kix.arch", uri: "https://lh3.googleusercontent.com/arch", description: "System [v2]" },
+        { type: "image", id: "kix.chart", uri: "https://lh3.googleusercontent.com/chart" },
+      ],
+    }],
+  };
+
+  it("should reference images by ID without their URI", () => {
+    expect(renderDocumentMarkdown(withImage)).toBe(
+      "# Architecture\n\n![System v2](image:kix.arch)\n\n![Image](image:kix.chart)"
+    );
+  });
+
+  it("should map image IDs to their URIs", () => {
+    expect(getDocumentImages(withImage)).toEqual(new Map([
+      ["kix.arch", "https://lh3.googleusercontent.com/arch"],
+      ["kix.chart", "https://lh3.googleusercontent.com/chart"],
+    ]));
+  });
+});
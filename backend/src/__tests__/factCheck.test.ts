@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { factCheckStructure, unverifiedNumbersError } from "../services/factCheck.js";
+
+const source = "Q3 2024 review. Revenue grew 24.8% to $4.2 million, and three new hires joined. Costs were 1,234,567 across v1.2.";
+
+describe("factCheckStructure", () => {
+  it("should accept numbers found in the source, by value and rounded", () => {
+    const structure = {
+      title: "Q3 Review",
+      slides: [
+        { title: "Q3 2024 results", bullets: ["Revenue up 25%", "$4.2M revenue", "$1.2M costs", "3 new hires", "v1.2 shipped"] },
+        { type: "kpi" as const, title: "Revenue", metrics: [{ value: "24.8%", label: "Growth" }, { value: "$4,200,000", label: "Revenue" }] },
+      ],
+    };
+
+    expect(factCheckStructure(structure, source)).toEqual([]);
+  });
+
+  it("should report numbers that are not in the source, per slide", () => {
+    const structure = {
+      title: "Q3 Review",
+      slides: [
+        { title: "Results", bullets: ["Margin at 40%", "10x faster deploys", "Margin at 40% again"] },
+        { title: "Plan", bullets: ["Hire in Q4", "Ship the 1st release"] },
+        { type: "table" as const, title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$9M"]] },
+      ],
+    };
+
+    expect(factCheckStructure(structure, source)).toEqual([
+      { slideIndex: 0, slideTitle: "Results", numbers: ["40%", "10x"] },
+      { slideIndex: 2, slideTitle: "Costs", numbers: ["$9M"] },
+    ]);
+  });
+
+  it("should not check speaker notes", () => {
+    const structure = { title: "Q3 Review", slides: [{ title: "Results", bullets: ["Growth"], speakerNotes: "Up 99%" }] };
+    expect(factCheckStructure(structure, source)).toEqual([]);
+  });
+});
+
+describe("unverifiedNumbersError", () => {
+  it("should list the numbers of each slide", () => {
+    const error = unverifiedNumbersError([
+      { slideIndex: 0, slideTitle: "Results", numbers: ["40%", "10x"] },
+      { slideIndex: 2, slideTitle: "Costs", numbers: ["$9M"] },
+    ]);
+    expect(error).toMatchObject({ code: "UNVERIFIED_NUMBERS", httpStatus: 422 });
+    expect(error.message).toBe("Numbers not found in the source: slides[0] (\"40%\", \"10x\"); slides[2] (\"$9M\")");
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createFileJobStore,
+  createMemoryJobStore,
+  getJob,
+  getJobStore,
+  setJobStore,
+  startJob,
+} from "../services/jobs.js";
+import { unverifiedNumbersError } from "../services/factCheck.js";
+import { GenerationJob } from "../types/index.js";
+
+function makeJob(overrides: Partial<GenerationJob> = {}): GenerationJob {
+  return {
+    id: "00000000-0000-4000-8000-000000000001",
+    kind: "generate",
+    status: "succeeded",
+    progress: 100,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("createMemoryJobStore", () => {
+  it("should return copies of saved jobs", async () => {
+    const store = createMemoryJobStore();
+    await store.save(makeJob());
+
+    const job = await store.get(makeJob().id);
+    job!.status = "failed";
+
+    expect((await store.get(makeJob().id))?.status).toBe("succeeded");
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("should prune only finished jobs older than the cutoff", async () => {
+    const store = createMemoryJobStore();
+    const running = makeJob({ id: "00000000-0000-4000-8000-000000000002", status: "running" });
+    await store.save(makeJob());
+    await store.save(running);
+
+    await store.prune(new Date("2025-06-01T00:00:00.000Z"));
+
+    expect(await store.get(makeJob().id)).toBeNull();
+    expect(await store.get(running.id)).toEqual(running);
+  });
+});
+
+describe("createFileJobStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "doc2slides-jobs-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should persist jobs as JSON files", async () => {
+    await createFileJobStore(directory).save(makeJob());
+
+    // A new store instance reads what the previous one wrote
+    expect(await createFileJobStore(directory).get(makeJob().id)).toEqual(makeJob());
+    expect(await readdir(directory)).toEqual([`${makeJob().id}.json`]);
+  });
+
+  it("should reject IDs that are not job IDs", async () => {
+    expect(await createFileJobStore(directory).get("../secrets")).toBeNull();
+  });
+
+  it("should delete expired job files", async () => {
+    const store = createFileJobStore(directory);
+    await store.save(makeJob());
+
+    await store.prune(new Date("2025-06-01T00:00:00.000Z"));
+
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe("startJob", () => {
+  beforeEach(() => {
+    setJobStore(createMemoryJobStore());
+  });
+
+  afterEach(() => {
+    setJobStore(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should move through the reported stages to a result", async () => {
+    let finishRendering: () => void = () => {};
+    const job = await startJob("generate", async (setStage) => {
+      await setStage("summarizing");
+      await setStage("rendering");
+      await new Promise<void>((resolve) => { finishRendering = resolve; });
+      return { slidesId: "pres-1" };
+    });
+
+    expect(job).toMatchObject({ kind: "generate", status: "pending", progress: 0 });
+
+    await vi.waitFor(async () => {
+      expect(await getJob(job.id)).toMatchObject({ status: "running", stage: "rendering", progress: 80 });
+    });
+
+    finishRendering();
+
+    await vi.waitFor(async () => {
+      expect(await getJob(job.id)).toMatchObject({ status: "succeeded", progress: 100, result: { slidesId: "pres-1" } });
+    });
+  });
+
+  it("should record the error when the job throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const job = await startJob("preview", async () => {
+      throw new Error("boom");
+    });
+
+    await vi.waitFor(async () => {
+      expect(await getJob(job.id)).toMatchObject({ status: "failed", error: "boom" });
+    });
+  });
+
+  it("should keep the warnings of a strict fact check that failed the job", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const warnings = [{ slideIndex: 0, slideTitle: "Results", numbers: ["40%"] }];
+    const job = await startJob("generate", async () => {
+      throw unverifiedNumbersError(warnings);
+    });
+
+    await vi.waitFor(async () => {
+      expect(await getJob(job.id)).toMatchObject({ status: "failed", code: "UNVERIFIED_NUMBERS", warnings });
+    });
+  });
+});
+
+describe("getJobStore", () => {
+  afterEach(() => {
+    setJobStore(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("should reject unknown store types", () => {
+    setJobStore(null);
+    vi.stubEnv("JOB_STORE", "redis");
+
+    expect(() => getJobStore()).toThrow('Unknown JOB_STORE "redis"');
+  });
+});
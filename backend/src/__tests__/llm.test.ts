@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getProvider, getDefaultProviderName, listProviders, JsonSchema, LlmError } from "../services/llm/index.js";
+
+describe("getProvider", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv("LLM_PROVIDER", "");
+    vi.stubEnv("LLM_ALLOWED_PROVIDERS", "");
+    vi.stubEnv("GEMINI_API_KEY", "");
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should default to mock when no provider is configured", () => {
+    expect(getDefaultProviderName()).toBe("mock");
+    expect(getProvider().name).toBe("mock");
+  });
+
+  it("should default to gemini when GEMINI_API_KEY is set", () => {
+    vi.stubEnv("GEMINI_API_KEY", "gemini-key");
+    expect(getDefaultProviderName()).toBe("gemini");
+  });
+
+  it("should honor LLM_PROVIDER", () => {
+    vi.stubEnv("LLM_PROVIDER", "local");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:11434/v1");
+    expect(getProvider().name).toBe("local");
+  });
+
+  it("should allow a per-request override", () => {
+    vi.stubEnv("GEMINI_API_KEY", "gemini-key");
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    expect(getProvider("anthropic").name).toBe("anthropic");
+  });
+
+  it("should throw UNKNOWN_PROVIDER for an unknown name", () => {
+    try {
+      getProvider("llama");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(LlmError);
+      expect((error as LlmError).code).toBe("UNKNOWN_PROVIDER");
+      expect((error as LlmError).httpStatus).toBe(400);
+    }
+  });
+
+  it("should throw PROVIDER_NOT_CONFIGURED when credentials are missing", () => {
+    try {
+      getProvider("openai");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect((error as LlmError).code).toBe("PROVIDER_NOT_CONFIGURED");
+    }
+  });
+
+  it("should reject providers outside LLM_ALLOWED_PROVIDERS", () => {
+    vi.stubEnv("LLM_ALLOWED_PROVIDERS", "local");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:8080/v1");
+    vi.stubEnv("GEMINI_API_KEY", "gemini-key");
+
+    expect(getProvider("local").name).toBe("local");
+    try {
+      getProvider("gemini");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect((error as LlmError).code).toBe("PROVIDER_NOT_ALLOWED");
+      expect((error as LlmError).httpStatus).toBe(403);
+    }
+  });
+
+  it("should list providers with their status", () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    const providers = listProviders();
+    expect(providers.find((p) => p.name === "anthropic")?.configured).toBe(true);
+    expect(providers.find((p) => p.name === "openai")?.configured).toBe(false);
+    expect(providers.find((p) => p.name === "mock")?.configured).toBe(true);
+  });
+});
+
+describe("provider.complete", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const schema: JsonSchema = { type: "object", properties: { slides: { type: "array" } }, required: ["slides"] };
+
+  it("should return mock slides sized to the requested slide count", async () => {
+    const text = await getProvider("mock").complete({ prompt: "ignored", slideCount: 3 });
+    const parsed = JSON.parse(text);
+    expect(parsed.slides).toHaveLength(3);
+    expect(parsed.slides[0].title).toBe("Executive Summary");
+  });
+
+  it("should call the Anthropic Messages API", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    vi.stubEnv("ANTHROPIC_MODEL", "claude-test");
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ content: [{ type: "text", text: "{\"slides\":[]}" }] }),
+    });
+
+    const text = await getProvider("anthropic").complete({ prompt: "Summarize" });
+
+    expect(text).toBe("{\"slides\":[]}");
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect((init as RequestInit).headers).toMatchObject({ "x-api-key": "anthropic-key" });
+    expect(JSON.parse((init as RequestInit).body as string)).toMatchObject({
+      model: "claude-test",
+      messages: [{ role: "user", content: "Summarize" }],
+    });
+  });
+
+  it("should call a local OpenAI-compatible server without an API key", async () => {
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:11434/v1/");
+    vi.stubEnv("LOCAL_LLM_MODEL", "llama3.1");
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ message: { content: "local output" } }] }),
+    });
+
+    const text = await getProvider("local").complete({ prompt: "Summarize" });
+
+    expect(text).toBe("local output");
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect((init as RequestInit).headers).not.toHaveProperty("Authorization");
+  });
+
+  it("should send the system prompt separately from the user message", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    vi.stubEnv("OPENAI_API_KEY", "openai-key");
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ content: [{ type: "text", text: "a" }] }) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ choices: [{ message: { content: "o" } }] }) });
+
+    await getProvider("anthropic").complete({ prompt: "Summarize", system: "Rules" });
+    await getProvider("openai").complete({ prompt: "Summarize", system: "Rules" });
+
+    const [anthropic, openai] = vi.mocked(global.fetch).mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    expect(anthropic).toMatchObject({ system: "Rules", messages: [{ role: "user", content: "Summarize" }] });
+    expect(openai.messages).toEqual([
+      { role: "system", content: "Rules" },
+      { role: "user", content: "Summarize" },
+    ]);
+  });
+
+  it("should force an Anthropic tool call when a response schema is given", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        content: [{ type: "tool_use", name: "submit_response", input: { slides: [] } }],
+      }),
+    });
+
+    const text = await getProvider("anthropic").complete({ prompt: "Summarize", responseSchema: schema });
+
+    expect(text).toBe("{\"slides\":[]}");
+    const body = JSON.parse((vi.mocked(global.fetch).mock.calls[0][1] as RequestInit).body as string);
+    expect(body.tools).toEqual([expect.objectContaining({ name: "submit_response", input_schema: schema })]);
+    expect(body.tool_choice).toEqual({ type: "tool", name: "submit_response" });
+  });
+
+  it("should request json_schema output from OpenAI and json_object from local servers", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "openai-key");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:11434/v1");
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ message: { content: "{}" } }] }),
+    });
+
+    await getProvider("openai").complete({ prompt: "Summarize", responseSchema: schema });
+    await getProvider("local").complete({ prompt: "Summarize", responseSchema: schema });
+
+    const bodies = vi.mocked(global.fetch).mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    expect(bodies[0].response_format).toEqual({ type: "json_schema", json_schema: { name: "response", schema } });
+    expect(bodies[1].response_format).toEqual({ type: "json_object" });
+  });
+
+  it("should throw PROVIDER_REQUEST_FAILED on HTTP errors", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "openai-key");
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      statusText: "Too Many Requests",
+    });
+
+    await expect(getProvider("openai").complete({ prompt: "Summarize" })).rejects.toMatchObject({
+      code: "PROVIDER_REQUEST_FAILED",
+      httpStatus: 502,
+    });
+  });
+});
+
+describe("provider.stream", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Split across reads at awkward points to exercise the event buffering
+  function eventStream(text: string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const pieces = text.match(/[\s\S]{1,11}/g) || [];
+    return new ReadableStream({
+      start(controller) {
+        pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      },
+    });
+  }
+
+  async function collect(chunks: AsyncIterable<string>): Promise<string[]> {
+    const collected: string[] = [];
+    for await (const chunk of chunks) {
+      collected.push(chunk);
+    }
+    return collected;
+  }
+
+  it("should stream mock slides in pieces", async () => {
+    const chunks = await collect(getProvider("mock").stream({ prompt: "ignored", slideCount: 2 }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(JSON.parse(chunks.join("")).slides).toHaveLength(2);
+  });
+
+  it("should yield text and tool input deltas from the Anthropic event stream", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "anthropic-key");
+    const events = [
+      { type: "message_start", message: {} },
+      { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: "{\"slides\"" } },
+      { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: ":[]}" } },
+      { type: "message_stop" },
+    ];
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      body: eventStream(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join("")),
+    });
+
+    const chunks = await collect(getProvider("anthropic").stream({ prompt: "Summarize" }));
+
+    expect(chunks).toEqual(["{\"slides\"", ":[]}"]);
+    expect(JSON.parse((vi.mocked(global.fetch).mock.calls[0][1] as RequestInit).body as string).stream).toBe(true);
+  });
+
+  it("should yield content deltas from an OpenAI-compatible stream until [DONE]", async () => {
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:11434/v1");
+    const deltas = ["{\"sli", "des\":[]}"];
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      body: eventStream(
+        deltas.map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\r\n\r\n`).join("") +
+          "data: [DONE]\r\n\r\n"
+      ),
+    });
+
+    const chunks = await collect(getProvider("local").stream({ prompt: "Summarize" }));
+
+    expect(chunks).toEqual(deltas);
+  });
+
+  it("should pass the abort signal to fetch", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "openai-key");
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, body: eventStream("data: [DONE]\n\n") });
+    const controller = new AbortController();
+
+    await collect(getProvider("openai").stream({ prompt: "Summarize", signal: controller.signal }));
+
+    expect((vi.mocked(global.fetch).mock.calls[0][1] as RequestInit).signal).toBe(controller.signal);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect } from "vitest";
+import { buildMasterPresentationRequests, MasterLayout, readMasterLayouts, resolveMasterLayouts } from "../services/masterDeck.js";
+
+function layout(objectId: string, name: string, displayName: string, types: string[]): MasterLayout {
+  return {
+    objectId,
+    name,
+    displayName,
+    placeholders: types.map((type, index) => ({
+      objectId: `${objectId}-${index}`,
+      type,
+      index: type === "BODY" ? index : 0,
+      box: { x: 36 + index * 330, y: 120, width: 300, height: 360 },
+    })),
+  };
+}
+
+const layouts = [
+  layout("title", "TITLE", "Title slide", ["CENTERED_TITLE", "SUBTITLE"]),
+  layout("body", "TITLE_AND_BODY", "Title and body", ["TITLE", "BODY"]),
+  layout("columns", "TITLE_AND_TWO_COLUMNS", "Title and two columns", ["TITLE", "BODY", "BODY"]),
+  layout("brand", "CUSTOM_1", "Brand statement", ["TITLE", "BODY"]),
+  layout("blank", "BLANK", "Blank", []),
+];
+
+describe("readMasterLayouts", () => {
+  it("should read each layout's placeholders in points", () => {
+    expect(readMasterLayouts({
+      layouts: [{
+        objectId: "l1",
+        layoutProperties: { name: "TITLE_AND_BODY", displayName: "Title and body" },
+        pageElements: [
+          {
+            objectId: "p1",
+            size: { width: { magnitude: 3048000, unit: "EMU" }, height: { magnitude: 1270000, unit: "EMU" } },
+            transform: { scaleX: 2, scaleY: 1, translateX: 457200, translateY: 1270000, unit: "EMU" },
+            shape: { placeholder: { type: "BODY", index: 1 } },
+          },
+          { objectId: "logo", image: {} },
+        ],
+      }],
+    })).toEqual([{
+      objectId: "l1",
+      name: "TITLE_AND_BODY",
+      displayName: "Title and body",
+      placeholders: [{ objectId: "p1", type: "BODY", index: 1, box: { x: 36, y: 100, width: 480, height: 100 } }],
+    }]);
+  });
+});
+
+describe("resolveMasterLayouts", () => {
+  it("should use the default layouts and fall back to the bullets layout", () => {
+    const resolved = resolveMasterLayouts(layouts.filter(({ name }) => name !== "SECTION_HEADER"));
+
+    expect(resolved.title.objectId).toBe("title");
+    expect(resolved.comparison.objectId).toBe("columns");
+    expect(resolved.section.objectId).toBe("body");
+  });
+
+  it("should match named layouts by display name, then name", () => {
+    const resolved = resolveMasterLayouts(layouts, { quote: "brand statement", kpi: "CUSTOM_1" });
+
+    expect(resolved.quote.objectId).toBe("brand");
+    expect(resolved.kpi.objectId).toBe("brand");
+  });
+
+  it("should reject missing layouts and layouts without the placeholders a slide needs", () => {
+    expect(() => resolveMasterLayouts(layouts, { table: "Wide table" })).toThrow(
+      'The master deck has no layout "Wide table". Available layouts: Title slide, Title and body, Title and two columns, Brand statement, Blank'
+    );
+    expect(() => resolveMasterLayouts(layouts, { agenda: "Blank" })).toThrow(
+      expect.objectContaining({ code: "LAYOUT_MISSING_PLACEHOLDER", message: 'Layout "Blank" has no title placeholder, which agenda slides need' })
+    );
+    expect(() => resolveMasterLayouts([layouts[0]])).toThrow(expect.objectContaining({ code: "LAYOUT_NOT_FOUND" }));
+  });
+});
+
+describe("buildMasterPresentationRequests", () => {
+  const resolved = resolveMasterLayouts(layouts);
+
+  it("should fill placeholders and replace the copy's slides", () => {
+    const { requests, speakerNotes } = buildMasterPresentationRequests({
+      structure: {
+        title: "Quarterly Review",
+        slides: [
+          {
+            type: "comparison",
+            title: "Build or Buy",
+            left: { heading: "Build", bullets: ["Control"] },
+            right: { heading: "Buy", bullets: ["Speed"] },
+            speakerNotes: "Recommend buying",
+          },
+          { type: "quote", title: "Customers", quote: "It just works", attribution: "Pilot customer" },
+        ],
+      },
+      layouts: resolved,
+      existingSlideIds: ["old-1", "old-2"],
+    });
+
+    expect(requests).toEqual([
+      { deleteObject: { objectId: "old-1" } },
+      { deleteObject: { objectId: "old-2" } },
+      {
+        createSlide: {
+          objectId: "title_slide",
+          slideLayoutReference: { layoutId: "title" },
+          placeholderIdMappings: [{ layoutPlaceholderObjectId: "title-0", objectId: "title_slide_title" }],
+        },
+      },
+      { insertText: { objectId: "title_slide_title", text: "Quarterly Review", insertionIndex: 0 } },
+      {
+        createSlide: {
+          objectId: "slide_0",
+          slideLayoutReference: { layoutId: "columns" },
+          placeholderIdMappings: [
+            { layoutPlaceholderObjectId: "columns-0", objectId: "title_0" },
+            { layoutPlaceholderObjectId: "columns-1", objectId: "left_body_0" },
+            { layoutPlaceholderObjectId: "columns-2", objectId: "right_body_0" },
+          ],
+        },
+      },
+      { insertText: { objectId: "title_0", text: "Build or Buy", insertionIndex: 0 } },
+      { insertText: { objectId: "left_body_0", text: "Build\nControl", insertionIndex: 0 } },
+      {
+        updateTextStyle: {
+          objectId: "left_body_0",
+          style: { bold: true },
+          textRange: { type: "FIXED_RANGE", startIndex: 0, endIndex: 5 },
+          fields: "bold",
+        },
+      },
+      { insertText: { objectId: "right_body_0", text: "Buy\nSpeed", insertionIndex: 0 } },
+      {
+        updateTextStyle: {
+          objectId: "right_body_0",
+          style: { bold: true },
+          textRange: { type: "FIXED_RANGE", startIndex: 0, endIndex: 3 },
+          fields: "bold",
+        },
+      },
+      {
+        createSlide: {
+          objectId: "slide_1",
+          slideLayoutReference: { layoutId: "body" },
+          placeholderIdMappings: [
+            { layoutPlaceholderObjectId: "body-0", objectId: "title_1" },
+            { layoutPlaceholderObjectId: "body-1", objectId: "body_1" },
+          ],
+        },
+      },
+      { insertText: { objectId: "title_1", text: "Customers", insertionIndex: 0 } },
+      { insertText: { objectId: "body_1", text: "“It just works”\n— Pilot customer", insertionIndex: 0 } },
+    ]);
+    expect(speakerNotes).toEqual([{ slideId: "slide_0", text: "Recommend buying" }]);
+  });
+
+  it("should delete the copy's slides before reusing their object IDs", () => {
+    // A master made from an earlier doc2slides deck already has these IDs
+    const { requests } = buildMasterPresentationRequests({
+      structure: { title: "Deck", slides: [{ title: "Plan", bullets: ["Hire"] }] },
+      layouts: resolved,
+      existingSlideIds: ["title_slide", "slide_0"],
+    });
+
+    const createdAt = (objectId: string) => requests.findIndex((request) => request.createSlide?.objectId === objectId);
+    const deletedAt = (objectId: string) => requests.findIndex((request) => request.deleteObject?.objectId === objectId);
+    expect(deletedAt("title_slide")).toBeGreaterThanOrEqual(0);
+    expect(deletedAt("title_slide")).toBeLessThan(createdAt("title_slide"));
+    expect(deletedAt("slide_0")).toBeLessThan(createdAt("slide_0"));
+  });
+
+  it("should place tables and images over the body placeholders", () => {
+    const { requests, imageRequests } = buildMasterPresentationRequests({
+      structure: {
+        title: "Deck",
+        slides: [
+          { type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$1M"]] },
+          {
+            type: "image",
+            title: "Architecture",
+            imageId: "kix.arch",
+            imageUrl: "https://lh3.googleusercontent.com/arch",
+            bullets: ["Three services"],
+            citations: [{ quote: "three services", url: "https://docs.google.com/document/d/doc/edit#heading=h.1" }],
+          },
+        ],
+      },
+      layouts: resolved,
+      existingSlideIds: [],
+      citationStyle: "links",
+    });
+
+    expect(requests).toContainEqual(expect.objectContaining({
+      createTable: expect.objectContaining({
+        objectId: "table_0",
+        rows: 2,
+        columns: 2,
+        elementProperties: expect.objectContaining({
+          transform: { scaleX: 1, scaleY: 1, translateX: 366, translateY: 120, unit: "PT" },
+        }),
+      }),
+    }));
+    expect(requests).toContainEqual(expect.objectContaining({
+      createSlide: expect.objectContaining({
+        objectId: "slide_0",
+        placeholderIdMappings: [{ layoutPlaceholderObjectId: "body-0", objectId: "title_0" }],
+      }),
+    }));
+    expect(imageRequests).toEqual([expect.objectContaining({
+      createImage: expect.objectContaining({
+        objectId: "image_1",
+        elementProperties: expect.objectContaining({
+          transform: { scaleX: 1, scaleY: 1, translateX: 366, translateY: 120, unit: "PT" },
+        }),
+      }),
+    })]);
+    expect(requests).toContainEqual({ insertText: { objectId: "body_1", text: "Three services", insertionIndex: 0 } });
+    expect(requests).toContainEqual(expect.objectContaining({
+      updateTextStyle: expect.objectContaining({ objectId: "body_1", style: { link: { url: "https://docs.google.com/document/d/doc/edit#heading=h.1" } } }),
+    }));
+  });
+
+  it("should report section subtitles that the section layout has no placeholder for", () => {
+    const sectionLayouts = [...layouts, layout("section", "SECTION_HEADER", "Section header", ["TITLE"])];
+    const { requests, layoutAdjustments } = buildMasterPresentationRequests({
+      structure: {
+        title: "Deck",
+        slides: [
+          { type: "section", title: "Results", subtitle: "How the quarter went" },
+          { type: "section", title: "Plans" },
+        ],
+      },
+      layouts: resolveMasterLayouts(sectionLayouts),
+      existingSlideIds: [],
+    });
+
+    expect(requests).not.toContainEqual(expect.objectContaining({ insertText: expect.objectContaining({ objectId: "body_0" }) }));
+    expect(layoutAdjustments).toEqual([{ slideIndex: 0, slideTitle: "Results", kind: "dropped", element: "body" }]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { createRateLimiter } from "../utils/rateLimit.js";
+import { hashApiKey, setApiKeys } from "../services/apiKeys.js";
+
+describe("createRateLimiter", () => {
+  function createApp() {
+    const app = express();
+    app.use(createRateLimiter(1));
+    app.get("/generate/templates", (_req, res) => {
+      res.json({ success: true });
+    });
+    app.get("/generate/jobs/:id", (_req, res) => {
+      res.json({ success: true });
+    });
+    return app;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    setApiKeys([{ id: "deck-bot", hash: hashApiKey("d2s_decks"), scopes: ["create-slides"] }]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setApiKeys(null);
+  });
+
+  it("should limit requests with an unknown or empty API key by IP", async () => {
+    const app = createApp();
+
+    expect((await request(app).get("/generate/templates").set("X-API-Key", "d2s_guess")).status).toBe(200);
+    expect((await request(app).get("/generate/templates").set("X-API-Key", "d2s_guess")).status).toBe(429);
+    expect((await request(app).get("/generate/templates").set("X-API-Key", "")).status).toBe(429);
+  });
+
+  it("should exempt valid API keys and job status polling", async () => {
+    const app = createApp();
+
+    await request(app).get("/generate/templates");
+    expect((await request(app).get("/generate/templates")).status).toBe(429);
+    expect((await request(app).get("/generate/templates").set("X-API-Key", "d2s_decks")).status).toBe(200);
+    expect((await request(app).get("/generate/jobs/job-1")).status).toBe(200);
+  });
+});
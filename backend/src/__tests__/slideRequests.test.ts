@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { buildPresentationRequests, DRY_RUN_TITLE_SLIDE } from "../services/slideRequests.js";
+import { getTemplateConfig, listThemes, toTemplateConfig } from "../services/themes.js";
+import { PresentationStructure, ThemeDefinition } from "../types/index.js";
+
+// One slide of every type, so a change to any layout shows up in the golden files
+const structure: PresentationStructure = {
+  title: "Quarterly Review",
+  slides: [
+    { type: "agenda", title: "Agenda", items: ["Results", "Plan", "Risks"] },
+    {
+      title: "Highlights",
+      bullets: ["Revenue grew 25%", "Churn fell to 2%", "Two new regions"],
+      citations: [{ quote: "grew 25%", heading: "Results", url: "https://docs.google.com/document/d/doc/edit#heading=h.1" }, null, null],
+      speakerNotes: "Lead with growth",
+    },
+    { type: "section", title: "Plan", subtitle: "Next two quarters" },
+    {
+      type: "comparison",
+      title: "Build or Buy",
+      left: { heading: "Build", bullets: ["Full control", "Slower"] },
+      right: { heading: "Buy", bullets: ["Faster", "License cost"] },
+    },
+    { type: "kpi", title: "Results", metrics: [{ value: "25%", label: "Growth" }, { value: "$4M", label: "Savings" }], context: "Year over year" },
+    { type: "quote", title: "Customers", quote: "It just works", attribution: "Pilot customer" },
+    { type: "timeline", title: "Roadmap", events: [{ date: "Q1", label: "Beta" }, { date: "Q2", label: "Launch" }] },
+    { type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$1M"], ["People", ""]] },
+    {
+      type: "image",
+      title: "Architecture",
+      imageId: "kix.arch",
+      imageUrl: "https://lh3.googleusercontent.com/arch",
+      bullets: ["Three services", "One queue"],
+    },
+  ],
+};
+
+// Every theme setting, so each shows up in its golden file
+const brandedTheme: ThemeDefinition = {
+  id: "branded",
+  name: "Branded",
+  colors: { title: "#ffffff", body: "#202124", background: "#ffffff", header: "#0b5394", titleOnHeader: "#ffffff" },
+  fonts: { title: "Georgia", body: "Roboto" },
+  fontSizes: { title: 32, body: 20, titleSlide: 48 },
+  minFontScale: 0.6,
+  layout: { margin: 48, headerHeight: 80 },
+  logo: { url: "https://example.com/logo.png", width: 96, height: 40 },
+  footer: { text: "Confidential - Example Corp" },
+};
+
+describe("buildPresentationRequests", () => {
+  it.each(listThemes().map(({ id }) => id))("should match the golden requests for the %s template", async (template) => {
+    const output = buildPresentationRequests({
+      structure,
+      templateConfig: getTemplateConfig(template),
+      citationStyle: "links",
+      titleSlide: DRY_RUN_TITLE_SLIDE,
+    });
+
+    await expect(`${JSON.stringify(output, null, 2)}\n`).toMatchFileSnapshot(`./__golden__/slideRequests.${template}.json`);
+  });
+
+  it("should apply the fonts, sizes, geometry, logo and footer of a theme", async () => {
+    const output = buildPresentationRequests({
+      structure,
+      templateConfig: toTemplateConfig(brandedTheme),
+      citationStyle: "links",
+      titleSlide: DRY_RUN_TITLE_SLIDE,
+    });
+
+    await expect(`${JSON.stringify(output, null, 2)}\n`).toMatchFileSnapshot("./__golden__/slideRequests.branded.json");
+  });
+
+  it("should keep images and speaker notes out of the layout batch", () => {
+    const output = buildPresentationRequests({ structure, templateConfig: getTemplateConfig(), citationStyle: "notes" });
+
+    expect(output.requests.some((request) => request.createImage)).toBe(false);
+    expect(output.imageRequests).toEqual([expect.objectContaining({ createImage: expect.objectContaining({ objectId: "image_8" }) })]);
+    expect(output.speakerNotes).toEqual([
+      { slideId: "slide_1", text: "Lead with growth\n\nSources:\n[1] \"grew 25%\" (Results, https://docs.google.com/document/d/doc/edit#heading=h.1)" },
+    ]);
+  });
+
+  it("should only fill in the title slide when its IDs are given", () => {
+    const withoutTitle = buildPresentationRequests({ structure, templateConfig: getTemplateConfig() });
+    const withTitle = buildPresentationRequests({ structure, templateConfig: getTemplateConfig(), titleSlide: DRY_RUN_TITLE_SLIDE });
+
+    expect(withoutTitle.requests[0]).toEqual(expect.objectContaining({ createSlide: expect.objectContaining({ objectId: "slide_0" }) }));
+    expect(withTitle.requests.slice(0, 3)).toEqual([
+      expect.objectContaining({ updatePageProperties: expect.objectContaining({ objectId: "title_slide" }) }),
+      { insertText: { objectId: "title_slide_title", text: "Quarterly Review", insertionIndex: 0 } },
+      expect.objectContaining({ updateTextStyle: expect.objectContaining({ objectId: "title_slide_title" }) }),
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { createSlideStreamParser } from "../services/slideStream.js";
+
+describe("createSlideStreamParser", () => {
+  const response = JSON.stringify({
+    slides: [
+      { type: "bullets", title: "Braces { and [ in text", bullets: ["Quote \" and \\ escapes", "b", "c"] },
+      { type: "kpi", title: "Numbers", metrics: [{ value: "22%", label: "Growth" }] },
+    ],
+  });
+
+  it("should return each slide once its object is complete", () => {
+    const parser = createSlideStreamParser();
+    const emitted: unknown[][] = [];
+    for (const char of response) {
+      const slides = parser.push(char);
+      if (slides.length > 0) {
+        emitted.push(slides);
+      }
+    }
+
+    expect(emitted).toEqual([
+      [JSON.parse(response).slides[0]],
+      [JSON.parse(response).slides[1]],
+    ]);
+  });
+
+  it("should return several slides from one chunk", () => {
+    expect(createSlideStreamParser().push(response)).toHaveLength(2);
+  });
+
+  it("should ignore code fences, prose and other top-level keys", () => {
+    const parser = createSlideStreamParser();
+    const text = "Here you go:\n```json\n{\"notes\": [{\"title\": \"not a slide\"}], \"slides\": [{\"title\": \"A\"}]}\n```";
+
+    expect(parser.push(text)).toEqual([{ title: "A" }]);
+  });
+
+  it("should wait for more input when a slide is incomplete", () => {
+    const parser = createSlideStreamParser();
+
+    expect(parser.push("{\"slides\": [{\"title\": \"A\", \"bull")).toEqual([]);
+    expect(parser.push("ets\": []}, {")).toEqual([{ title: "A", bullets: [] }]);
+  });
+});
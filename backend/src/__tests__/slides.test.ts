@@ -0,0 +1,622 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createPresentation } from "../services/slides.js";
+import { SlidesRequest } from "../services/slideRequests.js";
+
+const create = vi.fn();
+const get = vi.fn();
+const batchUpdate = vi.fn();
+const copy = vi.fn();
+const deleteFile = vi.fn();
+
+vi.mock("googleapis", () => ({
+  google: {
+    auth: {
+      OAuth2: class {
+        setCredentials() {}
+      },
+    },
+    slides: () => ({
+      presentations: { create, get, batchUpdate },
+    }),
+    drive: () => ({
+      files: { copy, delete: deleteFile },
+    }),
+  },
+}));
+
+// The requests of one batchUpdate call
+function sentRequests(call = 0): SlidesRequest[] {
+  return batchUpdate.mock.calls[call][0].requestBody.requests;
+}
+
+describe("createPresentation", () => {
+  beforeEach(() => {
+    create.mockReset().mockResolvedValue({
+      data: {
+        presentationId: "pres-1",
+        slides: [{ objectId: "title-slide", pageElements: [] }],
+      },
+    });
+    get.mockReset().mockResolvedValue({
+      data: {
+        slides: [
+          { objectId: "title-slide" },
+          { objectId: "slide_0", slideProperties: { notesPage: { notesProperties: { speakerNotesObjectId: "notes_0" } } } },
+          { objectId: "slide_1", slideProperties: { notesPage: { notesProperties: { speakerNotesObjectId: "notes_1" } } } },
+        ],
+      },
+    });
+    batchUpdate.mockReset().mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return the presentation URL and ID", async () => {
+    const result = await createPresentation({
+      structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"] }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    expect(result).toEqual({
+      slidesUrl: "https://docs.google.com/presentation/d/pres-1/edit",
+      slidesId: "pres-1",
+      layoutAdjustments: [],
+    });
+  });
+
+  it("should insert speaker notes into each slide's notes page", async () => {
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [
+          { title: "One", bullets: ["A"], speakerNotes: "Say this first" },
+          { title: "Two", bullets: ["B"], speakerNotes: "Then this" },
+        ],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    expect(batchUpdate).toHaveBeenCalledTimes(2);
+    expect(batchUpdate.mock.calls[1][0]).toEqual({
+      presentationId: "pres-1",
+      requestBody: {
+        requests: [
+          { insertText: { objectId: "notes_0", text: "Say this first", insertionIndex: 0 } },
+          { insertText: { objectId: "notes_1", text: "Then this", insertionIndex: 0 } },
+        ],
+      },
+    });
+  });
+
+  it("should skip the notes round-trip when no slide has notes", async () => {
+    await createPresentation({
+      structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"], speakerNotes: "  " }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    expect(get).not.toHaveBeenCalled();
+    expect(batchUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should link cited bullets to their heading in the Doc", async () => {
+    const url = "https://docs.google.com/document/d/abc/edit#heading=h.1";
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [{ title: "One", bullets: ["First", "Second"], citations: [null, { quote: "second", heading: "Results", url }] }],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      citationStyle: "links",
+    });
+
+    const requests = sentRequests();
+    expect(requests.filter((r) => r.updateTextStyle?.style?.link)).toEqual([
+      {
+        updateTextStyle: {
+          objectId: "body_0",
+          style: { link: { url } },
+          textRange: { type: "FIXED_RANGE", startIndex: 6, endIndex: 12 },
+          fields: "link",
+        },
+      },
+    ]);
+  });
+
+  it("should list citations after the speaker notes", async () => {
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [
+          {
+            title: "One",
+            bullets: ["First"],
+            speakerNotes: "Say this first",
+            citations: [{ quote: "the first point", heading: "Results" }],
+          },
+          { title: "Two", bullets: ["Second"], citations: [{ quote: "the second point" }] },
+        ],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      citationStyle: "notes",
+    });
+
+    expect(batchUpdate.mock.calls[1][0].requestBody.requests).toEqual([
+      {
+        insertText: {
+          objectId: "notes_0",
+          text: "Say this first\n\nSources:\n[1] \"the first point\" (Results)",
+          insertionIndex: 0,
+        },
+      },
+      { insertText: { objectId: "notes_1", text: "Sources:\n[1] \"the second point\"", insertionIndex: 0 } },
+    ]);
+  });
+
+  it("should render typed slides with their own layouts", async () => {
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [
+          { type: "agenda", title: "Agenda", items: ["Intro", "Plan"] },
+          { type: "kpi", title: "Results", metrics: [{ value: "25%", label: "Growth" }, { value: "$4M", label: "Savings" }] },
+          { type: "timeline", title: "Roadmap", events: [{ date: "Q1", label: "Beta" }, { date: "Q2", label: "Launch" }] },
+          { type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", ""]] },
+        ],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    const requests = sentRequests();
+    const insertedText = (objectId: string) =>
+      requests.find((r) => r.insertText?.objectId === objectId && !r.insertText.cellLocation)?.insertText?.text;
+
+    expect(insertedText("body_0")).toBe("Intro\nPlan");
+    expect(requests).toContainEqual(expect.objectContaining({
+      createParagraphBullets: expect.objectContaining({ objectId: "body_0", bulletPreset: "NUMBERED_DIGIT_ALPHA_ROMAN" }),
+    }));
+    expect(insertedText("kpi_value_1_0")).toBe("25%");
+    expect(insertedText("kpi_label_1_1")).toBe("Savings");
+    expect(insertedText("timeline_date_2_1")).toBe("Q2");
+    expect(requests.some((r) => r.createShape?.objectId === "timeline_line_2")).toBe(true);
+
+    const table = requests.find((r) => r.createTable)?.createTable;
+    expect(table).toMatchObject({ objectId: "table_3", rows: 2, columns: 2 });
+    // Empty cells get no insertText
+    const cellTexts = requests.filter((r) => r.insertText?.cellLocation).map((r) => r.insertText?.text);
+    expect(cellTexts).toEqual(["Item", "Cost", "Servers"]);
+  });
+
+  it("should fill the table header row with the template's accent color", async () => {
+    await createPresentation({
+      structure: { title: "Deck", slides: [{ type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$10k"]] }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      template: "executive",
+    });
+
+    const requests = sentRequests();
+    expect(requests).toContainEqual({
+      updateTableCellProperties: expect.objectContaining({
+        objectId: "table_0",
+        tableRange: { location: { rowIndex: 0, columnIndex: 0 }, rowSpan: 1, columnSpan: 2 },
+        tableCellProperties: {
+          tableCellBackgroundFill: { solidFill: { color: { rgbColor: { red: 0.102, green: 0.2, blue: 0.4 } } } },
+        },
+      }),
+    });
+    const cellStyle = (rowIndex: number) => requests.find((r) =>
+      r.updateTextStyle?.cellLocation?.rowIndex === rowIndex && r.updateTextStyle.cellLocation?.columnIndex === 0
+    )?.updateTextStyle?.style;
+    expect(cellStyle(0)).toMatchObject({ bold: true, foregroundColor: { opaqueColor: { rgbColor: { red: 1, green: 1, blue: 1 } } } });
+    expect(cellStyle(1)).toMatchObject({ bold: false, foregroundColor: { opaqueColor: { rgbColor: { red: 0.2, green: 0.2, blue: 0.2 } } } });
+  });
+
+  it("should split oversized tables across slides", async () => {
+    const rows = Array.from({ length: 8 }, (_, i) => [`Item ${i}`, `${i}`]);
+    get.mockResolvedValueOnce({
+      data: {
+        slides: [{ objectId: "slide_1", slideProperties: { notesPage: { notesProperties: { speakerNotesObjectId: "notes_1" } } } }],
+      },
+    });
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [
+          { type: "table", title: "Costs", columns: ["Item", "Cost"], rows },
+          { title: "Next", bullets: ["A"], speakerNotes: "Then this" },
+        ],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    const requests = sentRequests();
+    const tables = requests.filter((r) => r.createTable).map((r) => r.createTable);
+    expect(tables).toMatchObject([{ objectId: "table_0", rows: 7 }, { objectId: "table_0_1", rows: 3 }]);
+    expect(requests).toContainEqual({ insertText: expect.objectContaining({ objectId: "title_0_1", text: "Costs (cont.)" }) });
+    expect(requests).toContainEqual({ insertText: expect.objectContaining({ objectId: "table_0_1", text: "Item", cellLocation: { rowIndex: 0, columnIndex: 0 } }) });
+    // The following slide moves down but keeps its IDs, and its notes go with it
+    expect(requests).toContainEqual({ createSlide: expect.objectContaining({ objectId: "slide_1", insertionIndex: 3 }) });
+    expect(requests).toContainEqual({ insertText: expect.objectContaining({ objectId: "title_1", text: "Next" }) });
+    expect(batchUpdate.mock.calls[1][0].requestBody.requests).toEqual([
+      { insertText: { objectId: "notes_1", text: "Then this", insertionIndex: 0 } },
+    ]);
+  });
+
+  describe("text fitting", () => {
+    const longBullet = "Revenue grew in every region this quarter with strong demand from enterprise customers and partners";
+    const fontSizeOf = (requests: SlidesRequest[], objectId: string) =>
+      requests.find((r) => r.updateTextStyle?.objectId === objectId)?.updateTextStyle?.style?.fontSize?.magnitude;
+
+    it("should shrink text that does not fit its box at the default size", async () => {
+      const result = await createPresentation({
+        structure: {
+          title: "Deck",
+          slides: [
+            { title: "Fits", bullets: ["A", "B"] },
+            { title: "Crowded", bullets: Array.from({ length: 12 }, () => longBullet) },
+          ],
+        },
+        accessToken: "token",
+        userEmail: "test@example.com",
+      });
+
+      const requests = sentRequests();
+      expect(fontSizeOf(requests, "body_0")).toBe(18);
+      const fontSize = fontSizeOf(requests, "body_1");
+      expect(fontSize).toBeLessThan(18);
+      expect(fontSize).toBeGreaterThanOrEqual(14);
+      expect(result.layoutAdjustments).toEqual([
+        { slideIndex: 1, slideTitle: "Crowded", kind: "shrunk", element: "body", fontSize },
+      ]);
+    });
+
+    it("should continue lists that do not fit at the smallest size on another slide", async () => {
+      const bullets = Array.from({ length: 30 }, (_, i) => `${i} ${longBullet}`);
+      const result = await createPresentation({
+        structure: {
+          title: "Deck",
+          slides: [
+            {
+              title: "Results",
+              bullets,
+              citations: bullets.map((_, i) => ({ quote: `q${i}`, url: `https://docs.google.com/document/d/doc/edit#heading=h.${i}` })),
+              speakerNotes: "Walk through the results",
+            },
+            { title: "Next", bullets: ["A"] },
+          ],
+        },
+        accessToken: "token",
+        userEmail: "test@example.com",
+        citationStyle: "links",
+      });
+
+      const requests = sentRequests();
+      const texts = (prefix: string) => requests
+        .filter((r) => r.insertText?.objectId?.startsWith(prefix))
+        .map((r) => r.insertText?.text || "");
+      const [continued] = result.layoutAdjustments.filter(({ kind }) => kind === "continued");
+      const slideCount = continued.slideCount!;
+
+      expect(slideCount).toBeGreaterThan(1);
+      expect(texts("title_")).toEqual([
+        "Results",
+        ...Array.from({ length: slideCount - 1 }, () => "Results (cont.)"),
+        "Next",
+      ]);
+      expect(texts("body_").slice(0, slideCount).join("\n")).toBe(bullets.join("\n"));
+      expect(fontSizeOf(requests, "body_0")).toBeLessThan(18);
+      // Each part links its own bullets
+      const firstOnSecondSlide = texts("body_0_1")[0].split("\n")[0];
+      expect(requests).toContainEqual({
+        updateTextStyle: expect.objectContaining({
+          objectId: "body_0_1",
+          style: { link: { url: `https://docs.google.com/document/d/doc/edit#heading=h.${firstOnSecondSlide.split(" ")[0]}` } },
+          textRange: { type: "FIXED_RANGE", startIndex: 0, endIndex: firstOnSecondSlide.length },
+        }),
+      });
+      // The notes stay with the first part
+      expect(batchUpdate.mock.calls[1][0].requestBody.requests).toEqual([
+        { insertText: { objectId: "notes_0", text: "Walk through the results", insertionIndex: 0 } },
+      ]);
+    });
+
+    it("should keep counting the items of an agenda continued on another slide", async () => {
+      const items = Array.from({ length: 30 }, (_, i) => `Topic ${i + 1} ${longBullet}`);
+      const result = await createPresentation({
+        structure: { title: "Deck", slides: [{ type: "agenda", title: "Agenda", items }] },
+        accessToken: "token",
+        userEmail: "test@example.com",
+      });
+
+      const requests = sentRequests();
+      const [continued] = result.layoutAdjustments.filter(({ kind }) => kind === "continued");
+      const bodies = requests
+        .filter((r) => r.insertText?.objectId?.startsWith("body_"))
+        .map((r) => r.insertText?.text || "");
+
+      expect(continued.slideCount).toBeGreaterThan(1);
+      expect(bodies).toHaveLength(continued.slideCount!);
+      // Numbered in the text, since a bullet preset would restart at 1 on each slide
+      expect(bodies.join("\n")).toBe(items.map((item, i) => `${i + 1}. ${item}`).join("\n"));
+      expect(requests.some((r) => r.createParagraphBullets)).toBe(false);
+    });
+
+    it("should report text that cannot be fitted", async () => {
+      const title = "A very long slide title that keeps going well past what fits on one line of the slide";
+      const result = await createPresentation({
+        structure: { title: "Deck", slides: [{ type: "quote", title, quote: longBullet.repeat(6) }] },
+        accessToken: "token",
+        userEmail: "test@example.com",
+        template: "corporate",
+      });
+
+      expect(result.layoutAdjustments).toEqual([
+        { slideIndex: 0, slideTitle: title, kind: "overflow", element: "title", fontSize: 21 },
+        { slideIndex: 0, slideTitle: title, kind: "overflow", element: "body", fontSize: 21 },
+      ]);
+    });
+  });
+
+  it("should place images beside the bullets and skip images that cannot be inserted", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    batchUpdate
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error("Invalid requests[0].createImage: The provided image was not found."))
+      .mockResolvedValueOnce({});
+
+    await createPresentation({
+      structure: {
+        title: "Deck",
+        slides: [
+          { type: "image", title: "Old", imageId: "kix.old", imageUrl: "https://lh3.googleusercontent.com/old", bullets: ["A"] },
+          { type: "image", title: "Arch", imageId: "kix.arch", imageUrl: "https://lh3.googleusercontent.com/arch", bullets: ["B"] },
+          { type: "image", title: "Unresolved", imageId: "kix.none", bullets: ["C"] },
+        ],
+      },
+      accessToken: "token",
+      userEmail: "test@example.com",
+    });
+
+    const layout = sentRequests();
+    expect(layout.some((r) => r.createImage)).toBe(false);
+    const body = (objectId: string) => layout.find((r) => r.createShape?.objectId === objectId)?.createShape;
+    expect(body("body_1")?.elementProperties?.transform?.translateX).toBeGreaterThan(300);
+    // Without an image URL the bullets take the full width
+    expect(body("body_2")?.elementProperties?.transform?.translateX).toBe(36);
+
+    expect(batchUpdate).toHaveBeenCalledTimes(3);
+    expect(batchUpdate.mock.calls[2][0].requestBody.requests).toEqual([{
+      createImage: expect.objectContaining({
+        objectId: "image_1",
+        url: "https://lh3.googleusercontent.com/arch",
+        elementProperties: expect.objectContaining({ pageObjectId: "slide_1" }),
+      }),
+    }]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Skipped image image_0"));
+  });
+
+  it("should style section slides like the title slide", async () => {
+    await createPresentation({
+      structure: { title: "Deck", slides: [{ type: "section", title: "Part Two", subtitle: "Execution" }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      template: "corporate",
+    });
+
+    const requests = sentRequests();
+    expect(requests.some((r) => r.createShape?.objectId === "header_0")).toBe(false);
+    expect(requests).toContainEqual({
+      insertText: { objectId: "subtitle_0", text: "Execution", insertionIndex: 0 },
+    });
+  });
+
+  it("should update only the changed slides of an existing deck", async () => {
+    const text = (content: string, style?: object) => ({ text: { textElements: [{ textRun: { content: `${content}\n`, style } }] } });
+    // Colors as Slides returns them, which need not be the fractions that were sent
+    const styled = (content: string, rgbColor: object, magnitude: number) =>
+      text(content, { foregroundColor: { opaqueColor: { rgbColor } }, fontSize: { magnitude, unit: "PT" } });
+    get.mockResolvedValueOnce({
+      data: {
+        slides: [
+          {
+            objectId: "title-slide",
+            pageProperties: { pageBackgroundFill: { solidFill: { color: { rgbColor: { red: 0.101960786, green: 0.4509804, blue: 0.9098039 } } } } },
+            pageElements: [{
+              objectId: "title-shape",
+              shape: { placeholder: { type: "CENTERED_TITLE" }, ...styled("Deck", { red: 1, green: 1, blue: 1 }, 44) },
+            }],
+          },
+          {
+            objectId: "slide_0",
+            pageProperties: { pageBackgroundFill: { solidFill: { color: { rgbColor: { red: 1, green: 1, blue: 1 } } } } },
+            pageElements: [
+              { objectId: "title_0", shape: styled("One", { red: 0.101960786, green: 0.3019608, blue: 0.6 }, 28) },
+              { objectId: "body_0", shape: styled("A", { red: 0.2, green: 0.2, blue: 0.2 }, 18) },
+            ],
+          },
+          { objectId: "slide_1", pageElements: [{ objectId: "title_1", shape: text("Two") }, { objectId: "body_1", shape: text("B") }] },
+        ],
+      },
+    });
+
+    const result = await createPresentation({
+      structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"] }, { title: "Two", bullets: ["B", "C"] }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      updatePresentationId: "pres-1",
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    expect(get).toHaveBeenCalledWith(expect.objectContaining({ presentationId: "pres-1" }));
+    expect(result.deckChanges).toEqual({ unchanged: ["slide_0"], updated: ["slide_1"], added: [], removed: [] });
+    const requests = sentRequests();
+    expect(requests.slice(0, 2)).toEqual([
+      { deleteObject: { objectId: "slide_1" } },
+      { createSlide: { objectId: "slide_1", insertionIndex: 2, slideLayoutReference: { predefinedLayout: "BLANK" } } },
+    ]);
+    expect(requests).toContainEqual({ insertText: { objectId: "body_1", text: "B\nC", insertionIndex: 0 } });
+  });
+
+  it("should update a deck made from a master deck with its own layouts", async () => {
+    const text = (content: string) => ({ text: { textElements: [{ textRun: { content: `${content}\n` } }] } });
+    get.mockResolvedValueOnce({
+      data: {
+        slides: [
+          {
+            objectId: "title_slide",
+            pageElements: [{ objectId: "title_slide_title", shape: { placeholder: { type: "CENTERED_TITLE" }, ...text("Deck") } }],
+            slideProperties: { layoutObjectId: "layout-title" },
+          },
+          {
+            objectId: "slide_0",
+            pageElements: [{ objectId: "title_0", shape: text("One") }, { objectId: "body_0", shape: text("A") }],
+            slideProperties: { layoutObjectId: "layout-body" },
+          },
+        ],
+        layouts: [
+          {
+            objectId: "layout-title",
+            layoutProperties: { name: "TITLE" },
+            pageElements: [{ objectId: "layout-title-title", shape: { placeholder: { type: "CENTERED_TITLE" } } }],
+          },
+          {
+            objectId: "layout-body",
+            layoutProperties: { name: "TITLE_AND_BODY" },
+            pageElements: [
+              { objectId: "layout-body-title", shape: { placeholder: { type: "TITLE" } } },
+              { objectId: "layout-body-body", shape: { placeholder: { type: "BODY" } } },
+            ],
+          },
+        ],
+      },
+    });
+
+    const result = await createPresentation({
+      structure: { title: "New Deck", slides: [{ title: "One", bullets: ["A", "B"] }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      updatePresentationId: "pres-1",
+    });
+
+    expect(result.deckChanges).toEqual({ unchanged: [], updated: ["slide_0"], added: [], removed: [] });
+    const requests = sentRequests();
+    // The title slide keeps the master's background, and the new slide its layout
+    expect(requests.some((r) => r.updatePageProperties || r.createShape)).toBe(false);
+    expect(requests).toEqual([
+      { deleteText: { objectId: "title_slide_title", textRange: { type: "ALL" } } },
+      { insertText: { objectId: "title_slide_title", text: "New Deck", insertionIndex: 0 } },
+      { deleteObject: { objectId: "slide_0" } },
+      {
+        createSlide: {
+          objectId: "slide_0",
+          insertionIndex: 1,
+          slideLayoutReference: { layoutId: "layout-body" },
+          placeholderIdMappings: [
+            { layoutPlaceholderObjectId: "layout-body-title", objectId: "title_0" },
+            { layoutPlaceholderObjectId: "layout-body-body", objectId: "body_0" },
+          ],
+        },
+      },
+      { insertText: { objectId: "title_0", text: "One", insertionIndex: 0 } },
+      { insertText: { objectId: "body_0", text: "A\nB", insertionIndex: 0 } },
+    ]);
+  });
+
+  it("should report a deck to update that cannot be read", async () => {
+    get.mockRejectedValueOnce(Object.assign(new Error("Requested entity was not found."), { response: { status: 404 } }));
+
+    await expect(createPresentation({
+      structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"] }] },
+      accessToken: "token",
+      userEmail: "test@example.com",
+      updatePresentationId: "missing",
+    })).rejects.toMatchObject({ code: "PRESENTATION_NOT_FOUND", httpStatus: 400 });
+  });
+
+  describe("master decks", () => {
+    const master = {
+      slides: [{ objectId: "master-slide" }],
+      layouts: [
+        {
+          objectId: "layout-title",
+          layoutProperties: { name: "TITLE", displayName: "Title slide" },
+          pageElements: [{ objectId: "layout-title-title", shape: { placeholder: { type: "CENTERED_TITLE", index: 0 } } }],
+        },
+        {
+          objectId: "layout-body",
+          layoutProperties: { name: "TITLE_AND_BODY", displayName: "Title and body" },
+          pageElements: [
+            { objectId: "layout-body-title", shape: { placeholder: { type: "TITLE", index: 0 } } },
+            { objectId: "layout-body-body", shape: { placeholder: { type: "BODY", index: 0 } } },
+          ],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      copy.mockReset().mockResolvedValue({ data: { id: "copy-1", mimeType: "application/vnd.google-apps.presentation" } });
+      deleteFile.mockReset().mockResolvedValue({});
+      get.mockResolvedValueOnce({ data: master });
+    });
+
+    it("should copy the master and fill its layouts' placeholders", async () => {
+      const result = await createPresentation({
+        structure: { title: "Deck", slides: [{ title: "One", bullets: ["A", "B"] }] },
+        accessToken: "token",
+        userEmail: "test@example.com",
+        masterPresentationId: "master-1",
+      });
+
+      expect(create).not.toHaveBeenCalled();
+      expect(copy).toHaveBeenCalledWith(expect.objectContaining({ fileId: "master-1", requestBody: { name: "Deck" } }));
+      expect(result.slidesId).toBe("copy-1");
+      const requests = sentRequests();
+      expect(requests.some((r) => r.createShape)).toBe(false);
+      expect(requests).toContainEqual({
+        createSlide: {
+          objectId: "slide_0",
+          slideLayoutReference: { layoutId: "layout-body" },
+          placeholderIdMappings: [
+            { layoutPlaceholderObjectId: "layout-body-title", objectId: "title_0" },
+            { layoutPlaceholderObjectId: "layout-body-body", objectId: "body_0" },
+          ],
+        },
+      });
+      expect(requests).toContainEqual({ insertText: { objectId: "body_0", text: "A\nB", insertionIndex: 0 } });
+      expect(requests[0]).toEqual({ deleteObject: { objectId: "master-slide" } });
+    });
+
+    it("should report a master deck that cannot be read", async () => {
+      copy.mockRejectedValue(Object.assign(new Error("File not found"), { response: { status: 404 } }));
+
+      await expect(createPresentation({
+        structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"] }] },
+        accessToken: "token",
+        userEmail: "test@example.com",
+        masterPresentationId: "missing",
+      })).rejects.toMatchObject({ code: "MASTER_NOT_FOUND", httpStatus: 400 });
+    });
+
+    it("should delete the copy when a layout is missing", async () => {
+      await expect(createPresentation({
+        structure: { title: "Deck", slides: [{ title: "One", bullets: ["A"] }] },
+        accessToken: "token",
+        userEmail: "test@example.com",
+        masterPresentationId: "master-1",
+        masterLayouts: { bullets: "Big number" },
+      })).rejects.toMatchObject({ code: "LAYOUT_NOT_FOUND" });
+
+      expect(deleteFile).toHaveBeenCalledWith({ fileId: "copy-1", supportsAllDrives: true });
+      expect(batchUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
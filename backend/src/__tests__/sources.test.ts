@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { combineSources, importSources } from "../services/sources.js";
+import { DocsError, fetchGoogleDocsContent } from "../services/docs.js";
+
+vi.mock("../services/docs.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/docs.js")>()),
+  fetchGoogleDocsContent: vi.fn(),
+}));
+
+describe("combineSources", () => {
+  it("should put each source under its own heading with its headings one level down", () => {
+    const combined = combineSources([
+      {
+        title: "OKRs",
+        origin: "google-docs",
+        content: "",
+        document: {
+          title: "OKRs",
+          sections: [
+            { heading: "", level: 0, blocks: [{ type: "paragraph", spans: [{ text: "Intro" }] }] },
+            { heading: "Goals", level: 1, blocks: [{ type: "paragraph", spans: [{ text: "Grow 20%" }] }] },
+          ],
+        },
+      },
+      { title: "Incidents", origin: "pasted", content: "Two outages.\n\nBoth fixed." },
+    ], "Q3 Review");
+
+    expect(combined.title).toBe("Q3 Review");
+    expect(combined.content).toBe(
+      "# Source 1: OKRs\n\nIntro\n\n## Goals\n\nGrow 20%\n\n# Source 2: Incidents\n\nTwo outages.\n\nBoth fixed."
+    );
+    expect(combined.sources).toEqual([
+      { title: "OKRs", origin: "google-docs" },
+      { title: "Incidents", origin: "pasted" },
+    ]);
+  });
+});
+
+describe("importSources", () => {
+  it("should fetch every Google Doc with its section and keep request order", async () => {
+    vi.mocked(fetchGoogleDocsContent)
+      .mockResolvedValueOnce({ title: "Roadmap", content: "Ship v2" })
+      .mockResolvedValueOnce({ title: "Incidents", content: "Two outages" });
+
+    const combined = await importSources([
+      { googleDocsUrl: "https://docs.google.com/document/d/a/edit" },
+      { documentContent: "Revenue up 10%", documentTitle: "Finance notes" },
+      { googleDocsUrl: "https://docs.google.com/document/d/b/edit", sectionHeading: "Q3", documentTitle: "Ops" },
+    ], "Quarterly Review", "token");
+
+    expect(fetchGoogleDocsContent).toHaveBeenCalledWith("https://docs.google.com/document/d/b/edit", "token", {
+      sectionHeading: "Q3",
+    });
+    expect(combined.sources).toEqual([
+      { title: "Roadmap", origin: "google-docs" },
+      { title: "Finance notes", origin: "pasted" },
+      { title: "Ops", origin: "google-docs" },
+    ]);
+    expect(combined.content).toContain("# Source 2: Finance notes\n\nRevenue up 10%");
+  });
+
+  it("should name the failing source in import errors", async () => {
+    vi.mocked(fetchGoogleDocsContent).mockRejectedValueOnce(new DocsError("ACCESS_DENIED", "No permission", 403));
+
+    await expect(importSources([
+      { documentContent: "Notes" },
+      { googleDocsUrl: "https://docs.google.com/document/d/a/edit" },
+    ], "Review", "token")).rejects.toMatchObject({ code: "ACCESS_DENIED", message: "sources[1]: No permission" });
+  });
+});
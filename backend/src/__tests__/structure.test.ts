@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkSlideRequirements,
+  normalizeSlide,
+  splitTableSlides,
+  validatePresentationStructure,
+  validateSlide,
+} from "../services/structure.js";
+
+describe("normalizeSlide", () => {
+  it("should trim text and drop blank bullets", () => {
+    expect(normalizeSlide({ title: " Title ", bullets: [" One ", "", "  "], extra: true })).toEqual({
+      title: "Title",
+      bullets: ["One"],
+    });
+  });
+
+  it("should keep only the fields of the slide's type", () => {
+    expect(normalizeSlide({
+      type: "quote",
+      title: "Voice of the customer",
+      quote: " We doubled our throughput. ",
+      attribution: " ",
+      bullets: ["ignored"],
+    })).toEqual({
+      type: "quote",
+      title: "Voice of the customer",
+      quote: "We doubled our throughput.",
+    });
+  });
+
+  it("should keep citations aligned with the bullets they belong to", () => {
+    expect(normalizeSlide({
+      title: "Growth",
+      bullets: ["Revenue up", " ", "Churn down"],
+      citations: [" revenue grew ", "dropped", 3],
+    })).toEqual({
+      title: "Growth",
+      bullets: ["Revenue up", "Churn down"],
+      citations: [{ quote: "revenue grew" }, null],
+    });
+  });
+
+  it("should stringify numeric KPI values", () => {
+    expect(normalizeSlide({ type: "kpi", title: "Results", metrics: [{ value: 25, label: "Growth" }] })).toEqual({
+      type: "kpi",
+      title: "Results",
+      metrics: [{ value: "25", label: "Growth" }],
+    });
+  });
+});
+
+describe("validateSlide", () => {
+  it("should accept each slide type", () => {
+    const slides = [
+      { title: "Bullets", bullets: ["A"] },
+      { type: "agenda", title: "Agenda", items: ["Intro", "Plan"] },
+      { type: "section", title: "Part Two" },
+      {
+        type: "comparison",
+        title: "Build vs Buy",
+        left: { heading: "Build", bullets: ["Control"] },
+        right: { heading: "Buy", bullets: ["Speed"] },
+      },
+      { type: "kpi", title: "Results", metrics: [{ value: "25%", label: "Growth" }] },
+      { type: "quote", title: "Customer", quote: "Great product" },
+      { type: "timeline", title: "Roadmap", events: [{ date: "Q1", label: "Beta" }] },
+      { type: "table", title: "Costs", columns: ["Item", "Cost"], rows: [["Servers", "$10k"]] },
+    ];
+
+    slides.forEach((slide, index) => {
+      expect(validateSlide(slide, index)).toEqual([]);
+    });
+  });
+
+  it("should reject unknown types", () => {
+    expect(validateSlide({ type: "chart", title: "Chart" }, 2)[0]).toContain("slides[2].type must be one of");
+  });
+
+  it("should reject more KPI metrics than fit on a slide", () => {
+    const metrics = Array.from({ length: 5 }, (_, i) => ({ value: `${i}`, label: `Metric ${i}` }));
+    expect(validateSlide({ type: "kpi", title: "Too many", metrics }, 0)).toEqual([
+      "slides[0].metrics must have 1-4 entries with a value and label",
+    ]);
+  });
+
+  it("should reject table rows that do not match the columns", () => {
+    expect(validateSlide({ type: "table", title: "T", columns: ["A", "B"], rows: [["only one"]] }, 0)).toEqual([
+      "slides[0].rows must be arrays of 2 strings",
+    ]);
+  });
+
+  it("should reject tables wider or longer than the limits", () => {
+    const columns = Array.from({ length: 7 }, (_, i) => `C${i}`);
+    expect(validateSlide({ type: "table", title: "Wide", columns, rows: [] }, 0)).toEqual([
+      "slides[0].columns must have 1-6 strings",
+    ]);
+    const rows = Array.from({ length: 31 }, (_, i) => [`Row ${i}`]);
+    expect(validateSlide({ type: "table", title: "Long", columns: ["A"], rows }, 0)).toEqual([
+      "slides[0].rows must have at most 30 entries",
+    ]);
+  });
+
+  it("should require an image ID and only accept https image URLs", () => {
+    expect(validateSlide({ type: "image", title: "Arch", imageId: "kix.a", bullets: ["A"] }, 0)).toEqual([]);
+    expect(validateSlide({ type: "image", title: "Arch", imageUrl: "http://example.com/a.png", bullets: [] }, 0)).toEqual([
+      "slides[0].imageId is required",
+      "slides[0].imageUrl must be an https URL",
+    ]);
+  });
+
+  it("should require one citation per bullet and only accept https links", () => {
+    expect(validateSlide({ title: "T", bullets: ["A", "B"], citations: [{ quote: "a" }, null] }, 0)).toEqual([]);
+    expect(validateSlide({ title: "T", bullets: ["A", "B"], citations: [{ quote: "a" }] }, 0)).toEqual([
+      "slides[0].citations must have one entry per bullet, each null or {quote, heading?, url?}",
+    ]);
+    expect(validateSlide({ title: "T", bullets: ["A"], citations: [{ quote: "a", url: "javascript:alert(1)" }] }, 0)).toEqual([
+      "slides[0].citations must have one entry per bullet, each null or {quote, heading?, url?}",
+    ]);
+  });
+
+  it("should require both comparison columns", () => {
+    expect(validateSlide({ type: "comparison", title: "C", left: { heading: "A", bullets: [] } }, 1)).toEqual([
+      "slides[1].right must have a heading and an array of bullets",
+    ]);
+  });
+});
+
+describe("validatePresentationStructure", () => {
+  it("should require a title and slides", () => {
+    expect(validatePresentationStructure({ slides: [] })).toEqual([
+      "structure.title is required",
+      "structure.slides must be a non-empty array",
+    ]);
+  });
+});
+
+describe("checkSlideRequirements", () => {
+  it("should pass slides that follow the prompt limits", () => {
+    const slides = [
+      { title: "Summary", bullets: ["A", "B", "C"] },
+      { type: "quote" as const, title: "Customer", quote: "A quote can run long without breaking any limit at all" },
+    ];
+    expect(checkSlideRequirements(slides, 2)).toEqual([]);
+  });
+
+  it("should report slide count, title length and bullet limits", () => {
+    const slides = [
+      { title: "One two three four five six seven eight nine", bullets: ["A", "B"] },
+    ];
+    expect(checkSlideRequirements(slides, 2)).toEqual([
+      "expected exactly 2 slides but got 1",
+      "slides[0].title has 9 words (max 8)",
+      "slides[0].bullets has 2 entries (expected 3-5)",
+    ]);
+  });
+});
+
+describe("splitTableSlides", () => {
+  it("should continue long tables on extra slides with the header repeated", () => {
+    const rows = Array.from({ length: 14 }, (_, i) => [`Item ${i}`, `${i}`]);
+    const slides = splitTableSlides([
+      { title: "Intro", bullets: ["A"] },
+      { type: "table", title: "Costs", columns: ["Item", "Cost"], rows, speakerNotes: "Walk through costs" },
+    ]);
+
+    expect(slides).toHaveLength(4);
+    expect(slides[1]).toEqual({
+      type: "table", title: "Costs", columns: ["Item", "Cost"], rows: rows.slice(0, 6), speakerNotes: "Walk through costs",
+    });
+    expect(slides[2]).toEqual({ type: "table", title: "Costs (cont.)", columns: ["Item", "Cost"], rows: rows.slice(6, 12) });
+    expect(slides[3]).toEqual({ type: "table", title: "Costs (cont.)", columns: ["Item", "Cost"], rows: rows.slice(12) });
+  });
+
+  it("should leave tables that fit unchanged", () => {
+    const slide = { type: "table" as const, title: "Costs", columns: ["Item"], rows: [["Servers"]] };
+    expect(splitTableSlides([slide])).toEqual([slide]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { fitFontSize, measureTextHeight, measureTextWidth } from "../services/textFit.js";
+
+describe("measureTextWidth", () => {
+  it("should scale with font size and weight, and with wide characters", () => {
+    expect(measureTextWidth("Revenue", 20)).toBeCloseTo(measureTextWidth("Revenue", 10) * 2);
+    expect(measureTextWidth("Revenue", 18, true)).toBeGreaterThan(measureTextWidth("Revenue", 18));
+    expect(measureTextWidth("MMMM", 18)).toBeGreaterThan(measureTextWidth("iiii", 18));
+  });
+});
+
+describe("measureTextHeight", () => {
+  const sentence = "Revenue grew in every region this quarter with strong demand from enterprise customers";
+
+  it("should wrap paragraphs at the box width", () => {
+    const oneLine = measureTextHeight(["Short"], 600, 18);
+
+    expect(measureTextHeight([sentence], 600, 18)).toBeGreaterThan(oneLine);
+    expect(measureTextHeight([sentence], 200, 18)).toBeGreaterThan(measureTextHeight([sentence], 600, 18));
+    expect(measureTextHeight(["Short", "Short"], 600, 18)).toBeGreaterThan(oneLine);
+  });
+
+  it("should leave room for bullets and break words longer than a line", () => {
+    const words = "Quarterly results";
+    const width = measureTextWidth(words, 18) + 15;
+
+    expect(measureTextHeight([words], width, 18, { bullets: true })).toBeGreaterThan(measureTextHeight([words], width, 18));
+    expect(measureTextHeight(["x".repeat(200)], 200, 18)).toBeGreaterThan(measureTextHeight(["x"], 200, 18) * 3);
+  });
+});
+
+describe("fitFontSize", () => {
+  const bullets = Array.from({ length: 12 }, () =>
+    "Revenue grew in every region this quarter with strong demand from enterprise customers and partners");
+
+  it("should keep the largest size that fits", () => {
+    expect(fitFontSize(["Short"], { width: 600, height: 400 }, { min: 14, max: 18 })).toBe(18);
+
+    const fontSize = fitFontSize(bullets, { width: 648, height: 429 }, { min: 12, max: 18 }, { bullets: true });
+    expect(fontSize).toBeLessThan(18);
+    expect(fontSize).toBeGreaterThanOrEqual(12);
+  });
+
+  it("should return null when the text does not fit at the smallest size", () => {
+    expect(fitFontSize([...bullets, ...bullets], { width: 648, height: 429 }, { min: 14, max: 18 }, { bullets: true })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findTheme, getTemplateConfig, listThemes, setThemes, toTemplateConfig, validateTheme } from "../services/themes.js";
+import { ThemeDefinition } from "../types/index.js";
+
+const theme: ThemeDefinition = {
+  id: "acme",
+  name: "Acme",
+  colors: { title: "#1A73E8", body: "#333333", background: "#ffffff" },
+};
+
+describe("themes", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setThemes(null);
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  function themesDir(files: Record<string, unknown>): void {
+    dir = mkdtempSync(join(tmpdir(), "themes-"));
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(join(dir, name), typeof content === "string" ? content : JSON.stringify(content));
+    }
+    vi.stubEnv("THEMES_DIR", dir);
+    setThemes(null);
+  }
+
+  it("should load the built-in themes with the default first", () => {
+    expect(listThemes().map(({ id }) => id)).toEqual(["modern", "corporate", "creative", "executive", "minimal"]);
+    expect(getTemplateConfig().name).toBe("Modern");
+    expect(getTemplateConfig("executive").headerColor).toEqual({ red: 0.102, green: 0.2, blue: 0.4 });
+  });
+
+  it("should load themes from THEMES_DIR", () => {
+    themesDir({ "acme.json": theme, "notes.txt": "not a theme" });
+
+    expect(listThemes()).toEqual([theme]);
+    expect(findTheme("modern")).toBeUndefined();
+    // Without "modern", the first theme is the default
+    expect(getTemplateConfig().name).toBe("Acme");
+  });
+
+  it("should refuse to load an invalid theme file", () => {
+    themesDir({ "acme.json": { ...theme, colors: { ...theme.colors, body: "grey" } } });
+
+    expect(() => listThemes()).toThrow(/Invalid theme file .*acme\.json: colors\.body must be a "#rrggbb" color/);
+  });
+
+  it("should refuse to load two themes with the same id", () => {
+    themesDir({ "a.json": theme, "b.json": theme });
+
+    expect(() => listThemes()).toThrow('Theme "acme" is defined more than once');
+  });
+
+  it("should report unknown settings and out-of-range sizes", () => {
+    expect(validateTheme({
+      ...theme,
+      id: "Acme Corp",
+      colours: {},
+      fontSizes: { title: 100 },
+      layout: { margin: 24, padding: 10 },
+      footer: { text: "" },
+    })).toEqual([
+      "colours is not a theme setting",
+      "id must be up to 40 lowercase letters, digits and hyphens",
+      "fontSizes.title must be a number from 12 to 60",
+      "layout.padding is not a theme setting",
+      "footer.text must be text of up to 200 characters",
+    ]);
+    expect(validateTheme("modern")).toEqual(["theme must be an object"]);
+  });
+
+  it("should convert a theme into the settings slides are built with", () => {
+    const config = toTemplateConfig({
+      ...theme,
+      fonts: { title: "Georgia" },
+      fontSizes: { body: 20 },
+      layout: { headerHeight: 72 },
+      footer: { text: "Acme Corp" },
+    });
+
+    expect(config).toMatchObject({
+      name: "Acme",
+      titleColor: { red: 0.102, green: 0.451, blue: 0.91 },
+      bodyColor: { red: 0.2, green: 0.2, blue: 0.2 },
+      titleFont: "Georgia",
+      bodyFontSize: 20,
+      headerHeight: 72,
+      footerText: "Acme Corp",
+    });
+    expect(config.headerColor).toBeUndefined();
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import mammoth from "mammoth";
+import { parseDocumentFile, UploadError } from "../services/upload/index.js";
+import { htmlToDocument } from "../services/upload/html.js";
+
+vi.mock("mammoth", () => ({
+  default: { convertToHtml: vi.fn() },
+}));
+
+function file(name: string, content: string | Buffer) {
+  return { name, data: Buffer.from(content).toString("base64") };
+}
+
+// A minimal PDF with one text line per [font size, y, text] entry on each page
+function buildPdf(pages: Array<Array<[number, number, string]>>): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  add("");
+  add("");
+  const font = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  const kids = pages.map((lines) => {
+    const ops = lines.map(([size, y, text]) => `BT /F1 ${size} Tf 72 ${y} Td (${text}) Tj ET`).join("\n");
+    const stream = add(`<< /Length ${ops.length} >>\nstream\n${ops}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 ${font} 0 R >> >> /Contents ${stream} 0 R >>`
+    );
+  });
+  objects[0] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[1] = `<< /Type /Pages /Kids [${kids.map((kid) => `${kid} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, "latin1");
+}
+
+describe("htmlToDocument", () => {
+  it("should start a section at each heading and keep inline styles", () => {
+    const document = htmlToDocument(
+      "<h1>Plan</h1><p>We <strong>grow</strong> in <a href=\"https://example.com\">EMEA</a>.</p><h2>Risks</h2><p><em>Churn</em></p>",
+      "fallback"
+    );
+
+    expect(document).toEqual({
+      title: "Plan",
+      sections: [
+        {
+          heading: "Plan",
+          level: 1,
+          blocks: [{
+            type: "paragraph",
+            spans: [
+              { text: "We " },
+              { text: "grow", bold: true },
+              { text: " in " },
+              { text: "EMEA", link: "https://example.com" },
+              { text: "." },
+            ],
+          }],
+        },
+        { heading: "Risks", level: 2, blocks: [{ type: "paragraph", spans: [{ text: "Churn", italic: true }] }] },
+      ],
+    });
+  });
+
+  it("should read nested lists and tables", () => {
+    const document = htmlToDocument(
+      `<ol><li>Grow<ul><li>EMEA</li></ul></li><li><p>Retain</p></li></ol>
+       <table><thead><tr><th>Region</th><th>Revenue</th></tr></thead><tbody><tr><td>EMEA</td><td><b>$4M</b></td></tr></tbody></table>`,
+      "fallback"
+    );
+
+    expect(document.sections[0].blocks).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        items: [
+          { spans: [{ text: "Grow" }], depth: 0 },
+          { spans: [{ text: "EMEA" }], depth: 1 },
+          { spans: [{ text: "Retain" }], depth: 0 },
+        ],
+      },
+      {
+        type: "table",
+        rows: [
+          [[{ text: "Region" }], [{ text: "Revenue" }]],
+          [[{ text: "EMEA" }], [{ text: "$4M", bold: true }]],
+        ],
+      },
+    ]);
+  });
+
+  it("should skip scripts and images and read through containers", () => {
+    const document = htmlToDocument(
+      "<html><head><title>Report</title><style>p{}</style></head><body><div>Loose <i>text</i><img src=\"a.png\"><p>Para</p></div><script>x()</script></body></html>",
+      "fallback"
+    );
+
+    expect(document.title).toBe("Report");
+    expect(document.sections[0].blocks).toEqual([
+      { type: "paragraph", spans: [{ text: "Loose " }, { text: "text", italic: true }] },
+      { type: "paragraph", spans: [{ text: "Para" }] },
+    ]);
+  });
+
+  it("should fall back to the given title", () => {
+    expect(htmlToDocument("<p>Text</p>", "notes").title).toBe("notes");
+  });
+});
+
+describe("parseDocumentFile", () => {
+  afterEach(() => {
+    delete process.env.UPLOAD_MAX_MB;
+    delete process.env.UPLOAD_MAX_PDF_PAGES;
+  });
+
+  it("should parse Markdown into the structured document and prompt content", async () => {
+    const result = await parseDocumentFile(file("plan.md", "# Plan\n\n- Grow\n- Retain\n\n| A | B |\n| - | - |\n| 1 | 2 |\n"));
+
+    expect(result.title).toBe("Plan");
+    expect(result.document?.sections[0].blocks.map((block) => block.type)).toEqual(["list", "table"]);
+    expect(result.content).toBe("# Plan\n\n- Grow\n- Retain\n\n| A | B |\n| --- | --- |\n| 1 | 2 |");
+  });
+
+  it("should title HTML without headings after the file name", async () => {
+    const result = await parseDocumentFile(file("q3-notes.html", "<p>Revenue grew</p>"));
+
+    expect(result.title).toBe("q3-notes");
+    expect(result.content).toBe("Revenue grew");
+  });
+
+  it("should convert .docx files through mammoth", async () => {
+    vi.mocked(mammoth.convertToHtml).mockResolvedValueOnce({ value: "<h1>Budget</h1><p>Flat</p>", messages: [] });
+
+    const result = await parseDocumentFile(file("budget.docx", "PK-docx-bytes"));
+
+    expect(mammoth.convertToHtml).toHaveBeenCalledWith({ buffer: Buffer.from("PK-docx-bytes") });
+    expect(result.content).toBe("# Budget\n\nFlat");
+  });
+
+  it("should report unreadable .docx files", async () => {
+    vi.mocked(mammoth.convertToHtml).mockRejectedValueOnce(new Error("Can't find end of central directory"));
+
+    await expect(parseDocumentFile(file("budget.docx", "not a zip"))).rejects.toMatchObject({ code: "INVALID_FILE" });
+  });
+
+  it("should read headings, paragraphs and lists from a PDF text layer", async () => {
+    const pdf = buildPdf([
+      [
+        [24, 700, "Results"],
+        [12, 670, "Revenue grew 25%"],
+        [12, 656, "across regions."],
+        [12, 620, "- Costs fell"],
+        [12, 606, "- Churn held"],
+      ],
+      [[18, 700, "Next steps"], [12, 670, "Hire two engineers."]],
+    ]);
+
+    const result = await parseDocumentFile(file("results.pdf", pdf));
+
+    expect(result.document).toEqual({
+      title: "Results",
+      sections: [
+        {
+          heading: "Results",
+          level: 1,
+          blocks: [
+            { type: "paragraph", spans: [{ text: "Revenue grew 25% across regions." }] },
+            {
+              type: "list",
+              ordered: false,
+              items: [{ spans: [{ text: "Costs fell" }], depth: 0 }, { spans: [{ text: "Churn held" }], depth: 0 }],
+            },
+          ],
+        },
+        { heading: "Next steps", level: 2, blocks: [{ type: "paragraph", spans: [{ text: "Hire two engineers." }] }] },
+      ],
+    });
+  });
+
+  it("should reject a PDF without a text layer", async () => {
+    await expect(parseDocumentFile(file("scan.pdf", buildPdf([[], []])))).rejects.toMatchObject({
+      code: "NO_TEXT_LAYER",
+      httpStatus: 422,
+    });
+  });
+
+  it("should reject a PDF over the page limit", async () => {
+    process.env.UPLOAD_MAX_PDF_PAGES = "1";
+
+    await expect(parseDocumentFile(file("long.pdf", buildPdf([[[12, 700, "One"]], [[12, 700, "Two"]]])))).rejects.toMatchObject({
+      code: "TOO_MANY_PAGES",
+      httpStatus: 413,
+    });
+  });
+
+  it("should reject files that are not PDFs", async () => {
+    await expect(parseDocumentFile(file("fake.pdf", "hello"))).rejects.toMatchObject({ code: "INVALID_FILE" });
+  });
+
+  it("should reject files over the size limit", async () => {
+    process.env.UPLOAD_MAX_MB = "0.001";
+
+    await expect(parseDocumentFile(file("big.md", "x".repeat(2000)))).rejects.toMatchObject({
+      code: "FILE_TOO_LARGE",
+      httpStatus: 413,
+    });
+  });
+
+  it("should reject unsupported file types and invalid base64", async () => {
+    await expect(parseDocumentFile(file("slides.pptx", "x"))).rejects.toBeInstanceOf(UploadError);
+    await expect(parseDocumentFile(file("slides.pptx", "x"))).rejects.toMatchObject({ code: "UNSUPPORTED_FILE_TYPE" });
+    await expect(parseDocumentFile({ name: "notes.md", data: "not base64!" })).rejects.toMatchObject({ code: "INVALID_FILE" });
+  });
+
+  it("should reject files without text", async () => {
+    await expect(parseDocumentFile(file("empty.html", "<p> </p>"))).rejects.toMatchObject({ code: "INVALID_FILE" });
+  });
+});
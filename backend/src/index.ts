@@ -1,9 +1,11 @@
 import express from "express";
 import cors from "cors";
 import helmet from "helmet";
-import rateLimit from "express-rate-limit";
 import dotenv from "dotenv";
 import { generateRouter } from "./routes/generate.js";
+import { getDefaultProviderName } from "./services/llm/index.js";
+import { listThemes } from "./services/themes.js";
+import { createRateLimiter } from "./utils/rateLimit.js";
 
 dotenv.config();
 
@@ -36,14 +38,8 @@ app.use(cors({
   credentials: true,
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: isProduction ? 100 : 1000, // Limit each IP to 100 requests per window in production
-  message: { error: "Too many requests, please try again later." },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+// Rate limiting: 100 requests per IP per 15 minutes in production
+const limiter = createRateLimiter(isProduction ? 100 : 1000);
 
 app.use(limiter);
 
@@ -75,6 +71,7 @@ app.get("/health", (_req, res) => {
     uptime: process.uptime(),
     environment: isProduction ? "production" : "development",
     geminiConfigured: !!process.env.GEMINI_API_KEY,
+    llmProvider: getDefaultProviderName(),
   });
 });
 
@@ -95,4 +92,7 @@ app.listen(PORT, () => {
   console.log(`Doc2Slides backend running on port ${PORT}`);
   console.log(`Environment: ${isProduction ? "production" : "development"}`);
   console.log(`Gemini API key configured: ${process.env.GEMINI_API_KEY ? "Yes" : "No"}`);
+  console.log(`Default LLM provider: ${getDefaultProviderName()}`);
+  // Loading the themes validates them, so a broken theme file stops the server here
+  console.log(`Themes: ${listThemes().map(({ id }) => id).join(", ")}`);
 });
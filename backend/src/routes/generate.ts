@@ -1,29 +1,85 @@
 import { Router, Request, Response } from "express";
-import { GenerateRequest, GenerateResponse, SLIDE_TEMPLATES, SlideTemplate } from "../types/index.js";
+import {
+  ApiKeyConfig,
+  CitationStyle,
+  CombinedSource,
+  DryRunRequest,
+  GenerateRequest,
+  GoogleDocsContent,
+  GenerateResponse,
+  JobRequest,
+  JobResult,
+  MasterLayoutRole,
+  Redaction,
+  RenderRequest,
+  StructuredDocument,
+  SpeakerNotesLength,
+} from "../types/index.js";
 import { summarizeDocument } from "../services/claude.js";
 import { createPresentation } from "../services/slides.js";
+import { buildPresentationRequests, DRY_RUN_TITLE_SLIDE } from "../services/slideRequests.js";
+import { DeckUpdateError } from "../services/deckUpdate.js";
+import { MasterDeckError } from "../services/masterDeck.js";
+import { findTheme, getTemplateConfig, listThemes, toTemplateConfig, validateTheme } from "../services/themes.js";
 import { fetchGoogleDocsContent, DocsError } from "../services/docs.js";
+import { SLIDE_TYPES, validatePresentationStructure } from "../services/structure.js";
+import { LlmError, listProviders } from "../services/llm/index.js";
+import { parseDocumentFile, UploadError } from "../services/upload/index.js";
+import { importSources, MAX_SOURCES } from "../services/sources.js";
+import { factCheckStructure, FactCheckError, unverifiedNumbersError } from "../services/factCheck.js";
+import { detectPromptInjection } from "../services/injection.js";
+import { getJob, StageReporter, startJob } from "../services/jobs.js";
+import { API_KEY_HEADER, requireApiKeyScope, validateApiKey, verifyGoogleAccess } from "../utils/auth.js";
+import { getApiKeyUsage, recordApiKeyTokens } from "../services/apiKeys.js";
 
 export const generateRouter = Router();
 
-// Get available templates
+const NOTES_LENGTHS: SpeakerNotesLength[] = ["none", "brief", "detailed"];
+const CITATION_STYLES: CitationStyle[] = ["none", "notes", "links"];
+const STREAM_HEARTBEAT_MS = 15_000;
+const PRESENTATION_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const MASTER_LAYOUT_ROLES: MasterLayoutRole[] = ["title", ...SLIDE_TYPES];
+
+// Previews only read the document; the other routes also create a presentation
+const verifyPreviewAccess = [requireApiKeyScope("preview"), verifyGoogleAccess()];
+const verifyGenerateAccess = [requireApiKeyScope("create-slides"), verifyGoogleAccess({ createsSlides: () => true })];
+
+// Count model tokens against the calling API key, if any
+function trackApiKeyUsage(res: Response): ((tokens: number) => void) | undefined {
+  const apiKey: ApiKeyConfig | undefined = res.locals.apiKey;
+  return apiKey && ((tokens) => recordApiKeyTokens(apiKey.id, tokens));
+}
+
+// Get available templates, with their full theme definitions
 generateRouter.get("/templates", (_req: Request, res: Response) => {
-  const templates = Object.entries(SLIDE_TEMPLATES).map(([id, config]) => ({
-    id,
-    name: config.name,
-    description: config.description,
-  }));
-  res.json({ templates });
+  res.json({ templates: listThemes() });
+});
+
+// Get LLM providers and whether they can be selected on this server
+generateRouter.get("/providers", (_req: Request, res: Response) => {
+  res.json({ providers: listProviders() });
 });
 
 // Preview endpoint - just returns AI-generated content without creating slides
-generateRouter.post("/preview", async (req: Request, res: Response) => {
+generateRouter.post("/preview", verifyPreviewAccess, async (req: Request, res: Response) => {
   try {
-    const { documentContent, googleDocsUrl, documentTitle, slideCount, customPrompt, accessToken } = req.body;
+    const {
+      documentContent,
+      googleDocsUrl,
+      sectionHeading,
+      documentFile,
+      sources,
+      documentTitle,
+      slideCount,
+      customPrompt,
+      notesLength,
+      provider,
+      accessToken,
+    } = req.body;
 
-    // Validate: need either documentContent or googleDocsUrl
-    if (!documentContent && !googleDocsUrl) {
-      res.status(400).json({ error: "Either documentContent or googleDocsUrl is required" });
+    // Validate: need documentContent, googleDocsUrl, documentFile or sources
+    if (!documentContent && !googleDocsUrl && !documentFile && !sources) {
+      res.status(400).json({ error: "Either documentContent, googleDocsUrl, documentFile or sources is required" });
       return;
     }
 
@@ -32,12 +88,25 @@ generateRouter.post("/preview", async (req: Request, res: Response) => {
       return;
     }
 
+    if (notesLength && !NOTES_LENGTHS.includes(notesLength)) {
+      res.status(400).json({ error: `Invalid notesLength. Must be one of: ${NOTES_LENGTHS.join(", ")}` });
+      return;
+    }
+
+    const sectionProblem = checkSectionHeading(req.body) || checkDocumentFile(req.body) || checkSources(req.body);
+    if (sectionProblem) {
+      res.status(400).json({ error: sectionProblem });
+      return;
+    }
+
     let content = documentContent;
     let title = documentTitle;
+    let document: StructuredDocument | undefined;
+    let combinedSources: CombinedSource[] | undefined;
 
-    // If Google Docs URL is provided, fetch content from the document
-    if (googleDocsUrl) {
-      if (!accessToken) {
+    // If a Google Docs URL, file or sources are provided, import content from them
+    if (googleDocsUrl || documentFile || sources) {
+      if (readsGoogleDocs(req.body) && !accessToken) {
         res.status(401).json({
           error: "Sign in required to import from Google Docs",
           code: "ACCESS_DENIED"
@@ -45,8 +114,10 @@ generateRouter.post("/preview", async (req: Request, res: Response) => {
         return;
       }
 
-      const docsContent = await fetchGoogleDocsContent(googleDocsUrl, accessToken);
+      const docsContent = await importDocument(req.body);
       content = docsContent.content;
+      document = docsContent.document;
+      combinedSources = docsContent.sources;
       // Use fetched title if documentTitle not provided
       if (!title) {
         title = docsContent.title;
@@ -58,17 +129,32 @@ generateRouter.post("/preview", async (req: Request, res: Response) => {
       return;
     }
 
+    let redactions: Redaction[] = [];
     const structure = await summarizeDocument({
       content,
       title,
       slideCount,
       customPrompt,
+      notesLength,
+      provider,
+      document,
+      sources: combinedSources,
+      onUsage: trackApiKeyUsage(res),
+      onRedactions: (found) => { redactions = found; },
     });
 
-    res.json({ success: true, structure, documentTitle: title });
+    const warnings = factCheckStructure(structure, content);
+    res.json({
+      success: true,
+      structure,
+      documentTitle: title,
+      warnings,
+      redactions,
+      suspiciousContent: detectPromptInjection(content),
+    });
   } catch (error) {
     console.error("Preview error:", error);
-    if (error instanceof DocsError) {
+    if (error instanceof DocsError || error instanceof UploadError || error instanceof LlmError) {
       res.status(error.httpStatus).json({
         success: false,
         error: error.message,
@@ -83,15 +169,118 @@ generateRouter.post("/preview", async (req: Request, res: Response) => {
   }
 });
 
-generateRouter.post("/", async (req: Request, res: Response) => {
+// Streaming preview: same request as /preview, but the response is a
+// text/event-stream that delivers each slide as the model produces it.
+// Events: stage, slide, retry (slides so far are discarded), done, error.
+// Closing the connection cancels generation.
+generateRouter.post("/preview/stream", verifyPreviewAccess, async (req: Request, res: Response) => {
+  const body = req.body as GenerateRequest;
+
+  const problem = checkJobRequest({ ...body, previewOnly: true });
+  if (problem) {
+    res.status(problem.status).json({
+      success: false,
+      error: problem.error,
+      ...(problem.code && { code: problem.code }),
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop reverse proxies such as nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  // Comment lines keep idle proxies from closing the connection during long prompts
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(": keep-alive\n\n");
+    }
+  }, STREAM_HEARTBEAT_MS);
+
+  try {
+    let content = body.documentContent;
+    let title = body.documentTitle;
+    let document: StructuredDocument | undefined;
+    let sources: CombinedSource[] | undefined;
+
+    if (body.googleDocsUrl || body.documentFile || body.sources) {
+      send("stage", { stage: "fetching" });
+      const docsContent = await importDocument(body);
+      content = docsContent.content;
+      document = docsContent.document;
+      sources = docsContent.sources;
+      if (!title) {
+        title = docsContent.title;
+      }
+    }
+
+    send("stage", { stage: "summarizing", documentTitle: title });
+    let redactions: Redaction[] = [];
+    const structure = await summarizeDocument({
+      content: content!,
+      title,
+      slideCount: body.slideCount,
+      customPrompt: body.customPrompt,
+      notesLength: body.notesLength,
+      provider: body.provider,
+      document,
+      sources,
+      onUsage: trackApiKeyUsage(res),
+      signal: controller.signal,
+      onSlide: (slide, index) => send("slide", { index, slide }),
+      onRetry: (problems) => send("retry", { problems }),
+      onRedactions: (found) => { redactions = found; },
+    });
+
+    send("done", {
+      structure,
+      documentTitle: title,
+      warnings: factCheckStructure(structure, content!),
+      redactions,
+      suspiciousContent: detectPromptInjection(content!),
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log("Preview stream cancelled by client");
+    } else {
+      console.error("Preview stream error:", error);
+      send("error", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        ...((error instanceof DocsError || error instanceof UploadError || error instanceof LlmError) && { code: error.code }),
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+});
+
+generateRouter.post("/", verifyGenerateAccess, async (req: Request, res: Response) => {
   try {
     const body = req.body as GenerateRequest;
 
-    // Validate: need either documentContent or googleDocsUrl
-    if (!body.documentContent && !body.googleDocsUrl) {
+    // Validate: need documentContent, googleDocsUrl, documentFile or sources
+    if (!body.documentContent && !body.googleDocsUrl && !body.documentFile && !body.sources) {
       const response: GenerateResponse = {
         success: false,
-        error: "Either documentContent or googleDocsUrl is required",
+        error: "Either documentContent, googleDocsUrl, documentFile or sources is required",
       };
       res.status(400).json(response);
       return;
@@ -124,13 +313,55 @@ generateRouter.post("/", async (req: Request, res: Response) => {
       return;
     }
 
+    if (body.notesLength && !NOTES_LENGTHS.includes(body.notesLength)) {
+      const response: GenerateResponse = {
+        success: false,
+        error: `Invalid notesLength. Must be one of: ${NOTES_LENGTHS.join(", ")}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (body.citationStyle && !CITATION_STYLES.includes(body.citationStyle)) {
+      const response: GenerateResponse = {
+        success: false,
+        error: `Invalid citationStyle. Must be one of: ${CITATION_STYLES.join(", ")}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const themeProblem = checkThemeOptions(body) || checkUpdateOptions(body);
+    if (themeProblem) {
+      const response: GenerateResponse = {
+        success: false,
+        error: themeProblem,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const sectionProblem = checkSectionHeading(body) || checkDocumentFile(body) || checkSources(body);
+    if (sectionProblem) {
+      const response: GenerateResponse = {
+        success: false,
+        error: sectionProblem,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     let content = body.documentContent;
     let title = body.documentTitle;
+    let document: StructuredDocument | undefined;
+    let sources: CombinedSource[] | undefined;
 
-    // If Google Docs URL is provided, fetch content from the document
-    if (body.googleDocsUrl) {
-      const docsContent = await fetchGoogleDocsContent(body.googleDocsUrl, body.accessToken);
+    // If a Google Docs URL, file or sources are provided, import content from them
+    if (body.googleDocsUrl || body.documentFile || body.sources) {
+      const docsContent = await importDocument(body);
       content = docsContent.content;
+      document = docsContent.document;
+      sources = docsContent.sources;
       // Use fetched title if documentTitle not provided
       if (!title) {
         title = docsContent.title;
@@ -147,44 +378,148 @@ generateRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // Step 1: Use Claude to summarize and structure content
+    let redactions: Redaction[] = [];
     const presentationStructure = await summarizeDocument({
       content: content!,
       title,
       slideCount: body.slideCount,
       customPrompt: body.customPrompt,
+      notesLength: body.notesLength,
+      provider: body.provider,
+      document,
+      sources,
+      onUsage: trackApiKeyUsage(res),
+      onRedactions: (found) => { redactions = found; },
     });
 
-    // Validate template if provided
-    const validTemplates: SlideTemplate[] = ["modern", "corporate", "creative", "minimal", "executive"];
-    if (body.template && !validTemplates.includes(body.template)) {
+    if (body.strictFactCheck) {
+      const warnings = factCheckStructure(presentationStructure, content!);
+      if (warnings.length > 0) {
+        throw unverifiedNumbersError(warnings);
+      }
+    }
+
+    // Step 2: Create Google Slides presentation
+    const { slidesUrl, slidesId, layoutAdjustments, deckChanges } = await createPresentation({
+      structure: presentationStructure,
+      accessToken: body.accessToken,
+      userEmail: body.userEmail,
+      template: body.template,
+      theme: body.theme,
+      citationStyle: body.citationStyle,
+      masterPresentationId: body.masterPresentationId,
+      masterLayouts: body.masterLayouts,
+      updatePresentationId: body.updatePresentationId,
+    });
+
+    const response: GenerateResponse = {
+      success: true,
+      slidesUrl,
+      slidesId,
+      redactions,
+      suspiciousContent: detectPromptInjection(content!),
+      layoutAdjustments,
+      deckChanges,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Generation error:", error);
+    if (error instanceof DocsError || error instanceof UploadError || error instanceof LlmError || error instanceof MasterDeckError ||
+      error instanceof DeckUpdateError) {
       const response: GenerateResponse = {
         success: false,
-        error: `Invalid template. Must be one of: ${validTemplates.join(", ")}`,
+        error: error.message,
+      };
+      res.status(error.httpStatus).json(response);
+      return;
+    }
+    if (error instanceof FactCheckError) {
+      const response: GenerateResponse = {
+        success: false,
+        error: error.message,
+        warnings: error.warnings,
+      };
+      res.status(error.httpStatus).json(response);
+      return;
+    }
+    const response: GenerateResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Render endpoint - creates slides from an already previewed structure without re-running the AI
+generateRouter.post("/render", verifyGenerateAccess, async (req: Request, res: Response) => {
+  try {
+    const body = req.body as RenderRequest;
+
+    if (!body.accessToken || !body.userEmail) {
+      const response: GenerateResponse = {
+        success: false,
+        error: "Missing authentication: accessToken and userEmail required",
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const renderProblem = checkRenderOptions(body);
+    if (renderProblem) {
+      const response: GenerateResponse = {
+        success: false,
+        error: renderProblem,
       };
       res.status(400).json(response);
       return;
     }
 
-    // Step 2: Create Google Slides presentation
-    const { slidesUrl, slidesId } = await createPresentation({
-      structure: presentationStructure,
+    if (body.strictFactCheck) {
+      const sourceProblem = checkFactCheckSource(body);
+      if (sourceProblem) {
+        const response: GenerateResponse = {
+          success: false,
+          error: sourceProblem,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const content = body.documentContent ?? (await importDocument(body)).content;
+      const warnings = factCheckStructure(body.structure, content);
+      if (warnings.length > 0) {
+        throw unverifiedNumbersError(warnings);
+      }
+    }
+
+    const { slidesUrl, slidesId, layoutAdjustments, deckChanges } = await createPresentation({
+      structure: body.structure,
       accessToken: body.accessToken,
       userEmail: body.userEmail,
       template: body.template,
+      theme: body.theme,
+      citationStyle: body.citationStyle,
+      masterPresentationId: body.masterPresentationId,
+      masterLayouts: body.masterLayouts,
+      updatePresentationId: body.updatePresentationId,
     });
 
     const response: GenerateResponse = {
       success: true,
       slidesUrl,
       slidesId,
+      layoutAdjustments,
+      deckChanges,
     };
     res.json(response);
   } catch (error) {
-    console.error("Generation error:", error);
-    if (error instanceof DocsError) {
+    console.error("Render error:", error);
+    if (error instanceof DocsError || error instanceof UploadError || error instanceof FactCheckError || error instanceof MasterDeckError ||
+      error instanceof DeckUpdateError) {
       const response: GenerateResponse = {
         success: false,
         error: error.message,
+        ...(error instanceof FactCheckError && { warnings: error.warnings }),
       };
       res.status(error.httpStatus).json(response);
       return;
@@ -196,3 +531,396 @@ generateRouter.post("/", async (req: Request, res: Response) => {
     res.status(500).json(response);
   }
 });
+
+// Dry run - the Slides API requests /render would send, without creating a deck
+generateRouter.post("/render/dry-run", requireApiKeyScope("preview"), (req: Request, res: Response) => {
+  const body = req.body as DryRunRequest;
+
+  const renderProblem = checkRenderOptions(body) || checkDryRunDeck(req.body as RenderRequest);
+  if (renderProblem) {
+    const response: GenerateResponse = {
+      success: false,
+      error: renderProblem,
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  const plan = buildPresentationRequests({
+    structure: body.structure,
+    templateConfig: body.theme ? toTemplateConfig(body.theme) : getTemplateConfig(body.template),
+    citationStyle: body.citationStyle,
+    titleSlide: DRY_RUN_TITLE_SLIDE,
+  });
+  res.json({ success: true, ...plan });
+});
+
+// The dry run never reads a deck, so it cannot copy a master or work out an update
+function checkDryRunDeck(body: RenderRequest): string | null {
+  if (body.masterPresentationId !== undefined) {
+    return "The dry run cannot use a master deck, which is only read when it is copied";
+  }
+  if (body.updatePresentationId !== undefined) {
+    return "The dry run cannot update a deck, which is only read when it is updated";
+  }
+  return null;
+}
+
+// A deck to update must be named by ID, and is not combined with a master deck
+function checkUpdateOptions(body: Pick<RenderRequest, "updatePresentationId" | "masterPresentationId">): string | null {
+  if (body.updatePresentationId === undefined) {
+    return null;
+  }
+  if (typeof body.updatePresentationId !== "string" || !PRESENTATION_ID_PATTERN.test(body.updatePresentationId)) {
+    return "updatePresentationId must be a Google Slides presentation ID";
+  }
+  if (body.masterPresentationId !== undefined) {
+    return "updatePresentationId cannot be combined with masterPresentationId";
+  }
+  return null;
+}
+
+// A request names a template, defines its own theme or copies a master deck
+function checkThemeOptions(
+  body: Pick<RenderRequest, "template" | "theme" | "masterPresentationId" | "masterLayouts" | "updatePresentationId">
+): string | null {
+  if (body.masterPresentationId !== undefined) {
+    if (body.template || body.theme !== undefined) {
+      return "Send only one of template, theme or masterPresentationId";
+    }
+    if (typeof body.masterPresentationId !== "string" || !PRESENTATION_ID_PATTERN.test(body.masterPresentationId)) {
+      return "masterPresentationId must be a Google Slides presentation ID";
+    }
+    return checkMasterLayouts(body.masterLayouts);
+  }
+  if (body.masterLayouts !== undefined) {
+    // A deck made from a master deck is updated with the layouts it was made with
+    if (body.updatePresentationId === undefined) {
+      return "masterLayouts can only be used with masterPresentationId or updatePresentationId";
+    }
+    const layoutsProblem = checkMasterLayouts(body.masterLayouts);
+    if (layoutsProblem) {
+      return layoutsProblem;
+    }
+  }
+  if (body.theme !== undefined) {
+    if (body.template) {
+      return "Send either template or theme, not both";
+    }
+    const problems = validateTheme(body.theme);
+    return problems.length > 0 ? `Invalid theme: ${problems.join("; ")}` : null;
+  }
+  if (body.template && !findTheme(body.template)) {
+    return `Invalid template. Must be one of: ${listThemes().map(({ id }) => id).join(", ")}`;
+  }
+  return null;
+}
+
+function checkMasterLayouts(layouts: unknown): string | null {
+  if (layouts === undefined) {
+    return null;
+  }
+  if (typeof layouts !== "object" || layouts === null || Array.isArray(layouts)) {
+    return "masterLayouts must map slide types to layout names";
+  }
+  for (const [role, name] of Object.entries(layouts)) {
+    if (!MASTER_LAYOUT_ROLES.includes(role as MasterLayoutRole)) {
+      return `Invalid masterLayouts key "${role}". Must be one of: ${MASTER_LAYOUT_ROLES.join(", ")}`;
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      return `masterLayouts.${role} must be a layout name`;
+    }
+  }
+  return null;
+}
+
+function checkRenderOptions(
+  body: DryRunRequest & Pick<RenderRequest, "masterPresentationId" | "masterLayouts" | "updatePresentationId">
+): string | null {
+  const structureErrors = validatePresentationStructure(body.structure);
+  if (structureErrors.length > 0) {
+    return `Invalid structure: ${structureErrors.join("; ")}`;
+  }
+  const themeProblem = checkThemeOptions(body) || checkUpdateOptions(body);
+  if (themeProblem) {
+    return themeProblem;
+  }
+  if (body.citationStyle && !CITATION_STYLES.includes(body.citationStyle)) {
+    return `Invalid citationStyle. Must be one of: ${CITATION_STYLES.join(", ")}`;
+  }
+  return null;
+}
+
+function checkSectionHeading(body: Partial<GenerateRequest>): string | null {
+  if (body.sectionHeading === undefined) {
+    return null;
+  }
+  if (typeof body.sectionHeading !== "string" || !body.sectionHeading.trim()) {
+    return "sectionHeading must be a non-empty string";
+  }
+  if (!body.googleDocsUrl) {
+    return "sectionHeading can only be used with googleDocsUrl";
+  }
+  return null;
+}
+
+function checkDocumentFile(body: Partial<GenerateRequest>): string | null {
+  const file = body.documentFile;
+  if (file === undefined) {
+    return null;
+  }
+  if (!file || typeof file.name !== "string" || !file.name || typeof file.data !== "string") {
+    return "documentFile must have a name and base64 data";
+  }
+  if (body.documentContent || body.googleDocsUrl) {
+    return "documentFile cannot be combined with documentContent or googleDocsUrl";
+  }
+  return null;
+}
+
+function checkSources(body: Partial<GenerateRequest>): string | null {
+  const { sources } = body;
+  if (sources === undefined) {
+    return null;
+  }
+  if (!Array.isArray(sources) || sources.length === 0) {
+    return "sources must be a non-empty array";
+  }
+  if (sources.length > MAX_SOURCES) {
+    return `sources can have at most ${MAX_SOURCES} entries`;
+  }
+  if (body.documentContent || body.googleDocsUrl || body.documentFile) {
+    return "sources cannot be combined with documentContent, googleDocsUrl or documentFile";
+  }
+  if (!body.documentTitle) {
+    return "documentTitle is required with sources";
+  }
+  for (const [index, source] of sources.entries()) {
+    const hasUrl = typeof source?.googleDocsUrl === "string" && source.googleDocsUrl.length > 0;
+    const hasContent = typeof source?.documentContent === "string" && source.documentContent.trim().length > 0;
+    if (hasUrl === hasContent) {
+      return `sources[${index}] must have either googleDocsUrl or documentContent`;
+    }
+    const sectionProblem = checkSectionHeading(source);
+    if (sectionProblem) {
+      return `sources[${index}]: ${sectionProblem}`;
+    }
+  }
+  return null;
+}
+
+// In strict mode /render checks the structure against the source it was previewed from
+function checkFactCheckSource(body: RenderRequest): string | null {
+  if (!body.documentContent && !body.googleDocsUrl && !body.documentFile && !body.sources) {
+    return "strictFactCheck requires the source: documentContent, googleDocsUrl, documentFile or sources";
+  }
+  return checkSectionHeading(body) || checkDocumentFile(body) || checkSources(body);
+}
+
+// Whether the request reads any Google Doc, which needs the user's access token
+function readsGoogleDocs(body: Partial<GenerateRequest>): boolean {
+  return !!body.googleDocsUrl || (Array.isArray(body.sources) && body.sources.some((source) => source?.googleDocsUrl));
+}
+
+// Content of the Google Doc, uploaded file or sources the request imports from
+function importDocument(body: GenerateRequest | RenderRequest): Promise<GoogleDocsContent> {
+  if (body.sources) {
+    // checkSources requires documentTitle with sources
+    return importSources(body.sources, body.documentTitle!, body.accessToken);
+  }
+  if (body.documentFile) {
+    return parseDocumentFile(body.documentFile);
+  }
+  return fetchGoogleDocsContent(body.googleDocsUrl!, body.accessToken, { sectionHeading: body.sectionHeading });
+}
+
+interface RequestProblem {
+  status: number;
+  error: string;
+  code?: string;
+}
+
+// Job requests are checked up front so clients get validation errors immediately
+function checkJobRequest(body: JobRequest): RequestProblem | null {
+  if (!body.documentContent && !body.googleDocsUrl && !body.documentFile && !body.sources) {
+    return { status: 400, error: "Either documentContent, googleDocsUrl, documentFile or sources is required" };
+  }
+  if (!body.slideCount) {
+    return { status: 400, error: "Missing required fields: slideCount" };
+  }
+  if (body.slideCount < 3 || body.slideCount > 10) {
+    return { status: 400, error: "slideCount must be between 3 and 10" };
+  }
+  if (!body.documentTitle && !body.googleDocsUrl && !body.documentFile) {
+    return { status: 400, error: "Missing required fields: documentTitle" };
+  }
+  if (body.notesLength && !NOTES_LENGTHS.includes(body.notesLength)) {
+    return { status: 400, error: `Invalid notesLength. Must be one of: ${NOTES_LENGTHS.join(", ")}` };
+  }
+  if (body.citationStyle && !CITATION_STYLES.includes(body.citationStyle)) {
+    return { status: 400, error: `Invalid citationStyle. Must be one of: ${CITATION_STYLES.join(", ")}` };
+  }
+  const sectionProblem = checkSectionHeading(body) || checkDocumentFile(body) || checkSources(body);
+  if (sectionProblem) {
+    return { status: 400, error: sectionProblem };
+  }
+  if (body.previewOnly) {
+    if (readsGoogleDocs(body) && !body.accessToken) {
+      return { status: 401, error: "Sign in required to import from Google Docs", code: "ACCESS_DENIED" };
+    }
+    return null;
+  }
+  if (!body.accessToken || !body.userEmail) {
+    return { status: 401, error: "Missing authentication: accessToken and userEmail required" };
+  }
+  const themeProblem = checkThemeOptions(body) || checkUpdateOptions(body);
+  if (themeProblem) {
+    return { status: 400, error: themeProblem };
+  }
+  return null;
+}
+
+async function runGenerationJob(
+  body: JobRequest,
+  setStage: StageReporter,
+  onUsage?: (tokens: number) => void
+): Promise<JobResult> {
+  let content = body.documentContent;
+  let title = body.documentTitle;
+  let document: StructuredDocument | undefined;
+  let sources: CombinedSource[] | undefined;
+
+  if (body.googleDocsUrl || body.documentFile || body.sources) {
+    await setStage("fetching");
+    const docsContent = await importDocument(body);
+    content = docsContent.content;
+    document = docsContent.document;
+    sources = docsContent.sources;
+    if (!title) {
+      title = docsContent.title;
+    }
+  }
+
+  await setStage("summarizing");
+  let redactions: Redaction[] = [];
+  const structure = await summarizeDocument({
+    content: content!,
+    title,
+    slideCount: body.slideCount,
+    customPrompt: body.customPrompt,
+    notesLength: body.notesLength,
+    provider: body.provider,
+    document,
+    sources,
+    onUsage,
+    onRedactions: (found) => { redactions = found; },
+  });
+
+  const warnings = factCheckStructure(structure, content!);
+  if (body.previewOnly) {
+    return { structure, documentTitle: title, warnings, redactions, suspiciousContent: detectPromptInjection(content!) };
+  }
+  if (body.strictFactCheck && warnings.length > 0) {
+    throw unverifiedNumbersError(warnings);
+  }
+
+  await setStage("rendering");
+  const { slidesUrl, slidesId, layoutAdjustments, deckChanges } = await createPresentation({
+    structure,
+    accessToken: body.accessToken,
+    userEmail: body.userEmail,
+    template: body.template,
+    theme: body.theme,
+    citationStyle: body.citationStyle,
+    masterPresentationId: body.masterPresentationId,
+    masterLayouts: body.masterLayouts,
+    updatePresentationId: body.updatePresentationId,
+  });
+  return {
+    slidesUrl,
+    slidesId,
+    redactions,
+    suspiciousContent: detectPromptInjection(content!),
+    layoutAdjustments,
+    deckChanges,
+  };
+}
+
+// Start a background job for clients that cannot hold a request open
+// through the whole pipeline (e.g. Apps Script's UrlFetchApp)
+generateRouter.post("/jobs", [
+  requireApiKeyScope((body) => body.previewOnly ? "preview" : "create-slides"),
+  verifyGoogleAccess({ createsSlides: (body) => !body.previewOnly }),
+], async (req: Request, res: Response) => {
+  try {
+    const body = req.body as JobRequest;
+
+    const problem = checkJobRequest(body);
+    if (problem) {
+      res.status(problem.status).json({
+        success: false,
+        error: problem.error,
+        ...(problem.code && { code: problem.code }),
+      });
+      return;
+    }
+
+    const job = await startJob(
+      body.previewOnly ? "preview" : "generate",
+      (setStage) => runGenerationJob(body, setStage, trackApiKeyUsage(res)),
+      (res.locals.apiKey as ApiKeyConfig | undefined)?.id
+    );
+
+    res.status(202).json({ success: true, jobId: job.id, job });
+  } catch (error) {
+    console.error("Job submit error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
+
+// Poll a job's stage, progress and result. A job submitted with an API key
+// is only shown to that key; without one, the job ID alone grants access
+generateRouter.get("/jobs/:id", async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id);
+    // Answer as for an unknown job so other callers cannot tell it exists
+    if (!job || (job.apiKeyId && validateApiKey(req.get(API_KEY_HEADER))?.id !== job.apiKeyId)) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+    res.json({ success: true, job });
+  } catch (error) {
+    console.error("Job status error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
+
+// Usage and quotas of the API key making the request
+generateRouter.get("/usage", (req: Request, res: Response) => {
+  try {
+    const apiKey = validateApiKey(req.get(API_KEY_HEADER));
+    if (!apiKey) {
+      res.status(401).json({ success: false, error: "A valid API key is required", code: "INVALID_API_KEY" });
+      return;
+    }
+
+    res.json({
+      success: true,
+      key: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes },
+      quotas: { requestsPerDay: apiKey.requestsPerDay ?? null, tokensPerDay: apiKey.tokensPerDay ?? null },
+      usage: getApiKeyUsage(apiKey.id),
+    });
+  } catch (error) {
+    console.error("Usage error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+});
@@ -0,0 +1,14 @@
+// Print a new API key and the API_KEYS entry for it.
+// Usage: npm run create-api-key -- <id> [preview|create-slides ...]
+import { generateApiKey } from "../services/apiKeys.js";
+
+const [id, ...scopes] = process.argv.slice(2);
+if (!id || !scopes.every((scope) => scope === "preview" || scope === "create-slides")) {
+  console.error("Usage: npm run create-api-key -- <id> [preview|create-slides ...]");
+  process.exit(1);
+}
+
+const { key, hash } = generateApiKey();
+console.log(`API key (give this to the client; it is not stored anywhere):\n${key}\n`);
+console.log("API_KEYS entry:");
+console.log(JSON.stringify({ id, hash, scopes: scopes.length > 0 ? scopes : ["preview"] }));
@@ -0,0 +1,137 @@
+import { createHash, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import { ApiKeyConfig, ApiKeyScope, ApiKeyUsage } from "../types/index.js";
+
+const API_KEY_PREFIX = "d2s_";
+const API_KEY_SCOPES: ApiKeyScope[] = ["preview", "create-slides"];
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// A new random key and the hash to put in API_KEYS; the key itself is never stored
+export function generateApiKey(): { key: string; hash: string } {
+  const key = API_KEY_PREFIX + randomBytes(32).toString("base64url");
+  return { key, hash: hashApiKey(key) };
+}
+
+function isPositiveNumberOrUndefined(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value > 0);
+}
+
+function parseApiKeys(json: string, source: string): ApiKeyConfig[] {
+  const entries: unknown = JSON.parse(json);
+  if (!Array.isArray(entries)) {
+    throw new Error(`${source} must be a JSON array of API keys`);
+  }
+
+  return entries.map((entry, index) => {
+    const key = entry as Partial<ApiKeyConfig> | null;
+    if (
+      !key ||
+      typeof key.id !== "string" ||
+      !key.id ||
+      typeof key.hash !== "string" ||
+      !HASH_PATTERN.test(key.hash) ||
+      !Array.isArray(key.scopes) ||
+      key.scopes.length === 0 ||
+      !key.scopes.every((scope) => API_KEY_SCOPES.includes(scope)) ||
+      !isPositiveNumberOrUndefined(key.requestsPerDay) ||
+      !isPositiveNumberOrUndefined(key.tokensPerDay)
+    ) {
+      throw new Error(
+        `Invalid API key at ${source}[${index}]: needs an id, a SHA-256 hex hash and scopes from: ${API_KEY_SCOPES.join(", ")}`
+      );
+    }
+    return key as ApiKeyConfig;
+  });
+}
+
+let apiKeys: Map<string, ApiKeyConfig> | null = null;
+const usage = new Map<string, ApiKeyUsage>();
+
+/**
+ * Keys come from API_KEYS (JSON) or the file named by API_KEYS_FILE,
+ * indexed by hash so a presented key is looked up without comparing secrets
+ */
+function getApiKeys(): Map<string, ApiKeyConfig> {
+  if (!apiKeys) {
+    let configured: ApiKeyConfig[] = [];
+    if (process.env.API_KEYS_FILE) {
+      configured = parseApiKeys(readFileSync(process.env.API_KEYS_FILE, "utf8"), "API_KEYS_FILE");
+    } else if (process.env.API_KEYS) {
+      configured = parseApiKeys(process.env.API_KEYS, "API_KEYS");
+    }
+    apiKeys = new Map(configured.map((key) => [key.hash, key]));
+  }
+  return apiKeys;
+}
+
+// Replace the configured keys (e.g. in tests); null reloads them from the environment. Usage is reset.
+export function setApiKeys(keys: ApiKeyConfig[] | null): void {
+  apiKeys = keys && new Map(keys.map((key) => [key.hash, key]));
+  usage.clear();
+}
+
+export function findApiKey(key: string): ApiKeyConfig | null {
+  return getApiKeys().get(hashApiKey(key)) ?? null;
+}
+
+export function hasApiKeyScope(key: ApiKeyConfig, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope) || (scope === "preview" && key.scopes.includes("create-slides"));
+}
+
+function currentPeriod(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function usageFor(id: string): ApiKeyUsage {
+  const period = currentPeriod();
+  const current = usage.get(id) ?? { period, requests: 0, tokens: 0, totalRequests: 0, totalTokens: 0 };
+  if (current.period !== period) {
+    Object.assign(current, { period, requests: 0, tokens: 0 });
+  }
+  usage.set(id, current);
+  return current;
+}
+
+/**
+ * Usage counters for a key. Daily counters restart at midnight UTC; the
+ * totals cover the lifetime of this server process.
+ */
+export function getApiKeyUsage(id: string): ApiKeyUsage {
+  return { ...usageFor(id) };
+}
+
+// Why the key may not make another request today, or null when within its quotas
+export function checkApiKeyQuota(key: ApiKeyConfig): string | null {
+  const { requests, tokens } = getApiKeyUsage(key.id);
+  if (key.requestsPerDay !== undefined && requests >= key.requestsPerDay) {
+    return `Daily request quota of ${key.requestsPerDay} exceeded`;
+  }
+  if (key.tokensPerDay !== undefined && tokens >= key.tokensPerDay) {
+    return `Daily token quota of ${key.tokensPerDay} exceeded`;
+  }
+  return null;
+}
+
+export function recordApiKeyRequest(id: string): void {
+  const current = usageFor(id);
+  current.requests++;
+  current.totalRequests++;
+  current.lastUsedAt = new Date().toISOString();
+}
+
+export function recordApiKeyTokens(id: string, tokens: number): void {
+  const current = usageFor(id);
+  current.tokens += tokens;
+  current.totalTokens += tokens;
+}
+
+// Seconds until the daily counters restart, for Retry-After
+export function secondsUntilQuotaReset(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
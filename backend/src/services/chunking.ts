@@ -0,0 +1,133 @@
+export interface DocumentSection {
+  heading: string;
+  content: string;
+}
+
+// Rough heuristic: ~4 characters per token for English prose
+const CHARS_PER_TOKEN = 4;
+
+// Markdown headings ("## Rollout") and numbered headings ("2.1 Rollout Plan")
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+(.+?)\s*#*$/,
+  /^(\d+(?:\.\d+)*\.?\s+[A-Z][^.!?:;]{0,78})$/,
+];
+
+/**
+ * Estimate the number of tokens a piece of text will use.
+ * Deliberately provider-agnostic; it only needs to be good enough to decide
+ * when a document will not fit in a single prompt.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function matchHeading(line: string): string | null {
+  const trimmed = line.trim();
+  for (const pattern of HEADING_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a document into sections at heading lines.
+ * Text before the first heading becomes an "Introduction" section.
+ */
+export function splitIntoSections(content: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: "Introduction", content: "" };
+
+  for (const line of content.split("\n")) {
+    const heading = matchHeading(line);
+    if (heading) {
+      if (current.content.trim()) {
+        sections.push({ heading: current.heading, content: current.content.trim() });
+      }
+      current = { heading, content: "" };
+    } else {
+      current.content += `${line}\n`;
+    }
+  }
+
+  if (current.content.trim()) {
+    sections.push({ heading: current.heading, content: current.content.trim() });
+  }
+
+  return sections;
+}
+
+/**
+ * Split a single oversized section on paragraph boundaries, falling back to
+ * hard character cuts for paragraphs that are themselves too large.
+ */
+function splitSection(section: DocumentSection, maxTokens: number): DocumentSection[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const parts: string[] = [];
+  let buffer = "";
+
+  for (const paragraph of section.content.split(/\n\s*\n/)) {
+    const pieces: string[] = [];
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      pieces.push(paragraph.slice(start, start + maxChars));
+    }
+
+    for (const piece of pieces) {
+      if (buffer && buffer.length + piece.length + 2 > maxChars) {
+        parts.push(buffer);
+        buffer = "";
+      }
+      buffer = buffer ? `${buffer}\n\n${piece}` : piece;
+    }
+  }
+
+  if (buffer) {
+    parts.push(buffer);
+  }
+
+  return parts.map((content, index) => ({
+    heading: parts.length > 1 ? `${section.heading} (part ${index + 1})` : section.heading,
+    content,
+  }));
+}
+
+/**
+ * Group sections into chunks that each fit within maxTokens.
+ * Small neighbouring sections are merged to keep the number of model calls down.
+ */
+export function chunkSections(sections: DocumentSection[], maxTokens: number): DocumentSection[] {
+  const chunks: DocumentSection[] = [];
+  let current: DocumentSection | null = null;
+
+  for (const section of sections) {
+    const pieces = estimateTokens(section.content) > maxTokens
+      ? splitSection(section, maxTokens)
+      : [section];
+
+    for (const piece of pieces) {
+      const merged: DocumentSection | null = current
+        ? {
+            heading: `${current.heading} / ${piece.heading}`,
+            content: `${current.content}\n\n## ${piece.heading}\n${piece.content}`,
+          }
+        : null;
+
+      if (merged && estimateTokens(merged.content) <= maxTokens) {
+        current = merged;
+      } else {
+        if (current) {
+          chunks.push(current);
+        }
+        current = piece;
+      }
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,122 @@
+import { BulletsSlide, Citation, DocumentBlock, ImageSlide, SlideContent, StructuredDocument } from "../types/index.js";
+import { splitIntoSections } from "./chunking.js";
+import { spansToText } from "./document.js";
+
+// A searchable part of the source document
+export interface CitationPassage {
+  heading: string;
+  url?: string;
+  // Normalized with normalizeForMatch
+  text: string;
+}
+
+// Models often elide the middle of a long quote
+const ELLIPSIS = /\.{3}|…/;
+
+/**
+ * Compare text the way a reader would: case, typographic quotes and dashes,
+ * Markdown emphasis markers and spacing are ignored
+ */
+function normalizeForMatch(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, "\"")
+    .replace(/[–—]/g, "-")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// The slide types whose bullets can carry citations
+export function hasBulletCitations(slide: SlideContent): slide is BulletsSlide | ImageSlide {
+  return slide.type === undefined || slide.type === "bullets" || slide.type === "image";
+}
+
+function blockText(block: DocumentBlock): string {
+  switch (block.type) {
+    case "paragraph":
+      return spansToText(block.spans);
+    case "list":
+      return block.items.map((item) => spansToText(item.spans)).join("\n");
+    case "table":
+      return block.rows.map((row) => row.map(spansToText).join(" ")).join("\n");
+    case "image":
+      return block.description || "";
+  }
+}
+
+/**
+ * The passages citations are matched against: the document's sections when
+ * its structure is known, otherwise the content split at its headings
+ */
+export function buildCitationPassages(content: string, document?: StructuredDocument): CitationPassage[] {
+  if (document) {
+    return document.sections.map((section) => ({
+      heading: section.heading,
+      ...(section.url && { url: section.url }),
+      text: normalizeForMatch(section.blocks.map(blockText).join("\n")),
+    }));
+  }
+  return splitIntoSections(content).map((section) => ({
+    heading: section.heading === "Introduction" ? "" : section.heading,
+    text: normalizeForMatch(section.content),
+  }));
+}
+
+function findCitation(quote: string, passages: CitationPassage[]): Citation | null {
+  const parts = normalizeForMatch(quote.replace(/^["'“‘]+|["'”’]+$/g, ""))
+    .split(ELLIPSIS)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const passage = passages.find(({ text }) => parts.every((part) => text.includes(part)));
+  if (!passage) {
+    return null;
+  }
+  return {
+    quote: quote.trim(),
+    ...(passage.heading && { heading: passage.heading }),
+    ...(passage.url && { url: passage.url }),
+  };
+}
+
+/**
+ * Check each bullet's citation against the document and add the heading (and
+ * link) of the section it was found in. Quotes that cannot be found are
+ * dropped rather than shown as a source they are not.
+ */
+export function resolveCitations(slide: SlideContent, passages: CitationPassage[]): SlideContent {
+  if (!hasBulletCitations(slide) || !slide.citations) {
+    return slide;
+  }
+  const citations = slide.citations.map((citation) => citation && findCitation(citation.quote, passages));
+  if (citations.some(Boolean)) {
+    slide.citations = citations;
+  } else {
+    delete slide.citations;
+  }
+  return slide;
+}
+
+/**
+ * Speaker-note text listing where each cited bullet comes from, numbered by
+ * bullet. Empty when the slide has no citations.
+ */
+export function formatCitationNotes(slide: SlideContent): string {
+  if (!hasBulletCitations(slide) || !slide.citations) {
+    return "";
+  }
+  const lines = slide.citations.flatMap((citation, index) => {
+    if (!citation) {
+      return [];
+    }
+    const where = [citation.heading, citation.url].filter(Boolean).join(", ");
+    return [`[${index + 1}] "${citation.quote}"${where ? ` (${where})` : ""}`];
+  });
+  return lines.length > 0 ? `Sources:\n${lines.join("\n")}` : "";
+}
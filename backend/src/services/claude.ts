@@ -1,137 +1,417 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { PresentationStructure, SlideContent } from "../types/index.js";
-import { buildExecutivePrompt } from "./prompts.js";
-
-// Lazy initialization to ensure env is loaded first
-let genAI: GoogleGenerativeAI | null = null;
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import {
+  CombinedSource,
+  LlmProviderName,
+  PresentationStructure,
+  Redaction,
+  SlideContent,
+  SpeakerNotesLength,
+  StructuredDocument,
+} from "../types/index.js";
+import {
+  buildExecutivePrompt,
+  buildRepairPrompt,
+  buildSectionSummaryPrompt,
+  buildSynthesisPrompt,
+  SYSTEM_PROMPT,
+} from "./prompts.js";
+import { getProvider, LlmProvider } from "./llm/index.js";
+import { LlmError } from "./llm/provider.js";
+import { chunkSections, estimateTokens, splitIntoSections } from "./chunking.js";
+import {
+  checkSlideRequirements,
+  findUnknownFields,
+  findUnknownSlideFields,
+  normalizeSlide,
+  SLIDE_RESPONSE_SCHEMA,
+  validateSlide,
+} from "./structure.js";
+import { createSlideStreamParser } from "./slideStream.js";
+import { buildDocumentOutline, getDocumentImages } from "./document.js";
+import { buildCitationPassages, resolveCitations } from "./citations.js";
+import { createRedactionSession } from "./redaction.js";
+import { checkSlideUrls, detectPromptInjection } from "./injection.js";
+
+// Share of the context window a prompt may use; the rest is left for the response
+const PROMPT_BUDGET_RATIO = 0.75;
+// Map-step chunks are kept smaller so section prompts leave room for instructions
+const CHUNK_BUDGET_RATIO = 0.5;
+const DEFAULT_MAP_CONCURRENCY = 3;
+// Upper bound on re-condensing passes in case summaries stop shrinking
+const MAX_REDUCE_PASSES = 3;
+// Follow-up requests allowed when a response fails validation
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+interface SummarizeParams {
+  content: string;
+  title: string;
+  slideCount: number;
+  customPrompt?: string;
+  notesLength?: SpeakerNotesLength;
+  provider?: LlmProviderName;
+  // Structure of an imported document; its outline guides how slides are planned
+  document?: StructuredDocument;
+  // Set when the content combines several sources (see combineSources)
+  sources?: CombinedSource[];
+  signal?: AbortSignal;
+  // Streams the response and reports each valid slide as soon as it is complete
+  onSlide?: (slide: SlideContent, index: number) => void;
+  // Called before a repair attempt; slides reported so far are discarded
+  onRetry?: (problems: string[]) => void;
+  // Estimated tokens (prompt and response) of each model call, e.g. for API key quotas
+  onUsage?: (tokens: number) => void;
+  // What was replaced with placeholders before the content was sent to the model
+  onRedactions?: (redactions: Redaction[]) => void;
+}
+
+type SlideCallbacks = Pick<SummarizeParams, "signal" | "onSlide" | "onRetry">;
+
+// What the model's slides are checked against
+interface SlideSource {
+  // Text the slides may draw on; URLs on slides must appear in it
+  text: string;
+  images: Map<string, string>;
+}
+
+interface SlideParseResult {
+  // Null when the response cannot be rendered at all
+  slides: SlideContent[] | null;
+  problems: string[];
+}
+
+/**
+ * Tokens a prompt may use for this provider. LLM_MAX_INPUT_TOKENS overrides
+ * the provider default, e.g. for a local server started with a small context.
+ */
+function getPromptBudget(provider: LlmProvider): number {
+  const override = Number(process.env.LLM_MAX_INPUT_TOKENS);
+  const maxInputTokens = override > 0 ? override : provider.maxInputTokens;
+  return Math.floor(maxInputTokens * PROMPT_BUDGET_RATIO);
+}
+
+// Report the estimated size of every request and response made through the provider
+function withUsageTracking(provider: LlmProvider, onUsage?: (tokens: number) => void): LlmProvider {
+  if (!onUsage) {
+    return provider;
   }
-  return genAI;
+  return {
+    ...provider,
+    async complete(request) {
+      const text = await provider.complete(request);
+      onUsage(estimateTokens(request.prompt) + estimateTokens(text));
+      return text;
+    },
+    async *stream(request) {
+      let text = "";
+      try {
+        for await (const chunk of provider.stream(request)) {
+          text += chunk;
+          yield chunk;
+        }
+      } finally {
+        // Cancelled streams still count what was generated
+        onUsage(estimateTokens(request.prompt) + estimateTokens(text));
+      }
+    },
+  };
 }
 
-// Check if we should use mock mode (no API key in development)
-function shouldUseMock(): boolean {
-  const apiKey = process.env.GEMINI_API_KEY;
-  return !apiKey || apiKey.trim() === "";
+function getMapConcurrency(): number {
+  const configured = Number(process.env.LLM_MAP_CONCURRENCY);
+  return configured > 0 ? Math.floor(configured) : DEFAULT_MAP_CONCURRENCY;
 }
 
-// Generate mock slides for testing without API key
-function generateMockSlides(title: string, slideCount: number): PresentationStructure {
-  const mockSlides: SlideContent[] = [];
-
-  const sampleTitles = [
-    "Executive Summary",
-    "Key Findings",
-    "Market Analysis",
-    "Financial Overview",
-    "Strategic Initiatives",
-    "Risk Assessment",
-    "Timeline & Milestones",
-    "Resource Requirements",
-    "Expected Outcomes",
-    "Next Steps"
-  ];
+function getRepairAttempts(): number {
+  const configured = process.env.LLM_REPAIR_ATTEMPTS;
+  const attempts = Number(configured);
+  return configured && attempts >= 0 ? Math.floor(attempts) : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+// Providers without a structured output mode may wrap the JSON in a code
+// fence or surround it with prose
+function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) {
+    return fenced[1];
+  }
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  return start > 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/**
+ * Point an image slide at the document image it names. The URL always comes
+ * from the document, never from the model; unknown IDs are reported.
+ */
+function resolveSlideImage(slide: SlideContent, index: number, images: Map<string, string>): string[] {
+  if (slide.type !== "image") {
+    return [];
+  }
+  const imageUrl = images.get(slide.imageId);
+  if (!imageUrl) {
+    delete slide.imageUrl;
+    return [`slides[${index}].imageId "${slide.imageId}" is not an image in the document`];
+  }
+  slide.imageUrl = imageUrl;
+  return [];
+}
+
+function parseSlideResponse(text: string, slideCount: number, source: SlideSource): SlideParseResult {
+  if (!text.trim()) {
+    return { slides: null, problems: ["the response was empty"] };
+  }
 
-  const sampleBullets = [
-    ["Revenue increased 25% quarter-over-quarter", "Customer acquisition cost reduced by 15%", "Net promoter score improved to 72"],
-    ["Market share expanded to 18% in core segments", "Three new enterprise clients onboarded", "Product adoption rate exceeded targets by 20%"],
-    ["Competitive landscape remains favorable", "New market opportunities identified in APAC", "Brand awareness increased 30% YoY"],
-    ["Operating margin improved to 22%", "Cash reserves at $50M", "Debt-to-equity ratio at healthy 0.3"],
-    ["Digital transformation 60% complete", "New product launch scheduled Q2", "Partnership discussions advancing with key players"]
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch {
+    return { slides: null, problems: ["the response was not valid JSON"] };
+  }
+
+  const rawSlides = (parsed as { slides?: unknown } | null)?.slides;
+  if (!Array.isArray(rawSlides)) {
+    return { slides: null, problems: ["the response must be an object with a \"slides\" array"] };
+  }
+
+  const slides = rawSlides.map(normalizeSlide);
+  const errors = [
+    ...findUnknownFields(parsed as Record<string, unknown>),
+    ...slides.flatMap((slide, index) => validateSlide(slide, index)),
   ];
+  if (errors.length > 0) {
+    return { slides: null, problems: errors };
+  }
 
-  for (let i = 0; i < slideCount; i++) {
-    mockSlides.push({
-      title: sampleTitles[i % sampleTitles.length],
-      bullets: sampleBullets[i % sampleBullets.length]
-    });
+  // Links the document does not contain may have been planted by it
+  const validSlides = slides as SlideContent[];
+  const urlErrors = validSlides.flatMap((slide, index) => checkSlideUrls(slide, index, source.text));
+  if (urlErrors.length > 0) {
+    return { slides: null, problems: urlErrors };
   }
 
   return {
-    title,
-    slides: mockSlides
+    slides: validSlides,
+    problems: [
+      ...validSlides.flatMap((slide, index) => resolveSlideImage(slide, index, source.images)),
+      ...checkSlideRequirements(validSlides, slideCount),
+    ],
   };
 }
 
-interface SummarizeParams {
-  content: string;
-  title: string;
-  slideCount: number;
-  customPrompt?: string;
+// Read a streamed response, reporting each slide that validates on its own
+async function streamSlides(
+  provider: LlmProvider,
+  prompt: string,
+  slideCount: number,
+  source: SlideSource,
+  { signal, onSlide }: SlideCallbacks
+): Promise<string> {
+  const parser = createSlideStreamParser();
+  let text = "";
+  let index = 0;
+
+  const request = { prompt, system: SYSTEM_PROMPT, slideCount, responseSchema: SLIDE_RESPONSE_SCHEMA, signal };
+  for await (const chunk of provider.stream(request)) {
+    text += chunk;
+    for (const raw of parser.push(chunk)) {
+      const slide = normalizeSlide(raw);
+      const problems = [
+        ...findUnknownSlideFields(raw, index),
+        ...validateSlide(slide, index),
+      ];
+      if (problems.length === 0 && checkSlideUrls(slide as SlideContent, index, source.text).length === 0) {
+        resolveSlideImage(slide as SlideContent, index, source.images);
+        onSlide?.(slide as SlideContent, index);
+      }
+      index++;
+    }
+  }
+
+  return text;
 }
 
-interface SlideResponse {
-  slides: Array<{
-    title: string;
-    bullets: string[];
-  }>;
+/**
+ * Request the slides and validate them, feeding any problems back to the
+ * model for a bounded number of repair attempts. Once attempts run out,
+ * slides that render but miss a writing requirement are accepted as is.
+ */
+async function generateSlides(
+  provider: LlmProvider,
+  prompt: string,
+  slideCount: number,
+  source: SlideSource,
+  callbacks: SlideCallbacks = {}
+): Promise<SlideContent[]> {
+  const { signal, onSlide, onRetry } = callbacks;
+  const maxAttempts = 1 + getRepairAttempts();
+  let request = prompt;
+  let result: SlideParseResult = { slides: null, problems: [] };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      onRetry?.(result.problems);
+    }
+
+    const text = onSlide
+      ? await streamSlides(provider, request, slideCount, source, callbacks)
+      : await provider.complete({
+        prompt: request,
+        system: SYSTEM_PROMPT,
+        slideCount,
+        responseSchema: SLIDE_RESPONSE_SCHEMA,
+        signal,
+      });
+    result = parseSlideResponse(text, slideCount, source);
+    if (result.problems.length === 0) {
+      return result.slides as SlideContent[];
+    }
+
+    console.warn(
+      `[Repair] ${provider.name} response failed validation (attempt ${attempt}/${maxAttempts}): ${result.problems.join("; ")}`
+    );
+    request = buildRepairPrompt({ prompt, response: text, problems: result.problems });
+  }
+
+  if (result.slides) {
+    return result.slides;
+  }
+
+  throw new LlmError(
+    "INVALID_RESPONSE",
+    `${provider.name} returned an invalid slide structure after ${maxAttempts} attempts: ${result.problems.join("; ")}`,
+    502
+  );
+}
+
+/**
+ * Map step: summarize each chunk, a few at a time to respect provider rate limits
+ */
+async function summarizeSections(
+  provider: LlmProvider,
+  content: string,
+  chunkTokens: number,
+  customPrompt?: string,
+  signal?: AbortSignal
+): Promise<Array<{ heading: string; summary: string }>> {
+  const chunks = chunkSections(splitIntoSections(content), chunkTokens);
+  const summaries: Array<{ heading: string; summary: string }> = new Array(chunks.length);
+  const concurrency = getMapConcurrency();
+
+  for (let start = 0; start < chunks.length; start += concurrency) {
+    signal?.throwIfAborted();
+    const batch = chunks.slice(start, start + concurrency);
+    await Promise.all(batch.map(async (chunk, offset) => {
+      const index = start + offset;
+      const summary = await provider.complete({
+        prompt: buildSectionSummaryPrompt({
+          heading: chunk.heading,
+          content: chunk.content,
+          sectionIndex: index,
+          sectionCount: chunks.length,
+          customPrompt,
+          suspicious: detectPromptInjection(chunk.content).length > 0,
+        }),
+        system: SYSTEM_PROMPT,
+        signal,
+      });
+      summaries[index] = { heading: chunk.heading, summary };
+    }));
+  }
+
+  return summaries;
 }
 
 export async function summarizeDocument(
   params: SummarizeParams
 ): Promise<PresentationStructure> {
-  const { content, title, slideCount, customPrompt } = params;
+  const { title, slideCount, notesLength, signal } = params;
 
-  // Use mock data when no API key is configured (for local development/testing)
-  if (shouldUseMock()) {
-    console.log("[Mock Mode] Returning mock slides (no GEMINI_API_KEY configured)");
-    return generateMockSlides(title, slideCount);
-  }
+  // Personal data and secrets never reach the model: they are replaced with
+  // placeholders here, and the restorable ones are put back into the slides
+  const redaction = createRedactionSession();
+  const content = redaction.redact(params.content);
+  const customPrompt = params.customPrompt && redaction.redact(params.customPrompt);
+  const document = params.document && redaction.redactDocument(params.document);
+  const sources = params.sources?.map((source) => ({ ...source, title: redaction.redact(source.title) }));
+  params.onRedactions?.(redaction.report());
 
-  const prompt = buildExecutivePrompt({
+  const outline = document ? buildDocumentOutline(document) : undefined;
+  const images = document ? getDocumentImages(document) : new Map<string, string>();
+  // Documents that read like instructions to the model get an extra caution
+  const suspicious = detectPromptInjection(content).length > 0;
+
+  const provider = withUsageTracking(getProvider(params.provider), params.onUsage);
+  const promptBudget = getPromptBudget(provider);
+
+  let prompt = buildExecutivePrompt({
     content,
     slideCount,
     customPrompt,
+    notesLength,
+    outline,
+    sources,
+    suspicious,
   });
 
-  const model = getGenAI().getGenerativeModel({ model: "gemini-3-flash-preview" });
-
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const text = response.text();
-
-  if (!text) {
-    throw new Error("No response from Gemini");
-  }
+  // Documents that do not fit in one prompt are summarized section by section
+  // and then synthesized; the notes are re-condensed until they fit.
+  if (estimateTokens(prompt) > promptBudget) {
+    const chunkTokens = Math.floor(promptBudget * CHUNK_BUDGET_RATIO);
+    let sectionSummaries = await summarizeSections(provider, content, chunkTokens, customPrompt, signal);
+    prompt = buildSynthesisPrompt({
+      sectionSummaries,
+      slideCount,
+      customPrompt,
+      notesLength,
+      outline,
+      sources,
+      suspicious,
+    });
 
-  // Parse JSON response
-  let parsed: SlideResponse;
-  try {
-    // Clean up potential markdown code blocks
-    let jsonStr = text.trim();
-    if (jsonStr.startsWith("```json")) {
-      jsonStr = jsonStr.slice(7);
-    }
-    if (jsonStr.startsWith("```")) {
-      jsonStr = jsonStr.slice(3);
-    }
-    if (jsonStr.endsWith("```")) {
-      jsonStr = jsonStr.slice(0, -3);
+    for (
+      let pass = 0;
+      pass < MAX_REDUCE_PASSES && estimateTokens(prompt) > promptBudget && sectionSummaries.length > 1;
+      pass++
+    ) {
+      const notes = sectionSummaries
+        .map(({ heading, summary }) => `## ${heading}\n${summary.trim()}`)
+        .join("\n\n");
+      sectionSummaries = await summarizeSections(provider, notes, chunkTokens, customPrompt, signal);
+      prompt = buildSynthesisPrompt({
+        sectionSummaries,
+        slideCount,
+        customPrompt,
+        notesLength,
+        outline,
+        sources,
+        suspicious,
+      });
     }
-    parsed = JSON.parse(jsonStr.trim());
-  } catch {
-    throw new Error(`Failed to parse Gemini response as JSON: ${text}`);
-  }
 
-  // Validate structure
-  if (!parsed.slides || !Array.isArray(parsed.slides)) {
-    throw new Error("Invalid response structure: missing slides array");
+    console.log(`[Map-Reduce] Summarized document in ${sectionSummaries.length} sections with ${provider.name}`);
   }
 
-  const slides: SlideContent[] = parsed.slides.map((slide, index) => {
-    if (!slide.title || !Array.isArray(slide.bullets)) {
-      throw new Error(`Invalid slide structure at index ${index}`);
+  // Drop notes a model volunteered when none were requested, and keep only
+  // citations that can be found in the document
+  const passages = buildCitationPassages(content, document);
+  const finishSlide = (slide: SlideContent) => {
+    if (notesLength === "none") {
+      delete slide.speakerNotes;
     }
-    return {
-      title: slide.title,
-      bullets: slide.bullets.filter((b) => typeof b === "string" && b.trim()),
-    };
+    return redaction.restore(resolveCitations(slide, passages));
+  };
+
+  const { onSlide } = params;
+  // Slides may only link to what the document or the user's instructions contain
+  const source = { text: [content, customPrompt].filter(Boolean).join("\n"), images };
+  const slides = await generateSlides(provider, prompt, slideCount, source, {
+    signal,
+    onSlide: onSlide && ((slide, index) => onSlide(finishSlide(slide), index)),
+    onRetry: params.onRetry,
   });
 
   return {
     title,
-    slides,
+    slides: slides.map(finishSlide),
   };
 }
@@ -0,0 +1,318 @@
+import { slides_v1 } from "googleapis";
+import { DeckChanges, DeckUpdateErrorCode } from "../types/index.js";
+import { MasterLayout } from "./masterDeck.js";
+import { PresentationRequests, SlidesRequest, TitleSlideIds } from "./slideRequests.js";
+
+export class DeckUpdateError extends Error {
+  constructor(
+    public code: DeckUpdateErrorCode,
+    message: string,
+    public httpStatus: number
+  ) {
+    super(message);
+    this.name = "DeckUpdateError";
+  }
+}
+
+// Text of a shape, or of a table cell keyed as "table_0[row,column]"
+type TextByObject = Record<string, string>;
+
+// What a template or theme sets on a slide or shape; colors as hex
+interface ObjectStyle {
+  fill?: string;
+  color?: string;
+  fontFamily?: string;
+  fontSize?: number;
+}
+
+type StyleByObject = Record<string, ObjectStyle>;
+
+export interface DeckSlide {
+  objectId: string;
+  // Objects on the slide, including its tables' cells
+  objectIds: string[];
+  texts: TextByObject;
+  // The slide's background under its own ID, and its shapes' fills and text styles
+  styles: StyleByObject;
+  notes: string;
+  // Title placeholder, read for the title slide
+  titleShapeId?: string;
+  // The layout the slide was created from
+  layoutId?: string;
+}
+
+// Fields of presentations.get that readDeckSlides needs
+export const DECK_SLIDE_FIELDS = [
+  "slides(objectId",
+  "pageProperties(pageBackgroundFill(solidFill(color)))",
+  "pageElements(objectId,shape(placeholder(type),shapeProperties(shapeBackgroundFill(solidFill(color))),text(textElements(textRun(content,style(foregroundColor,fontFamily,fontSize))))),table(tableRows(tableCells(location,text(textElements(textRun(content)))))))",
+  "slideProperties(layoutObjectId,notesPage(notesProperties(speakerNotesObjectId),pageElements(objectId,shape(text(textElements(textRun(content))))))))",
+].join(",");
+
+// Content slides keep these IDs across updates, continuations included; other slides were added by hand
+const GENERATED_SLIDE_ID = /^slide_\d+(_\d+)?$/;
+
+// Slides ends every paragraph with a newline, which the inserted text does not have
+function readText(text: slides_v1.Schema$TextContent | undefined): string {
+  const content = (text?.textElements || []).map((element) => element.textRun?.content || "").join("");
+  return content.endsWith("\n") ? content.slice(0, -1) : content;
+}
+
+function cellKey(tableId: string, rowIndex: number, columnIndex: number): string {
+  return `${tableId}[${rowIndex},${columnIndex}]`;
+}
+
+// Slides leaves out color components that are 0, and may not return the exact fractions sent
+function toHex(color: slides_v1.Schema$RgbColor | null | undefined): string | undefined {
+  if (!color) {
+    return undefined;
+  }
+  const components = [color.red, color.green, color.blue].map((value) => Math.round((value ?? 0) * 255));
+  return `#${components.map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function fillStyle(fill: slides_v1.Schema$SolidFill | null | undefined): ObjectStyle {
+  const color = toHex(fill?.color?.rgbColor);
+  return color ? { fill: color } : {};
+}
+
+function textStyle(style: slides_v1.Schema$TextStyle | null | undefined): ObjectStyle {
+  const color = toHex(style?.foregroundColor?.opaqueColor?.rgbColor);
+  return {
+    ...(color && { color }),
+    ...(style?.fontFamily && { fontFamily: style.fontFamily }),
+    ...(style?.fontSize?.magnitude && { fontSize: style.fontSize.magnitude }),
+  };
+}
+
+function addStyle(styles: StyleByObject, objectId: string, style: ObjectStyle): void {
+  if (Object.keys(style).length > 0) {
+    styles[objectId] = { ...styles[objectId], ...style };
+  }
+}
+
+export function readDeckSlides(presentation: slides_v1.Schema$Presentation): DeckSlide[] {
+  return (presentation.slides || []).flatMap((page) => {
+    if (!page.objectId) {
+      return [];
+    }
+    const slide: DeckSlide = { objectId: page.objectId, objectIds: [], texts: {}, styles: {}, notes: "" };
+    if (page.slideProperties?.layoutObjectId) {
+      slide.layoutId = page.slideProperties.layoutObjectId;
+    }
+    addStyle(slide.styles, page.objectId, fillStyle(page.pageProperties?.pageBackgroundFill?.solidFill));
+    for (const element of page.pageElements || []) {
+      if (!element.objectId) {
+        continue;
+      }
+      slide.objectIds.push(element.objectId);
+      if (element.shape?.text) {
+        slide.texts[element.objectId] = readText(element.shape.text);
+      }
+      const firstRun = element.shape?.text?.textElements?.find(({ textRun }) => textRun)?.textRun;
+      addStyle(slide.styles, element.objectId, {
+        ...fillStyle(element.shape?.shapeProperties?.shapeBackgroundFill?.solidFill),
+        ...textStyle(firstRun?.style),
+      });
+      const placeholderType = element.shape?.placeholder?.type;
+      if (!slide.titleShapeId && (placeholderType === "TITLE" || placeholderType === "CENTERED_TITLE")) {
+        slide.titleShapeId = element.objectId;
+      }
+      for (const row of element.table?.tableRows || []) {
+        for (const cell of row.tableCells || []) {
+          const key = cellKey(element.objectId, cell.location?.rowIndex ?? 0, cell.location?.columnIndex ?? 0);
+          slide.texts[key] = readText(cell.text);
+        }
+      }
+    }
+    const notesPage = page.slideProperties?.notesPage;
+    const notesId = notesPage?.notesProperties?.speakerNotesObjectId;
+    const notesShape = notesPage?.pageElements?.find((element) => element.objectId === notesId);
+    slide.notes = readText(notesShape?.shape?.text);
+    return [slide];
+  });
+}
+
+// The requests for the title slide, then those for each content slide in order
+function groupBySlide(requests: SlidesRequest[]): { title: SlidesRequest[]; slides: Map<string, SlidesRequest[]> } {
+  const title: SlidesRequest[] = [];
+  const slides = new Map<string, SlidesRequest[]>();
+  let current = title;
+  for (const request of requests) {
+    if (request.createSlide?.objectId) {
+      current = [];
+      slides.set(request.createSlide.objectId, current);
+    }
+    current.push(request);
+  }
+  return { title, slides };
+}
+
+/**
+ * What a slide's requests put on it: the objects they create (images aside,
+ * since one that cannot be fetched is skipped), their text, and the
+ * background, fills and whole-text styles that come from the template.
+ */
+function expectedContent(requests: SlidesRequest[]): { objectIds: string[]; texts: TextByObject; styles: StyleByObject } {
+  const objectIds: string[] = [];
+  const texts: TextByObject = {};
+  const styles: StyleByObject = {};
+  for (const request of requests) {
+    const created = request.createShape || request.createTable || request.createLine;
+    if (created?.objectId) {
+      objectIds.push(created.objectId);
+    }
+    const insert = request.insertText;
+    if (insert?.objectId && insert.text) {
+      const key = insert.cellLocation
+        ? cellKey(insert.objectId, insert.cellLocation.rowIndex ?? 0, insert.cellLocation.columnIndex ?? 0)
+        : insert.objectId;
+      const existing = texts[key] || "";
+      const index = insert.insertionIndex ?? 0;
+      texts[key] = existing.slice(0, index) + insert.text + existing.slice(index);
+    }
+    const page = request.updatePageProperties;
+    if (page?.objectId) {
+      addStyle(styles, page.objectId, fillStyle(page.pageProperties?.pageBackgroundFill?.solidFill));
+    }
+    const shape = request.updateShapeProperties;
+    if (shape?.objectId) {
+      addStyle(styles, shape.objectId, fillStyle(shape.shapeProperties?.shapeBackgroundFill?.solidFill));
+    }
+    const style = request.updateTextStyle;
+    if (style?.objectId && style.textRange?.type === "ALL" && !style.cellLocation) {
+      addStyle(styles, style.objectId, textStyle(style.style));
+    }
+  }
+  return { objectIds, texts, styles };
+}
+
+function stylesMatch(existing: StyleByObject, expected: StyleByObject): boolean {
+  return Object.entries(expected).every(([objectId, style]) =>
+    Object.entries(style).every(([property, value]) => existing[objectId]?.[property as keyof ObjectStyle] === value)
+  );
+}
+
+/**
+ * A generated slide is unchanged when every object the new requests would
+ * create is still on it with the same text and template styles, and its
+ * speaker notes match. Objects added to the slide by hand are not compared,
+ * but a new template or theme changes every slide it restyles.
+ */
+function isUnchanged(existing: DeckSlide, requests: SlidesRequest[], notes: string): boolean {
+  const expected = expectedContent(requests);
+  return existing.notes === notes &&
+    expected.objectIds.every((objectId) => existing.objectIds.includes(objectId)) &&
+    Object.entries(expected.texts).every(([key, text]) => existing.texts[key] === text) &&
+    stylesMatch(existing.styles, expected.styles);
+}
+
+// The slide Slides created with the presentation, if it is still first
+export function findTitleSlide(slides: DeckSlide[]): TitleSlideIds | undefined {
+  const first = slides[0];
+  if (!first || GENERATED_SLIDE_ID.test(first.objectId)) {
+    return undefined;
+  }
+  return { slideId: first.objectId, titleShapeId: first.titleShapeId };
+}
+
+/**
+ * Whether the deck was made from a master deck: its content slides are laid
+ * out with the master's layouts, where decks built from a theme use BLANK.
+ */
+export function usesMasterLayouts(slides: DeckSlide[], layouts: MasterLayout[]): boolean {
+  const names = new Map(layouts.map(({ objectId, name }) => [objectId, name]));
+  return slides.some(({ objectId, layoutId }) =>
+    GENERATED_SLIDE_ID.test(objectId) && !!layoutId && names.has(layoutId) && names.get(layoutId) !== "BLANK"
+  );
+}
+
+/**
+ * Turn the requests for a new presentation into an update of a deck built
+ * earlier from the same kind of requests. Changed content slides are deleted
+ * and created again in place, new ones follow the slide before them, and
+ * generated slides beyond the new structure are deleted. Slides added by hand
+ * keep their place.
+ */
+export function buildDeckUpdateRequests(params: {
+  slides: DeckSlide[];
+  presentation: PresentationRequests;
+  title: string;
+}): PresentationRequests & { deckChanges: DeckChanges } {
+  const { slides, presentation, title } = params;
+  if (!slides.some(({ objectId }) => GENERATED_SLIDE_ID.test(objectId))) {
+    throw new DeckUpdateError("NOT_A_GENERATED_DECK", "The presentation has no slides generated by doc2slides to update", 400);
+  }
+
+  const grouped = groupBySlide(presentation.requests);
+  const imagesBySlide = new Map<string, SlidesRequest[]>();
+  for (const request of presentation.imageRequests) {
+    const slideId = request.createImage?.elementProperties?.pageObjectId || "";
+    imagesBySlide.set(slideId, [...(imagesBySlide.get(slideId) || []), request]);
+  }
+  const notesBySlide = new Map(presentation.speakerNotes.map(({ slideId, text }) => [slideId, text]));
+  const existing = new Map(slides.map((slide) => [slide.objectId, slide]));
+  const order = slides.map(({ objectId }) => objectId);
+
+  const requests: SlidesRequest[] = [];
+  const imageRequests: SlidesRequest[] = [];
+  const deckChanges: DeckChanges = { unchanged: [], updated: [], added: [], removed: [] };
+
+  // The title slide only when its title or style changed; its old text is cleared first
+  const titleSlide = findTitleSlide(slides);
+  const titleShape = titleSlide?.titleShapeId;
+  const currentTitleSlide = titleSlide && existing.get(titleSlide.slideId);
+  if (
+    currentTitleSlide &&
+    ((titleShape && currentTitleSlide.texts[titleShape] !== title) ||
+      !stylesMatch(currentTitleSlide.styles, expectedContent(grouped.title).styles))
+  ) {
+    if (titleShape && currentTitleSlide.texts[titleShape]) {
+      requests.push({ deleteText: { objectId: titleShape, textRange: { type: "ALL" } } });
+    }
+    requests.push(...grouped.title);
+  }
+
+  let previousIndex = titleSlide ? 0 : -1;
+  for (const [slideId, slideRequests] of grouped.slides) {
+    const current = existing.get(slideId);
+    const notes = notesBySlide.get(slideId) || "";
+    if (current && isUnchanged(current, slideRequests, notes)) {
+      deckChanges.unchanged.push(slideId);
+      previousIndex = order.indexOf(slideId);
+      continue;
+    }
+
+    let insertionIndex = previousIndex + 1;
+    if (current) {
+      insertionIndex = order.indexOf(slideId);
+      order.splice(insertionIndex, 1);
+      requests.push({ deleteObject: { objectId: slideId } });
+      deckChanges.updated.push(slideId);
+    } else {
+      deckChanges.added.push(slideId);
+    }
+    order.splice(insertionIndex, 0, slideId);
+    previousIndex = insertionIndex;
+
+    const [createSlide, ...fill] = slideRequests;
+    requests.push({ createSlide: { ...createSlide.createSlide, insertionIndex } }, ...fill);
+    imageRequests.push(...(imagesBySlide.get(slideId) || []));
+  }
+
+  for (const { objectId } of slides) {
+    if (GENERATED_SLIDE_ID.test(objectId) && !grouped.slides.has(objectId)) {
+      requests.push({ deleteObject: { objectId } });
+      deckChanges.removed.push(objectId);
+    }
+  }
+
+  const replaced = new Set([...deckChanges.updated, ...deckChanges.added]);
+  return {
+    requests,
+    imageRequests,
+    speakerNotes: presentation.speakerNotes.filter(({ slideId }) => replaced.has(slideId)),
+    layoutAdjustments: presentation.layoutAdjustments,
+    deckChanges,
+  };
+}
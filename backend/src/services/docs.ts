@@ -1,4 +1,13 @@
-import { GoogleDocsContent, DocsErrorCode } from "../types/index.js";
+import {
+  DocsErrorCode,
+  DocumentBlock,
+  GoogleDocsContent,
+  ListItem,
+  StructuredDocument,
+  StructuredSection,
+  TextSpan,
+} from "../types/index.js";
+import { extractDocumentSection, mergeSpans, renderDocumentMarkdown } from "./document.js";
 
 export class DocsError extends Error {
   constructor(
@@ -41,12 +50,57 @@ interface DocsApiParagraph {
   elements?: Array<{
     textRun?: {
       content?: string;
+      textStyle?: {
+        bold?: boolean;
+        italic?: boolean;
+        link?: { url?: string };
+      };
+    };
+    inlineObjectElement?: {
+      inlineObjectId?: string;
     };
   }>;
+  paragraphStyle?: {
+    namedStyleType?: string;
+    headingId?: string;
+  };
+  bullet?: {
+    listId?: string;
+    nestingLevel?: number;
+  };
+}
+
+interface DocsApiTable {
+  tableRows?: Array<{
+    tableCells?: Array<{
+      content?: DocsApiContent[];
+    }>;
+  }>;
 }
 
 interface DocsApiContent {
   paragraph?: DocsApiParagraph;
+  table?: DocsApiTable;
+}
+
+interface DocsApiList {
+  listProperties?: {
+    nestingLevels?: Array<{
+      glyphType?: string;
+    }>;
+  };
+}
+
+interface DocsApiInlineObject {
+  inlineObjectProperties?: {
+    embeddedObject?: {
+      title?: string;
+      description?: string;
+      imageProperties?: {
+        contentUri?: string;
+      };
+    };
+  };
 }
 
 interface DocsApiResponse {
@@ -54,8 +108,13 @@ interface DocsApiResponse {
   body?: {
     content?: DocsApiContent[];
   };
+  lists?: Record<string, DocsApiList>;
+  inlineObjects?: Record<string, DocsApiInlineObject>;
 }
 
+// Glyph types of bulleted (unordered) list levels
+const UNORDERED_GLYPH_TYPES = ["GLYPH_TYPE_UNSPECIFIED", "NONE"];
+
 /**
  * Extract plain text from Google Docs API document structure
  */
@@ -79,6 +138,150 @@ export function extractTextFromDocument(document: DocsApiResponse): string {
   return text.trim();
 }
 
+function paragraphSpans(paragraph: DocsApiParagraph): TextSpan[] {
+  const spans = (paragraph.elements || []).flatMap((element) => {
+    const run = element.textRun;
+    if (!run?.content) {
+      return [];
+    }
+    const style = run.textStyle || {};
+    return [{
+      text: run.content.replace(/\n$/, "").replace(/\u000b/g, "\n"),
+      ...(style.bold && { bold: true }),
+      ...(style.italic && { italic: true }),
+      ...(style.link?.url && { link: style.link.url }),
+    }];
+  });
+  return mergeSpans(spans);
+}
+
+function headingLevel(paragraph: DocsApiParagraph): number {
+  const style = paragraph.paragraphStyle?.namedStyleType || "";
+  if (style === "TITLE") {
+    return 1;
+  }
+  const match = style.match(/^HEADING_([1-6])$/);
+  return match ? Number(match[1]) : 0;
+}
+
+function isOrderedList(document: DocsApiResponse, listId: string | undefined, depth: number): boolean {
+  const glyphType = listId
+    ? document.lists?.[listId]?.listProperties?.nestingLevels?.[depth]?.glyphType
+    : undefined;
+  return !!glyphType && !UNORDERED_GLYPH_TYPES.includes(glyphType);
+}
+
+// Images placed in the paragraph; drawings and charts without an image URI are skipped
+function paragraphImages(document: DocsApiResponse, paragraph: DocsApiParagraph): DocumentBlock[] {
+  return (paragraph.elements || []).flatMap((element): DocumentBlock[] => {
+    const id = element.inlineObjectElement?.inlineObjectId;
+    const embedded = id ? document.inlineObjects?.[id]?.inlineObjectProperties?.embeddedObject : undefined;
+    const uri = embedded?.imageProperties?.contentUri;
+    if (!id || !uri) {
+      return [];
+    }
+    const description = (embedded.title || embedded.description || "").trim();
+    return [{ type: "image", id, uri, ...(description && { description }) }];
+  });
+}
+
+function tableCellSpans(content: DocsApiContent[] = []): TextSpan[] {
+  const paragraphs = content
+    .filter((element) => element.paragraph)
+    .map((element) => paragraphSpans(element.paragraph!))
+    .filter((spans) => spans.length > 0);
+  return mergeSpans(paragraphs.flatMap((spans, index) => index === 0 ? spans : [{ text: " " }, ...spans]));
+}
+
+/**
+ * Convert a Docs API document into the structured representation: a new
+ * section at every heading, consecutive list paragraphs grouped into one
+ * list, tables kept as rows of cells and inline images after the paragraph
+ * they appear in. Inline bold, italic and links are preserved as span styles.
+ * With the document's ID, headings carry a link to their place in the Doc.
+ */
+export function parseDocumentStructure(document: DocsApiResponse, documentId?: string): StructuredDocument {
+  const sections: StructuredSection[] = [];
+  let current: StructuredSection = { heading: "", level: 0, blocks: [] };
+  let list: { listId?: string; block: Extract<DocumentBlock, { type: "list" }> } | null = null;
+
+  const flushSection = () => {
+    if (current.heading || current.blocks.length > 0) {
+      sections.push(current);
+    }
+  };
+
+  for (const element of document.body?.content || []) {
+    if (element.table) {
+      list = null;
+      const rows = (element.table.tableRows || []).map((row) =>
+        (row.tableCells || []).map((cell) => tableCellSpans(cell.content))
+      );
+      if (rows.length > 0) {
+        current.blocks.push({ type: "table", rows });
+      }
+      continue;
+    }
+
+    const paragraph = element.paragraph;
+    if (!paragraph) {
+      continue;
+    }
+
+    const spans = paragraphSpans(paragraph);
+    const level = headingLevel(paragraph);
+    if (level > 0) {
+      list = null;
+      const heading = spans.map((span) => span.text).join("").trim();
+      if (heading) {
+        flushSection();
+        const headingId = paragraph.paragraphStyle?.headingId;
+        current = {
+          heading,
+          level,
+          blocks: [],
+          ...(documentId && headingId && { url: `https://docs.google.com/document/d/${documentId}/edit#heading=${headingId}` }),
+        };
+      }
+      continue;
+    }
+
+    const images = paragraphImages(document, paragraph);
+    if (spans.every((span) => !span.text.trim())) {
+      if (images.length > 0) {
+        list = null;
+        current.blocks.push(...images);
+      }
+      continue;
+    }
+
+    if (paragraph.bullet) {
+      const depth = paragraph.bullet.nestingLevel || 0;
+      const item: ListItem = { spans, depth };
+      if (list && list.listId === paragraph.bullet.listId) {
+        list.block.items.push(item);
+      } else {
+        list = {
+          listId: paragraph.bullet.listId,
+          block: { type: "list", ordered: isOrderedList(document, paragraph.bullet.listId, 0), items: [item] },
+        };
+        current.blocks.push(list.block);
+      }
+      if (images.length > 0) {
+        list = null;
+        current.blocks.push(...images);
+      }
+      continue;
+    }
+
+    list = null;
+    current.blocks.push({ type: "paragraph", spans }, ...images);
+  }
+
+  flushSection();
+  return { title: document.title || "Untitled Document", sections };
+}
+
 /**
  * Fetch document content using the public export URL.
  * This works for "anyone with the link" documents without API authentication.
@@ -170,14 +373,41 @@ async function fetchViaDriveExport(
   return { title, content: content.trim() };
 }
 
+/**
+ * Narrow fetched content to one heading's section. Needs the document
+ * structure, so plain-text exports cannot be narrowed.
+ */
+function selectSection(docsContent: GoogleDocsContent, sectionHeading: string): GoogleDocsContent {
+  if (!docsContent.document) {
+    throw new DocsError(
+      "SECTION_NOT_FOUND",
+      "sectionHeading needs the document's headings, but it could only be read as plain text",
+      400
+    );
+  }
+
+  const document = extractDocumentSection(docsContent.document, sectionHeading);
+  if (!document) {
+    throw new DocsError("SECTION_NOT_FOUND", `No heading "${sectionHeading}" found in the document`, 400);
+  }
+  return { title: document.title, content: renderDocumentMarkdown(document), document };
+}
+
 /**
  * Fetch content from a Google Docs URL using the Docs API
- * Falls back to Drive API export for "anyone with the link" documents
+ * Falls back to Drive API export for "anyone with the link" documents.
+ * With a sectionHeading only that heading's section is returned, titled after it.
  */
 export async function fetchGoogleDocsContent(
   url: string,
-  accessToken: string
+  accessToken: string,
+  options: { sectionHeading?: string } = {}
 ): Promise<GoogleDocsContent> {
+  const docsContent = await fetchDocument(url, accessToken);
+  return options.sectionHeading ? selectSection(docsContent, options.sectionHeading) : docsContent;
+}
+
+async function fetchDocument(url: string, accessToken: string): Promise<GoogleDocsContent> {
   const documentId = extractDocumentId(url);
 
   const response = await fetch(
@@ -207,9 +437,11 @@ export async function fetchGoogleDocsContent(
     );
   }
 
-  const document: DocsApiResponse = await response.json();
-  const content = extractTextFromDocument(document);
-  const title = document.title || "Untitled Document";
+  const apiDocument: DocsApiResponse = await response.json();
+  const document = parseDocumentStructure(apiDocument, documentId);
+  // Markdown keeps headings, lists, tables and emphasis visible to the model;
+  // fall back to plain text for documents with no recognizable structure
+  const content = renderDocumentMarkdown(document) || extractTextFromDocument(apiDocument);
 
-  return { title, content };
+  return { title: document.title, content, document };
 }
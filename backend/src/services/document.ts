@@ -0,0 +1,154 @@
+import { DocumentBlock, StructuredDocument, StructuredSection, TextSpan } from "../types/index.js";
+
+// Headings at or above this level are the ones slides are planned around
+export const OUTLINE_MAX_LEVEL = 2;
+
+function sameStyle(a: TextSpan, b: TextSpan): boolean {
+  return !!a.bold === !!b.bold && !!a.italic === !!b.italic && a.link === b.link;
+}
+
+/**
+ * Merge adjacent spans that share a style and drop empty ones, so each
+ * emphasized phrase renders as a single run
+ */
+export function mergeSpans(spans: TextSpan[]): TextSpan[] {
+  const merged: TextSpan[] = [];
+  for (const span of spans) {
+    if (!span.text) {
+      continue;
+    }
+    const previous = merged[merged.length - 1];
+    if (previous && sameStyle(previous, span)) {
+      previous.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+export function spansToText(spans: TextSpan[]): string {
+  return spans.map((span) => span.text).join("");
+}
+
+/**
+ * Inline Markdown for a run of text. Markers go inside surrounding
+ * whitespace, which Markdown would otherwise not treat as emphasis.
+ */
+export function spansToMarkdown(spans: TextSpan[]): string {
+  return spans
+    .map((span) => {
+      const match = span.text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+      const [, leading, core, trailing] = match || ["", "", span.text, ""];
+      if (!core) {
+        return span.text;
+      }
+      let text = core;
+      if (span.italic) {
+        text = `*${text}*`;
+      }
+      if (span.bold) {
+        text = `**${text}**`;
+      }
+      if (span.link) {
+        text = `[${text}](${span.link})`;
+      }
+      return `${leading}${text}${trailing}`;
+    })
+    .join("");
+}
+
+function tableCellToMarkdown(cell: TextSpan[]): string {
+  return spansToMarkdown(cell).replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+function blockToMarkdown(block: DocumentBlock): string {
+  switch (block.type) {
+    case "paragraph":
+      return spansToMarkdown(block.spans).trim();
+    case "list": {
+      const counters: number[] = [];
+      return block.items
+        .map((item) => {
+          counters.length = item.depth + 1;
+          counters[item.depth] = (counters[item.depth] || 0) + 1;
+          const marker = block.ordered ? `${counters[item.depth]}.` : "-";
+          return `${"  ".repeat(item.depth)}${marker} ${spansToMarkdown(item.spans).trim()}`;
+        })
+        .join("\n");
+    }
+    case "table": {
+      const [header, ...rows] = block.rows;
+      if (!header) {
+        return "";
+      }
+      const line = (cells: TextSpan[][]) => `| ${cells.map(tableCellToMarkdown).join(" | ")} |`;
+      return [line(header), `| ${header.map(() => "---").join(" | ")} |`, ...rows.map(line)].join("\n");
+    }
+    case "image":
+      // Slides refer to the image by this ID; the URI is not shown to the model
+      return `![${(block.description || "Image").replace(/[[\]]/g, "")}](image:${block.id})`;
+  }
+}
+
+function sectionToMarkdown(section: StructuredSection): string {
+  const parts = section.heading ? [`${"#".repeat(section.level)} ${section.heading}`] : [];
+  parts.push(...section.blocks.map(blockToMarkdown).filter(Boolean));
+  return parts.join("\n\n");
+}
+
+/**
+ * Render the document as Markdown for the prompt. Headings use "#" markers,
+ * which is also what the long-document chunker splits on.
+ */
+export function renderDocumentMarkdown(document: StructuredDocument): string {
+  return document.sections.map(sectionToMarkdown).filter(Boolean).join("\n\n");
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * The part of the document under the first heading matching `heading`
+ * (ignoring case and spacing), including its subsections and titled after
+ * the heading. Null when no heading matches.
+ */
+export function extractDocumentSection(document: StructuredDocument, heading: string): StructuredDocument | null {
+  const wanted = normalizeHeading(heading);
+  const start = document.sections.findIndex((section) => section.heading && normalizeHeading(section.heading) === wanted);
+  if (start === -1) {
+    return null;
+  }
+
+  const { level } = document.sections[start];
+  let end = start + 1;
+  while (end < document.sections.length && document.sections[end].level > level) {
+    end++;
+  }
+  return { title: document.sections[start].heading, sections: document.sections.slice(start, end) };
+}
+
+/**
+ * The author's outline: one indented line per heading up to OUTLINE_MAX_LEVEL,
+ * or an empty string when the document has no such headings
+ */
+export function buildDocumentOutline(document: StructuredDocument): string {
+  return document.sections
+    .filter((section) => section.heading && section.level <= OUTLINE_MAX_LEVEL)
+    .map((section) => `${"  ".repeat(section.level - 1)}- ${section.heading} (H${section.level})`)
+    .join("\n");
+}
+
+// Image URIs by inline object ID, for resolving the images slides refer to
+export function getDocumentImages(document: StructuredDocument): Map<string, string> {
+  const images = new Map<string, string>();
+  for (const section of document.sections) {
+    for (const block of section.blocks) {
+      if (block.type === "image") {
+        images.set(block.id, block.uri);
+      }
+    }
+  }
+  return images;
+}
@@ -0,0 +1,117 @@
+import { FactCheckErrorCode, FactCheckWarning, PresentationStructure, SlideContent } from "../types/index.js";
+
+export class FactCheckError extends Error {
+  constructor(
+    public code: FactCheckErrorCode,
+    message: string,
+    public httpStatus: number,
+    public warnings: FactCheckWarning[]
+  ) {
+    super(message);
+    this.name = "FactCheckError";
+  }
+}
+
+interface NumberMention {
+  text: string;
+  value: number;
+  // Half a unit in the last written digit, so rounded figures still match
+  tolerance: number;
+}
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  trillion: 1e12,
+};
+
+// Sources often spell out small numbers that slides write as digits
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, twenty: 20, thirty: 30, forty: 40, fifty: 50, hundred: 100,
+  half: 0.5, double: 2, twice: 2, triple: 3, dozen: 12,
+};
+
+// Currency symbol, digits (1,234.5 or 1234), then a percent sign or scale word.
+// Digits inside words (Q3, H2, v1.2, 1st) are not numbers.
+const NUMBER_PATTERN =
+  /(?<![\w.])[$€£¥]?\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s?(%|(?:percent|k|mm?|bn?|t|thousand|million|billion|trillion|x)\b))?(?![\w%])/gi;
+const NUMBER_WORD_PATTERN = new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join("|")})\\b`, "gi");
+
+function extractNumbers(text: string): NumberMention[] {
+  return [...text.matchAll(NUMBER_PATTERN)].map((match) => {
+    const [, whole, decimals = "", suffix = ""] = match;
+    const scale = SCALES[suffix.toLowerCase()] ?? 1;
+    return {
+      text: match[0].trim(),
+      value: Number(`${whole.replace(/,/g, "")}.${decimals || "0"}`) * scale,
+      tolerance: 0.5 * 10 ** -decimals.length * scale,
+    };
+  });
+}
+
+function extractSourceValues(source: string): number[] {
+  const values = extractNumbers(source).map(({ value }) => value);
+  for (const match of source.matchAll(NUMBER_WORD_PATTERN)) {
+    values.push(NUMBER_WORDS[match[1].toLowerCase()]);
+  }
+  return values;
+}
+
+// The text a slide shows; speaker notes and citations are not on the slide
+function slideTexts(slide: SlideContent): string[] {
+  switch (slide.type) {
+    case "agenda":
+      return [slide.title, ...slide.items];
+    case "section":
+      return [slide.title, slide.subtitle || ""];
+    case "comparison":
+      return [slide.title, slide.left.heading, ...slide.left.bullets, slide.right.heading, ...slide.right.bullets];
+    case "kpi":
+      return [slide.title, ...slide.metrics.flatMap((metric) => [metric.value, metric.label]), slide.context || ""];
+    case "quote":
+      return [slide.title, slide.quote, slide.attribution || ""];
+    case "timeline":
+      return [slide.title, ...slide.events.flatMap((event) => [event.date, event.label])];
+    case "table":
+      return [slide.title, ...slide.columns, ...slide.rows.flat()];
+    default:
+      return [slide.title, ...slide.bullets];
+  }
+}
+
+/**
+ * Find the numbers, percentages and amounts on each slide that do not appear
+ * in the source. Scales are compared by value ("$4M" matches "4 million") and
+ * rounding is allowed ("25%" matches "24.8%"); anything else is reported.
+ */
+export function factCheckStructure(structure: PresentationStructure, source: string): FactCheckWarning[] {
+  // The deck title comes from the document title, which slides may repeat
+  const sourceValues = extractSourceValues(`${structure.title}\n${source}`);
+  const isInSource = ({ value, tolerance }: NumberMention) =>
+    sourceValues.some((candidate) => Math.abs(candidate - value) <= tolerance * (1 + 1e-9));
+
+  return structure.slides.flatMap((slide, slideIndex) => {
+    const numbers = slideTexts(slide)
+      .flatMap(extractNumbers)
+      .filter((mention) => !isInSource(mention))
+      .map((mention) => mention.text);
+    const unique = [...new Set(numbers)];
+    return unique.length > 0 ? [{ slideIndex, slideTitle: slide.title, numbers: unique }] : [];
+  });
+}
+
+// Thrown in strict mode instead of creating slides with unverified numbers
+export function unverifiedNumbersError(warnings: FactCheckWarning[]): FactCheckError {
+  const details = warnings
+    .map(({ slideIndex, numbers }) => `slides[${slideIndex}] (${numbers.map((number) => `"${number}"`).join(", ")})`)
+    .join("; ");
+  return new FactCheckError("UNVERIFIED_NUMBERS", `Numbers not found in the source: ${details}`, 422, warnings);
+}
@@ -0,0 +1,82 @@
+import { SlideContent, SuspiciousContent, SuspiciousContentKind } from "../types/index.js";
+
+const MAX_FINDINGS = 10;
+const EXCERPT_CONTEXT_CHARS = 40;
+
+// Phrasings aimed at the model rather than at the document's readers. They
+// only flag a document; the delimiters and SYSTEM_PROMPT do the protecting.
+const HEURISTICS: Array<{ kind: SuspiciousContentKind; pattern: RegExp }> = [
+  {
+    kind: "instruction-override",
+    pattern: /\b(?:ignore|disregard|forget|override)\s+(?:(?:all|any|the|your|of)\s+)*(?:previous|prior|above|earlier|preceding|system|original)\s+(?:instructions?|prompts?|rules|directions)\b/gi,
+  },
+  { kind: "instruction-override", pattern: /\bnew\s+(?:instructions|rules)\s*:/gi },
+  {
+    kind: "role-change",
+    pattern: /\b(?:you\s+are\s+now|from\s+now\s+on,?\s+you\s+(?:are|will)|pretend\s+(?:to\s+be|you\s+are))\b|\bif\s+you\s+are\s+an?\s+(?:ai|llm|language\s+model|assistant)\b/gi,
+  },
+  {
+    kind: "prompt-extraction",
+    pattern: /\b(?:reveal|print|repeat|show|output)\s+(?:your|the)\s+(?:system\s+)?(?:prompt|instructions)\b/gi,
+  },
+  { kind: "chat-markup", pattern: /<\|im_(?:start|end)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?(?:system|assistant)>/gi },
+  {
+    kind: "output-manipulation",
+    pattern: /\b(?:instead|only)\s*,?\s+(?:respond|reply|answer|output)\s+with\b|\b(?:include|add|insert)\s+(?:this|the\s+following)\s+(?:link|url)\b/gi,
+  },
+  // Bidirectional overrides, or runs of zero-width characters, that hide text from human readers
+  { kind: "hidden-text", pattern: /[\u202A-\u202E\u2066-\u2069]|[\u200B\u200C\u2060\uFEFF]{3,}/g },
+];
+
+const INVISIBLE_CHARACTERS = /[\u200B\u200C\u2060\uFEFF\u202A-\u202E\u2066-\u2069]/g;
+
+function excerptAround(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - EXCERPT_CONTEXT_CHARS);
+  const to = Math.min(text.length, end + EXCERPT_CONTEXT_CHARS);
+  const excerpt = text
+    .slice(from, to)
+    .replace(INVISIBLE_CHARACTERS, (char) => `[U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}]`)
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${from > 0 ? "..." : ""}${excerpt}${to < text.length ? "..." : ""}`;
+}
+
+// Passages of the document that look like prompt injection, in document order
+export function detectPromptInjection(text: string): SuspiciousContent[] {
+  const findings = HEURISTICS.flatMap(({ kind, pattern }) =>
+    [...text.matchAll(pattern)].map((match) => ({ kind, index: match.index, length: match[0].length }))
+  );
+  return findings
+    .sort((a, b) => a.index - b.index)
+    .slice(0, MAX_FINDINGS)
+    .map(({ kind, index, length }) => ({ kind, excerpt: excerptAround(text, index, index + length) }));
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'()[\]{}]+|\bwww\.[^\s<>"'()[\]{}]+/gi;
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
+
+/**
+ * Problems for URLs in a slide that do not appear in the source; an injected
+ * document cannot then smuggle links onto slides. Image URLs are set from
+ * the document after this check.
+ */
+export function checkSlideUrls(slide: SlideContent, index: number, source: string): string[] {
+  const known = source.toLowerCase();
+  const urls = collectStrings({ ...slide, imageUrl: undefined })
+    .flatMap((text) => text.match(URL_PATTERN) ?? [])
+    .map((url) => url.replace(/[.,;:!?]+$/, ""))
+    .filter((url) => !known.includes(url.toLowerCase()));
+  return [...new Set(urls)].map((url) => `slides[${index}] contains a URL that is not in the document: ${url}`);
+}
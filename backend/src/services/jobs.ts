@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { GenerationJob, JobKind, JobResult, JobStage } from "../types/index.js";
+import { FactCheckError } from "./factCheck.js";
+
+const DEFAULT_JOB_STORE_DIR = ".jobs";
+// Finished jobs are kept this long so clients can fetch the result
+const DEFAULT_JOB_TTL_MS = 60 * 60 * 1000;
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Progress reported when a job enters each stage
+const STAGE_PROGRESS: Record<JobStage, number> = {
+  fetching: 10,
+  summarizing: 30,
+  rendering: 80,
+};
+
+/**
+ * Persistence for job records. Implementations only need to store and
+ * return whole records; all state transitions happen in this module.
+ */
+export interface JobStore {
+  save(job: GenerationJob): Promise<void>;
+  get(id: string): Promise<GenerationJob | null>;
+  // Delete finished jobs last updated before the cutoff
+  prune(before: Date): Promise<void>;
+}
+
+function isFinished(job: GenerationJob): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, GenerationJob>();
+
+  return {
+    async save(job) {
+      jobs.set(job.id, { ...job });
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+    async prune(before) {
+      for (const [id, job] of jobs) {
+        if (isFinished(job) && new Date(job.updatedAt) < before) {
+          jobs.delete(id);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * One JSON file per job, so records survive restarts and can live on a
+ * volume shared by several instances
+ */
+export function createFileJobStore(directory: string): JobStore {
+  const jobPath = (id: string) => path.join(directory, `${id}.json`);
+
+  const get = async (id: string): Promise<GenerationJob | null> => {
+    // IDs come from the URL; only accept our own format so they cannot escape the directory
+    if (!JOB_ID_PATTERN.test(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await readFile(jobPath(id), "utf8"));
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async save(job) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(jobPath(job.id), JSON.stringify(job));
+    },
+    get,
+    async prune(before) {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch {
+        return;
+      }
+      for (const file of files.filter((name) => name.endsWith(".json"))) {
+        const job = await get(file.slice(0, -".json".length));
+        if (job && isFinished(job) && new Date(job.updatedAt) < before) {
+          await rm(jobPath(job.id), { force: true });
+        }
+      }
+    },
+  };
+}
+
+let jobStore: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    const configured = process.env.JOB_STORE || "memory";
+    if (configured === "memory") {
+      jobStore = createMemoryJobStore();
+    } else if (configured === "file") {
+      jobStore = createFileJobStore(process.env.JOB_STORE_DIR || DEFAULT_JOB_STORE_DIR);
+    } else {
+      throw new Error(`Unknown JOB_STORE "${configured}". Must be one of: memory, file`);
+    }
+  }
+  return jobStore;
+}
+
+// Swap in another backend (e.g. a database-backed store); null restores the configured default
+export function setJobStore(store: JobStore | null): void {
+  jobStore = store;
+}
+
+function getJobTtlMs(): number {
+  const configured = Number(process.env.JOB_TTL_MS);
+  return configured > 0 ? configured : DEFAULT_JOB_TTL_MS;
+}
+
+export type StageReporter = (stage: JobStage) => Promise<void>;
+
+/**
+ * Record a new job and run it in the background. Returns once the pending
+ * record is stored; progress and the outcome are written to the store.
+ */
+export async function startJob(
+  kind: JobKind,
+  run: (setStage: StageReporter) => Promise<JobResult>,
+  apiKeyId?: string
+): Promise<GenerationJob> {
+  const store = getJobStore();
+  const now = new Date();
+  const job: GenerationJob = {
+    id: randomUUID(),
+    kind,
+    status: "pending",
+    progress: 0,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...(apiKeyId && { apiKeyId }),
+  };
+
+  await store.prune(new Date(now.getTime() - getJobTtlMs()));
+  await store.save(job);
+
+  const snapshot = { ...job };
+  const update = async (changes: Partial<GenerationJob>) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await store.save(job);
+  };
+
+  void (async () => {
+    try {
+      await update({ status: "running" });
+      const result = await run((stage) => update({ stage, progress: STAGE_PROGRESS[stage] }));
+      await update({ status: "succeeded", progress: 100, result });
+    } catch (error) {
+      console.error(`Job ${job.id} error:`, error);
+      const code = error instanceof Error ? (error as { code?: unknown }).code : undefined;
+      await update({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        ...(typeof code === "string" && { code }),
+        ...(error instanceof FactCheckError && { warnings: error.warnings }),
+      }).catch((storeError) => console.error(`Job ${job.id} could not be saved:`, storeError));
+    }
+  })();
+
+  return snapshot;
+}
+
+export async function getJob(id: string): Promise<GenerationJob | null> {
+  return getJobStore().get(id);
+}
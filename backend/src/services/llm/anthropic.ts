@@ -0,0 +1,115 @@
+import { LlmCompletionRequest, LlmError, LlmProvider } from "./provider.js";
+import { readServerSentEvents } from "./sse.js";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5";
+const MAX_OUTPUT_TOKENS = 4096;
+// Structured output is requested by forcing a call to this tool
+const RESPONSE_TOOL_NAME = "submit_response";
+
+interface AnthropicMessageResponse {
+  content?: Array<{
+    type: string;
+    text?: string;
+    name?: string;
+    input?: unknown;
+  }>;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+    partial_json?: string;
+  };
+}
+
+async function sendMessage(
+  apiKey: string,
+  model: string,
+  { prompt, system, responseSchema, signal }: LlmCompletionRequest,
+  stream: boolean
+): Promise<Response> {
+  const structuredOutput = responseSchema && {
+    tools: [{
+      name: RESPONSE_TOOL_NAME,
+      description: "Submit the response as JSON matching the schema",
+      input_schema: responseSchema,
+    }],
+    tool_choice: { type: "tool", name: RESPONSE_TOOL_NAME },
+  };
+
+  const response = await fetch(ANTHROPIC_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      ...(system && { system }),
+      messages: [{ role: "user", content: prompt }],
+      ...structuredOutput,
+      ...(stream && { stream: true }),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new LlmError(
+      "PROVIDER_REQUEST_FAILED",
+      `Anthropic request failed: ${response.status} ${response.statusText}`,
+      502
+    );
+  }
+
+  return response;
+}
+
+export function createAnthropicProvider(): LlmProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY?.trim() || "";
+
+  return {
+    name: "anthropic",
+    model: process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL,
+    maxInputTokens: 200_000,
+    isConfigured: () => apiKey !== "",
+    async complete(request) {
+      const response = await sendMessage(apiKey, this.model, request, false);
+
+      const data: AnthropicMessageResponse = await response.json();
+      const toolUse = (data.content || []).find(
+        (block) => block.type === "tool_use" && block.name === RESPONSE_TOOL_NAME
+      );
+      if (toolUse) {
+        return JSON.stringify(toolUse.input);
+      }
+      return (data.content || [])
+        .filter((block) => block.type === "text" && block.text)
+        .map((block) => block.text)
+        .join("");
+    },
+    async *stream(request) {
+      const response = await sendMessage(apiKey, this.model, request, true);
+      if (!response.body) {
+        return;
+      }
+
+      for await (const { data } of readServerSentEvents(response.body)) {
+        const event: AnthropicStreamEvent = JSON.parse(data);
+        if (event.type !== "content_block_delta" || !event.delta) {
+          continue;
+        }
+        // Forced tool calls stream their JSON input as partial_json
+        const text = event.delta.type === "input_json_delta" ? event.delta.partial_json : event.delta.text;
+        if (text) {
+          yield text;
+        }
+      }
+    },
+  };
+}
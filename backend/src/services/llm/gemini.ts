@@ -0,0 +1,52 @@
+import { GenerativeModel, GoogleGenerativeAI, ResponseSchema } from "@google/generative-ai";
+import { JsonSchema, LlmProvider } from "./provider.js";
+
+const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+// Lazy initialization to ensure env is loaded first
+let genAI: GoogleGenerativeAI | null = null;
+let genAIKey = "";
+function getGenAI(apiKey: string): GoogleGenerativeAI {
+  if (!genAI || genAIKey !== apiKey) {
+    genAI = new GoogleGenerativeAI(apiKey);
+    genAIKey = apiKey;
+  }
+  return genAI;
+}
+
+function getModel(apiKey: string, modelName: string, responseSchema?: JsonSchema, system?: string): GenerativeModel {
+  return getGenAI(apiKey).getGenerativeModel({
+    model: modelName,
+    ...(system && { systemInstruction: system }),
+    ...(responseSchema && {
+      generationConfig: {
+        responseMimeType: "application/json",
+        // JsonSchema uses the same type names as the SDK's SchemaType enum
+        responseSchema: responseSchema as unknown as ResponseSchema,
+      },
+    }),
+  });
+}
+
+export function createGeminiProvider(): LlmProvider {
+  const apiKey = process.env.GEMINI_API_KEY?.trim() || "";
+
+  return {
+    name: "gemini",
+    model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    maxInputTokens: 1_000_000,
+    isConfigured: () => apiKey !== "",
+    async complete({ prompt, system, responseSchema, signal }) {
+      const model = getModel(apiKey, this.model, responseSchema, system);
+      const result = await model.generateContent(prompt, { signal });
+      return result.response.text();
+    },
+    async *stream({ prompt, system, responseSchema, signal }) {
+      const model = getModel(apiKey, this.model, responseSchema, system);
+      const result = await model.generateContentStream(prompt, { signal });
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
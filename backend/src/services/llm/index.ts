@@ -0,0 +1,107 @@
+import { LlmProviderName } from "../../types/index.js";
+import { createAnthropicProvider } from "./anthropic.js";
+import { createGeminiProvider } from "./gemini.js";
+import { createMockProvider } from "./mock.js";
+import { createLocalProvider, createOpenAiProvider } from "./openai.js";
+import { LlmError, LlmProvider } from "./provider.js";
+
+export { LlmError } from "./provider.js";
+export type { JsonSchema, LlmProvider, LlmCompletionRequest } from "./provider.js";
+
+// Providers are built on demand so they always reflect the loaded environment
+const PROVIDER_FACTORIES: Record<LlmProviderName, () => LlmProvider> = {
+  gemini: createGeminiProvider,
+  anthropic: createAnthropicProvider,
+  openai: createOpenAiProvider,
+  local: createLocalProvider,
+  mock: createMockProvider,
+};
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === "string" && value in PROVIDER_FACTORIES;
+}
+
+/**
+ * Provider used when a request does not ask for one.
+ * LLM_PROVIDER wins; otherwise Gemini when its key is set, else mock mode.
+ */
+export function getDefaultProviderName(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim();
+  if (configured) {
+    if (!isLlmProviderName(configured)) {
+      throw new LlmError(
+        "UNKNOWN_PROVIDER",
+        `Unknown LLM_PROVIDER "${configured}"`,
+        500
+      );
+    }
+    return configured;
+  }
+  return createGeminiProvider().isConfigured() ? "gemini" : "mock";
+}
+
+/**
+ * Providers a request may select. LLM_ALLOWED_PROVIDERS restricts the set
+ * (e.g. to "local" when only a self-hosted model is approved); by default
+ * every provider is allowed.
+ */
+function getAllowedProviderNames(): LlmProviderName[] {
+  const allowed = process.env.LLM_ALLOWED_PROVIDERS;
+  if (!allowed || !allowed.trim()) {
+    return Object.keys(PROVIDER_FACTORIES) as LlmProviderName[];
+  }
+  return allowed
+    .split(",")
+    .map((name) => name.trim())
+    .filter(isLlmProviderName);
+}
+
+/**
+ * Resolve the provider for a request, falling back to the configured default
+ */
+export function getProvider(requested?: string): LlmProvider {
+  if (requested !== undefined && !isLlmProviderName(requested)) {
+    throw new LlmError(
+      "UNKNOWN_PROVIDER",
+      `Unknown provider "${requested}". Must be one of: ${Object.keys(PROVIDER_FACTORIES).join(", ")}`,
+      400
+    );
+  }
+
+  const name = requested || getDefaultProviderName();
+
+  if (!getAllowedProviderNames().includes(name)) {
+    throw new LlmError(
+      "PROVIDER_NOT_ALLOWED",
+      `Provider "${name}" is not allowed on this server`,
+      403
+    );
+  }
+
+  const provider = PROVIDER_FACTORIES[name]();
+  if (!provider.isConfigured()) {
+    throw new LlmError(
+      "PROVIDER_NOT_CONFIGURED",
+      `Provider "${name}" is not configured on this server`,
+      400
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Describe every provider for status/discovery endpoints
+ */
+export function listProviders(): Array<{ name: LlmProviderName; model: string; configured: boolean; allowed: boolean }> {
+  const allowed = getAllowedProviderNames();
+  return (Object.keys(PROVIDER_FACTORIES) as LlmProviderName[]).map((name) => {
+    const provider = PROVIDER_FACTORIES[name]();
+    return {
+      name,
+      model: provider.model,
+      configured: provider.isConfigured(),
+      allowed: allowed.includes(name),
+    };
+  });
+}
@@ -0,0 +1,93 @@
+import { SlideContent } from "../../types/index.js";
+import { LlmProvider } from "./provider.js";
+
+const DEFAULT_MOCK_SLIDE_COUNT = 5;
+
+// Generate mock slides for testing without API key
+function generateMockSlides(slideCount: number): SlideContent[] {
+  const mockSlides: SlideContent[] = [];
+
+  const sampleTitles = [
+    "Executive Summary",
+    "Key Findings",
+    "Market Analysis",
+    "Financial Overview",
+    "Strategic Initiatives",
+    "Risk Assessment",
+    "Timeline & Milestones",
+    "Resource Requirements",
+    "Expected Outcomes",
+    "Next Steps"
+  ];
+
+  const sampleBullets = [
+    ["Revenue increased 25% quarter-over-quarter", "Customer acquisition cost reduced by 15%", "Net promoter score improved to 72"],
+    ["Market share expanded to 18% in core segments", "Three new enterprise clients onboarded", "Product adoption rate exceeded targets by 20%"],
+    ["Competitive landscape remains favorable", "New market opportunities identified in APAC", "Brand awareness increased 30% YoY"],
+    ["Operating margin improved to 22%", "Cash reserves at $50M", "Debt-to-equity ratio at healthy 0.3"],
+    ["Digital transformation 60% complete", "New product launch scheduled Q2", "Partnership discussions advancing with key players"]
+  ];
+
+  for (let i = 0; i < slideCount; i++) {
+    const title = sampleTitles[i % sampleTitles.length];
+    const speakerNotes = `Walk through the ${title.toLowerCase()} and pause for questions before moving on.`;
+
+    // A few typed layouts so mock mode exercises the renderers
+    if (title === "Financial Overview") {
+      mockSlides.push({
+        type: "kpi",
+        title,
+        metrics: [
+          { value: "22%", label: "Operating margin" },
+          { value: "$50M", label: "Cash reserves" },
+          { value: "0.3", label: "Debt-to-equity" }
+        ],
+        speakerNotes
+      });
+    } else if (title === "Timeline & Milestones") {
+      mockSlides.push({
+        type: "timeline",
+        title,
+        events: [
+          { date: "Q1", label: "Pilot with design partners" },
+          { date: "Q2", label: "New product launch" },
+          { date: "Q3", label: "APAC expansion" },
+          { date: "Q4", label: "General availability" }
+        ],
+        speakerNotes
+      });
+    } else {
+      mockSlides.push({
+        title,
+        bullets: sampleBullets[i % sampleBullets.length],
+        speakerNotes
+      });
+    }
+  }
+
+  return mockSlides;
+}
+
+// Size of the pieces mock responses are streamed in
+const MOCK_STREAM_CHUNK_SIZE = 40;
+
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    maxInputTokens: 32_000,
+    isConfigured: () => true,
+    async complete({ slideCount }) {
+      console.log("[Mock Mode] Returning mock slides");
+      return JSON.stringify({
+        slides: generateMockSlides(slideCount || DEFAULT_MOCK_SLIDE_COUNT),
+      });
+    },
+    async *stream(request) {
+      const text = await this.complete(request);
+      for (let start = 0; start < text.length; start += MOCK_STREAM_CHUNK_SIZE) {
+        yield text.slice(start, start + MOCK_STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
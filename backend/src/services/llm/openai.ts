@@ -0,0 +1,134 @@
+import { LlmProviderName } from "../../types/index.js";
+import { LlmCompletionRequest, LlmError, LlmProvider } from "./provider.js";
+import { readServerSentEvents } from "./sse.js";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface OpenAiCompatibleOptions {
+  name: LlmProviderName;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  maxInputTokens: number;
+  // Self-hosted servers usually run without authentication
+  requiresApiKey: boolean;
+  // "json_schema" where the server supports it; many self-hosted servers
+  // only accept the older "json_object" mode
+  structuredOutput: "json_schema" | "json_object";
+}
+
+function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const { name, baseUrl, apiKey, requiresApiKey, structuredOutput } = options;
+
+  const sendChatCompletion = async (
+    model: string,
+    { prompt, system, responseSchema, signal }: LlmCompletionRequest,
+    stream: boolean
+  ): Promise<Response> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(system ? [{ role: "system", content: system }] : []),
+          { role: "user", content: prompt },
+        ],
+        ...(responseSchema && {
+          response_format: structuredOutput === "json_schema"
+            ? { type: "json_schema", json_schema: { name: "response", schema: responseSchema } }
+            : { type: "json_object" },
+        }),
+        ...(stream && { stream: true }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new LlmError(
+        "PROVIDER_REQUEST_FAILED",
+        `${name} request failed: ${response.status} ${response.statusText}`,
+        502
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+    model: options.model,
+    maxInputTokens: options.maxInputTokens,
+    isConfigured: () => baseUrl !== "" && (!requiresApiKey || apiKey !== ""),
+    async complete(request) {
+      const response = await sendChatCompletion(this.model, request, false);
+      const data: ChatCompletionResponse = await response.json();
+      return data.choices?.[0]?.message?.content || "";
+    },
+    async *stream(request) {
+      const response = await sendChatCompletion(this.model, request, true);
+      if (!response.body) {
+        return;
+      }
+
+      for await (const { data } of readServerSentEvents(response.body)) {
+        if (data === "[DONE]") {
+          return;
+        }
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    },
+  };
+}
+
+export function createOpenAiProvider(): LlmProvider {
+  return createOpenAiCompatibleProvider({
+    name: "openai",
+    baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY?.trim() || "",
+    model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+    maxInputTokens: 128_000,
+    requiresApiKey: true,
+    structuredOutput: "json_schema",
+  });
+}
+
+export function createLocalProvider(): LlmProvider {
+  return createOpenAiCompatibleProvider({
+    name: "local",
+    baseUrl: process.env.LOCAL_LLM_BASE_URL?.trim() || "",
+    apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || "",
+    model: process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL,
+    // Conservative default; most self-hosted models run with small contexts
+    maxInputTokens: 8_192,
+    requiresApiKey: false,
+    structuredOutput: "json_object",
+  });
+}
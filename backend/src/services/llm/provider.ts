@@ -0,0 +1,48 @@
+import { LlmErrorCode, LlmProviderName } from "../../types/index.js";
+
+export class LlmError extends Error {
+  constructor(
+    public code: LlmErrorCode,
+    message: string,
+    public httpStatus: number
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+/**
+ * OpenAPI-style schema subset understood by every provider's structured
+ * output mode (Gemini responseSchema, OpenAI json_schema, Anthropic tools)
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string";
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface LlmCompletionRequest {
+  prompt: string;
+  // Sent with the provider's system role, which models rank above the prompt
+  system?: string;
+  // Lets providers that fabricate output (mock) size their response
+  slideCount?: number;
+  // Asks the provider to constrain its output to JSON matching this schema
+  responseSchema?: JsonSchema;
+  // Cancels the request, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  // Context window available for the prompt, in estimated tokens
+  maxInputTokens: number;
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest): Promise<string>;
+  // Same request, yielding the response text as it is generated
+  stream(request: LlmCompletionRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,52 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a text/event-stream response body into events. Used to read the
+ * streaming APIs of the HTTP-based providers.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      // Keep the trailing partial line until more input arrives
+      buffer = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) {
+            yield { event, data: data.join("\n") };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield { event, data: data.join("\n") };
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,416 @@
+import { slides_v1 } from "googleapis";
+import {
+  CitationStyle,
+  ComparisonSlide,
+  LayoutAdjustment,
+  MasterDeckErrorCode,
+  MasterLayoutNames,
+  MasterLayoutRole,
+  PresentationStructure,
+  SlideContent,
+  TableSlide,
+} from "../types/index.js";
+import {
+  citationLinkRequests,
+  buildSpeakerNotes,
+  PresentationRequests,
+  slideKey,
+  SlidesRequest,
+  TitleSlideIds,
+} from "./slideRequests.js";
+import { splitTableSlides } from "./structure.js";
+
+export class MasterDeckError extends Error {
+  constructor(
+    public code: MasterDeckErrorCode,
+    message: string,
+    public httpStatus: number
+  ) {
+    super(message);
+    this.name = "MasterDeckError";
+  }
+}
+
+// Position and size of a placeholder on its layout, in points
+export interface PlaceholderBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MasterPlaceholder {
+  objectId: string;
+  // TITLE, CENTERED_TITLE, SUBTITLE, BODY, ...
+  type: string;
+  index: number;
+  box?: PlaceholderBox;
+}
+
+export interface MasterLayout {
+  objectId: string;
+  // Predefined layouts are named e.g. TITLE_AND_BODY; custom ones by the deck's author
+  name?: string;
+  displayName?: string;
+  placeholders: MasterPlaceholder[];
+}
+
+export type ResolvedMasterLayouts = Record<MasterLayoutRole, MasterLayout>;
+
+// Layouts used when the request names none. Google's predefined layouts keep
+// these names in copies of decks built from them.
+export const DEFAULT_MASTER_LAYOUTS: Record<MasterLayoutRole, string> = {
+  title: "TITLE",
+  bullets: "TITLE_AND_BODY",
+  agenda: "TITLE_AND_BODY",
+  section: "SECTION_HEADER",
+  comparison: "TITLE_AND_TWO_COLUMNS",
+  kpi: "TITLE_AND_BODY",
+  quote: "TITLE_AND_BODY",
+  timeline: "TITLE_AND_BODY",
+  table: "TITLE_AND_BODY",
+  image: "TITLE_AND_TWO_COLUMNS",
+};
+
+// Fields of presentations.get that readMasterLayouts needs
+export const LAYOUT_FIELDS =
+  "layouts(objectId,layoutProperties(name,displayName),pageElements(objectId,size,transform,shape(placeholder(type,index))))";
+
+// The layouts, and the slides of the copy to replace
+export const MASTER_LAYOUT_FIELDS = `slides(objectId),${LAYOUT_FIELDS}`;
+
+const EMU_PER_PT = 12700;
+const TITLE_PLACEHOLDERS = ["TITLE", "CENTERED_TITLE"];
+const SUBTITLE_PLACEHOLDERS = ["SUBTITLE", "BODY"];
+
+// Where a body placeholder's size is not in the layout (it inherits it from the master)
+const DEFAULT_BODY_BOX: PlaceholderBox = { x: 36, y: 110, width: 648, height: 394 };
+
+function toPoints(magnitude: number | null | undefined, unit: string | null | undefined): number {
+  return (magnitude ?? 0) / (unit === "EMU" ? EMU_PER_PT : 1);
+}
+
+function placeholderBox(element: slides_v1.Schema$PageElement): PlaceholderBox | undefined {
+  const { size, transform } = element;
+  if (!size?.width?.magnitude || !size.height?.magnitude) {
+    return undefined;
+  }
+  return {
+    x: toPoints(transform?.translateX, transform?.unit),
+    y: toPoints(transform?.translateY, transform?.unit),
+    width: toPoints(size.width.magnitude * (transform?.scaleX ?? 1), size.width.unit),
+    height: toPoints(size.height.magnitude * (transform?.scaleY ?? 1), size.height.unit),
+  };
+}
+
+export function readMasterLayouts(presentation: slides_v1.Schema$Presentation): MasterLayout[] {
+  return (presentation.layouts || []).flatMap((layout) => {
+    if (!layout.objectId) {
+      return [];
+    }
+    const placeholders = (layout.pageElements || []).flatMap((element) => {
+      const placeholder = element.shape?.placeholder;
+      if (!element.objectId || !placeholder?.type) {
+        return [];
+      }
+      return [{ objectId: element.objectId, type: placeholder.type, index: placeholder.index ?? 0, box: placeholderBox(element) }];
+    });
+    return [{
+      objectId: layout.objectId,
+      name: layout.layoutProperties?.name ?? undefined,
+      displayName: layout.layoutProperties?.displayName ?? undefined,
+      placeholders,
+    }];
+  });
+}
+
+function describeLayout(layout: MasterLayout): string {
+  return layout.displayName || layout.name || layout.objectId;
+}
+
+// Display names are what the deck's author sees, so they are matched first
+function findLayout(layouts: MasterLayout[], name: string): MasterLayout | undefined {
+  const wanted = name.trim().toLowerCase();
+  return layouts.find((layout) => layout.displayName?.trim().toLowerCase() === wanted) ||
+    layouts.find((layout) => layout.name?.trim().toLowerCase() === wanted);
+}
+
+function placeholders(layout: MasterLayout, types: string[]): MasterPlaceholder[] {
+  return layout.placeholders
+    .filter((placeholder) => types.includes(placeholder.type))
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * The layout each slide type is filled into: the one named in the request,
+ * else the default, else the layout used for bullet slides.
+ */
+export function resolveMasterLayouts(layouts: MasterLayout[], names: MasterLayoutNames = {}): ResolvedMasterLayouts {
+  const available = layouts.map(describeLayout).join(", ") || "none";
+  const find = (role: MasterLayoutRole): MasterLayout | undefined => {
+    const name = names[role];
+    if (!name) {
+      return findLayout(layouts, DEFAULT_MASTER_LAYOUTS[role]);
+    }
+    const layout = findLayout(layouts, name);
+    if (!layout) {
+      throw new MasterDeckError("LAYOUT_NOT_FOUND", `The master deck has no layout "${name}". Available layouts: ${available}`, 400);
+    }
+    return layout;
+  };
+
+  const bulletsLayout = find("bullets");
+  if (!bulletsLayout) {
+    throw new MasterDeckError(
+      "LAYOUT_NOT_FOUND",
+      `The master deck has no "${DEFAULT_MASTER_LAYOUTS.bullets}" layout; choose one for bullets in masterLayouts. Available layouts: ${available}`,
+      400
+    );
+  }
+
+  const resolved = {} as ResolvedMasterLayouts;
+  for (const role of Object.keys(DEFAULT_MASTER_LAYOUTS) as MasterLayoutRole[]) {
+    const layout = role === "bullets" ? bulletsLayout : find(role) || bulletsLayout;
+    if (placeholders(layout, TITLE_PLACEHOLDERS).length === 0) {
+      throw new MasterDeckError(
+        "LAYOUT_MISSING_PLACEHOLDER",
+        `Layout "${describeLayout(layout)}" has no title placeholder, which ${role} slides need`,
+        400
+      );
+    }
+    if (role !== "title" && role !== "section" && placeholders(layout, ["BODY"]).length === 0) {
+      throw new MasterDeckError(
+        "LAYOUT_MISSING_PLACEHOLDER",
+        `Layout "${describeLayout(layout)}" has no body placeholder, which ${role} slides need`,
+        400
+      );
+    }
+    resolved[role] = layout;
+  }
+  return resolved;
+}
+
+function createSlideRequest(
+  slideId: string,
+  layout: MasterLayout,
+  mappings: Array<{ placeholder: MasterPlaceholder; objectId: string }>
+): SlidesRequest {
+  return {
+    createSlide: {
+      objectId: slideId,
+      slideLayoutReference: { layoutId: layout.objectId },
+      placeholderIdMappings: mappings.map(({ placeholder, objectId }) => ({
+        layoutPlaceholderObjectId: placeholder.objectId,
+        objectId,
+      })),
+    },
+  };
+}
+
+function insertTextRequest(objectId: string, text: string): SlidesRequest {
+  return { insertText: { objectId, text, insertionIndex: 0 } };
+}
+
+function boldRequest(objectId: string, startIndex: number, endIndex: number): SlidesRequest {
+  return {
+    updateTextStyle: {
+      objectId,
+      style: { bold: true },
+      textRange: { type: "FIXED_RANGE", startIndex, endIndex },
+      fields: "bold",
+    },
+  };
+}
+
+// The text of a slide's body placeholder; comparison and table slides are filled in separately
+function bodyText(slide: SlideContent): string {
+  switch (slide.type) {
+    case "agenda":
+      return slide.items.join("\n");
+    case "section":
+      return slide.subtitle || "";
+    case "kpi":
+      return [...slide.metrics.map(({ value, label }) => `${label}: ${value}`), slide.context].filter(Boolean).join("\n");
+    case "quote":
+      return [`\u201C${slide.quote}\u201D`, slide.attribution && `\u2014 ${slide.attribution}`].filter(Boolean).join("\n");
+    case "timeline":
+      return slide.events.map(({ date, label }) => `${date}: ${label}`).join("\n");
+    case "bullets":
+    case "image":
+    case undefined:
+      return slide.bullets.join("\n");
+    default:
+      return "";
+  }
+}
+
+// A native table over the body placeholder, with a bold header row; the master's table style does the rest
+function tableRequests(slide: TableSlide, slideId: string, key: string, box: PlaceholderBox): SlidesRequest[] {
+  const tableId = `table_${key}`;
+  const rows = [slide.columns, ...slide.rows];
+  const requests: SlidesRequest[] = [{
+    createTable: {
+      objectId: tableId,
+      elementProperties: {
+        pageObjectId: slideId,
+        size: {
+          height: { magnitude: Math.min(box.height, rows.length * 36), unit: "PT" },
+          width: { magnitude: box.width, unit: "PT" },
+        },
+        transform: { scaleX: 1, scaleY: 1, translateX: box.x, translateY: box.y, unit: "PT" },
+      },
+      rows: rows.length,
+      columns: slide.columns.length,
+    },
+  }];
+  rows.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      // Slides rejects empty insertText requests
+      if (!cell) {
+        return;
+      }
+      const cellLocation = { rowIndex, columnIndex };
+      requests.push({ insertText: { objectId: tableId, cellLocation, text: cell, insertionIndex: 0 } });
+      if (rowIndex === 0) {
+        requests.push({
+          updateTextStyle: { objectId: tableId, cellLocation, style: { bold: true }, textRange: { type: "ALL" }, fields: "bold" },
+        });
+      }
+    });
+  });
+  return requests;
+}
+
+function imageRequest(url: string, slideId: string, key: string, box: PlaceholderBox): SlidesRequest {
+  return {
+    createImage: {
+      objectId: `image_${key}`,
+      url,
+      elementProperties: {
+        pageObjectId: slideId,
+        size: {
+          height: { magnitude: box.height, unit: "PT" },
+          width: { magnitude: box.width, unit: "PT" },
+        },
+        transform: { scaleX: 1, scaleY: 1, translateX: box.x, translateY: box.y, unit: "PT" },
+      },
+    },
+  };
+}
+
+/**
+ * A comparison column's heading in bold, then its bullets. With one body
+ * placeholder both columns are stacked in it.
+ */
+function comparisonRequests(slide: ComparisonSlide, bodyIds: string[]): SlidesRequest[] {
+  const requests: SlidesRequest[] = [];
+  const columns = [slide.left, slide.right];
+  if (bodyIds.length === 1) {
+    let start = 0;
+    const text = columns.map(({ heading, bullets }) => [heading, ...bullets].join("\n")).join("\n");
+    requests.push(insertTextRequest(bodyIds[0], text));
+    for (const { heading, bullets } of columns) {
+      requests.push(boldRequest(bodyIds[0], start, start + heading.length));
+      start += [heading, ...bullets].join("\n").length + 1;
+    }
+    return requests;
+  }
+  columns.forEach(({ heading, bullets }, column) => {
+    requests.push(insertTextRequest(bodyIds[column], [heading, ...bullets].join("\n")));
+    requests.push(boldRequest(bodyIds[column], 0, heading.length));
+  });
+  return requests;
+}
+
+function contentSlideRequests(
+  slide: SlideContent,
+  key: string,
+  layouts: ResolvedMasterLayouts,
+  citationStyle: CitationStyle
+): SlidesRequest[] {
+  const slideId = `slide_${key}`;
+  const role: MasterLayoutRole = slide.type || "bullets";
+  const layout = layouts[role];
+  const titlePlaceholder = placeholders(layout, TITLE_PLACEHOLDERS)[0];
+  const bodies = placeholders(layout, role === "section" ? SUBTITLE_PLACEHOLDERS : ["BODY"]);
+  const mappings = [{ placeholder: titlePlaceholder, objectId: `title_${key}` }];
+  const fill: SlidesRequest[] = [insertTextRequest(`title_${key}`, slide.title)];
+
+  if (slide.type === "comparison") {
+    const bodyIds = bodies.length > 1 ? [`left_body_${key}`, `right_body_${key}`] : [`body_${key}`];
+    bodyIds.forEach((objectId, column) => mappings.push({ placeholder: bodies[column], objectId }));
+    fill.push(...comparisonRequests(slide, bodyIds));
+  } else if (slide.type === "table") {
+    // The body placeholder is left unmapped, so it stays empty and only shows while editing
+    fill.push(...tableRequests(slide, slideId, key, bodies[0].box || DEFAULT_BODY_BOX));
+  } else if (slide.type === "image" && slide.imageUrl && bodies.length > 1) {
+    // Image in the first column, bullets in the second
+    fill.push(imageRequest(slide.imageUrl, slideId, key, bodies[0].box || DEFAULT_BODY_BOX));
+    if (slide.bullets.length > 0) {
+      mappings.push({ placeholder: bodies[1], objectId: `body_${key}` });
+      fill.push(insertTextRequest(`body_${key}`, bodyText(slide)));
+    }
+  } else {
+    const text = bodyText(slide);
+    if (text && bodies.length > 0) {
+      mappings.push({ placeholder: bodies[0], objectId: `body_${key}` });
+      fill.push(insertTextRequest(`body_${key}`, text));
+    }
+  }
+
+  if (citationStyle === "links" && mappings.some(({ objectId }) => objectId === `body_${key}`)) {
+    fill.push(...citationLinkRequests(slide, `body_${key}`));
+  }
+  return [createSlideRequest(slideId, layout, mappings), ...fill];
+}
+
+/**
+ * Requests that turn a copy of a master deck into the presentation: its own
+ * slides are replaced by slides created from its layouts, with the text in
+ * the layouts' placeholders so the master's fonts and colors apply. Content
+ * slides get the same IDs as in buildPresentationRequests.
+ */
+export function buildMasterPresentationRequests(params: {
+  structure: PresentationStructure;
+  layouts: ResolvedMasterLayouts;
+  // Slides of the copy, deleted first so their object IDs are free to reuse
+  existingSlideIds: string[];
+  citationStyle?: CitationStyle;
+  // An existing title slide to fill in instead of creating one, when updating a deck
+  titleSlide?: TitleSlideIds;
+}): PresentationRequests {
+  const { structure, layouts, existingSlideIds, citationStyle = "none", titleSlide } = params;
+  const requests: SlidesRequest[] = existingSlideIds.map((objectId) => ({ deleteObject: { objectId } }));
+  if (!titleSlide) {
+    const titlePlaceholder = placeholders(layouts.title, TITLE_PLACEHOLDERS)[0];
+    requests.push(
+      createSlideRequest("title_slide", layouts.title, [{ placeholder: titlePlaceholder, objectId: "title_slide_title" }]),
+      insertTextRequest("title_slide_title", structure.title)
+    );
+  } else if (titleSlide.titleShapeId) {
+    requests.push(insertTextRequest(titleSlide.titleShapeId, structure.title));
+  }
+
+  // Text autofit is left to the master, but tables still continue over several slides
+  const slides = structure.slides.flatMap((slide, slideIndex) =>
+    splitTableSlides([slide]).map((part, partIndex) => ({ slide: part, key: slideKey(slideIndex, partIndex) }))
+  );
+  slides.forEach(({ slide, key }) => {
+    requests.push(...contentSlideRequests(slide, key, layouts, citationStyle));
+  });
+
+  // A section layout without a subtitle or body placeholder has nowhere to put the subtitle
+  const hasSubtitle = placeholders(layouts.section, SUBTITLE_PLACEHOLDERS).length > 0;
+  const layoutAdjustments = structure.slides.flatMap((slide, slideIndex): LayoutAdjustment[] =>
+    slide.type === "section" && slide.subtitle && !hasSubtitle
+      ? [{ slideIndex, slideTitle: slide.title, kind: "dropped", element: "body" }]
+      : []
+  );
+
+  return {
+    requests: requests.filter((request) => !request.createImage),
+    imageRequests: requests.filter((request) => request.createImage),
+    speakerNotes: buildSpeakerNotes(slides, citationStyle),
+    layoutAdjustments,
+  };
+}
@@ -0,0 +1,218 @@
+import { Redaction, RedactionType, StructuredDocument, TextSpan } from "../types/index.js";
+
+export interface RedactionRule {
+  // A RedactionType or the name of a custom pattern; it names the placeholders
+  type: string;
+  pattern: RegExp;
+  restore: boolean;
+}
+
+interface CustomPatternConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+  restore?: boolean;
+}
+
+const REDACTION_TYPES: RedactionType[] = ["email", "phone", "secret"];
+
+const BUILT_IN_PATTERNS: Record<RedactionType, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  // International numbers with a + prefix, and North American numbers with
+  // separators, so that plain figures and dates are left alone
+  phone: /(?<![\w+])(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)|\d{1,4})(?:[\s.-]?\d{2,4}){2,3}|(?:\(\d{3}\)\s?|\d{3}[.-])\d{3}[.-]\d{4})(?!\w)/g,
+  // Well-known key formats; a generic "long random string" rule would also catch IDs and URLs
+  secret: new RegExp([
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/.source,
+    /\bAKIA[0-9A-Z]{16}\b/.source,
+    /\bAIza[0-9A-Za-z_-]{35}/.source,
+    /\bya29\.[0-9A-Za-z_-]{20,}/.source,
+    /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/.source,
+    /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/.source,
+    /\bgh[pousr]_[A-Za-z0-9]{36,}/.source,
+    /\bxox[abprs]-[A-Za-z0-9-]{10,}/.source,
+    /\bd2s_[A-Za-z0-9_-]{20,}/.source,
+    /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/.source,
+    /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/.source,
+  ].join("|"), "g"),
+};
+
+function parseTypeList(value: string, source: string): RedactionType[] {
+  const types = value.split(",").map((type) => type.trim()).filter(Boolean);
+  for (const type of types) {
+    if (!REDACTION_TYPES.includes(type as RedactionType)) {
+      throw new Error(`Invalid ${source} entry "${type}". Must be one of: ${REDACTION_TYPES.join(", ")}`);
+    }
+  }
+  return types as RedactionType[];
+}
+
+function parseCustomPatterns(json: string): RedactionRule[] {
+  const entries: unknown = JSON.parse(json);
+  if (!Array.isArray(entries)) {
+    throw new Error("REDACT_PATTERNS must be a JSON array of patterns");
+  }
+
+  return entries.map((entry, index) => {
+    const config = entry as Partial<CustomPatternConfig> | null;
+    let pattern: RegExp | null = null;
+    if (config && typeof config.pattern === "string" && (config.flags === undefined || typeof config.flags === "string")) {
+      try {
+        pattern = new RegExp(config.pattern, `${(config.flags || "").replace("g", "")}g`);
+      } catch {
+        pattern = null;
+      }
+    }
+    if (
+      !config ||
+      typeof config.name !== "string" ||
+      !/^[a-z][a-z0-9_-]*$/i.test(config.name) ||
+      !pattern ||
+      // A pattern that matches nothing at all would insert placeholders everywhere
+      new RegExp(pattern.source, pattern.flags.replace("g", "")).test("") ||
+      (config.restore !== undefined && typeof config.restore !== "boolean")
+    ) {
+      throw new Error(
+        `Invalid pattern at REDACT_PATTERNS[${index}]: needs a name (letters, digits, - and _) and a regex that cannot match an empty string`
+      );
+    }
+    return { type: config.name, pattern, restore: config.restore ?? false };
+  });
+}
+
+let rules: RedactionRule[] | null = null;
+
+/**
+ * Built-in detectors come from REDACT (default all, "none" for none) and
+ * REDACT_RESTORE; custom ones from REDACT_PATTERNS. Custom patterns run
+ * first, so they can claim text a built-in would also match.
+ */
+export function getRedactionRules(): RedactionRule[] {
+  if (!rules) {
+    const enabled = process.env.REDACT?.trim() === "none"
+      ? []
+      : parseTypeList(process.env.REDACT || REDACTION_TYPES.join(","), "REDACT");
+    const restored = parseTypeList(process.env.REDACT_RESTORE || "", "REDACT_RESTORE");
+    if (restored.includes("secret")) {
+      throw new Error("REDACT_RESTORE cannot include secret; secrets are never put back into slides");
+    }
+    const custom = process.env.REDACT_PATTERNS ? parseCustomPatterns(process.env.REDACT_PATTERNS) : [];
+    rules = [
+      ...custom,
+      ...REDACTION_TYPES.filter((type) => enabled.includes(type)).map((type) => ({
+        type,
+        pattern: BUILT_IN_PATTERNS[type],
+        restore: restored.includes(type),
+      })),
+    ];
+  }
+  return rules;
+}
+
+// Replace the configured rules (e.g. in tests); null reloads them from the environment
+export function setRedactionRules(value: RedactionRule[] | null): void {
+  rules = value;
+}
+
+interface RedactedValue {
+  type: string;
+  original: string;
+  placeholder: string;
+  occurrences: number;
+  restore: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+export interface RedactionSession {
+  redact(text: string): string;
+  redactDocument(document: StructuredDocument): StructuredDocument;
+  // Put back the originals of restorable placeholders in every string of a value
+  restore<T>(value: T): T;
+  report(): Redaction[];
+}
+
+/**
+ * One request's redactions. The same value always gets the same placeholder,
+ * so the model can still tell that two mentions are the same person.
+ */
+export function createRedactionSession(sessionRules: RedactionRule[] = getRedactionRules()): RedactionSession {
+  const values = new Map<string, RedactedValue>();
+  const placeholders = new Map<string, RedactedValue>();
+  const counts = new Map<string, number>();
+
+  const redact = (text: string): string =>
+    sessionRules.reduce((current, rule) => current.replace(rule.pattern, (match) => {
+      const key = `${rule.type}\u0000${match}`;
+      let value = values.get(key);
+      if (!value) {
+        const count = (counts.get(rule.type) ?? 0) + 1;
+        counts.set(rule.type, count);
+        value = {
+          type: rule.type,
+          original: match,
+          placeholder: `[${rule.type.toUpperCase().replace(/-/g, "_")}_${count}]`,
+          occurrences: 0,
+          restore: rule.restore,
+        };
+        values.set(key, value);
+        placeholders.set(value.placeholder, value);
+      }
+      value.occurrences++;
+      return value.placeholder;
+    }), text);
+
+  // Links are written into the prompt too, and can hold a mailto: address or a key in their query
+  const redactSpans = (spans: TextSpan[]) => spans.map((span) => ({
+    ...span,
+    text: redact(span.text),
+    ...(span.link && { link: redact(span.link) }),
+  }));
+
+  const restore = <T>(value: T): T => {
+    if (typeof value === "string") {
+      return value.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+        const redacted = placeholders.get(placeholder);
+        return redacted?.restore ? redacted.original : placeholder;
+      }) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(restore) as T;
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restore(item)])) as T;
+    }
+    return value;
+  };
+
+  return {
+    redact,
+    redactDocument: (document) => ({
+      ...document,
+      title: redact(document.title),
+      sections: document.sections.map((section) => ({
+        ...section,
+        heading: redact(section.heading),
+        blocks: section.blocks.map((block) => {
+          switch (block.type) {
+            case "paragraph":
+              return { ...block, spans: redactSpans(block.spans) };
+            case "list":
+              return { ...block, items: block.items.map((item) => ({ ...item, spans: redactSpans(item.spans) })) };
+            case "table":
+              return { ...block, rows: block.rows.map((row) => row.map(redactSpans)) };
+            case "image":
+              return block.description ? { ...block, description: redact(block.description) } : block;
+          }
+        }),
+      })),
+    }),
+    restore,
+    report: () => [...values.values()].map(({ type, placeholder, occurrences, restore: restored }) => ({
+      type,
+      placeholder,
+      occurrences,
+      restored,
+    })),
+  };
+}
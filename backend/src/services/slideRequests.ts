@@ -0,0 +1,1135 @@
+import { slides_v1 } from "googleapis";
+import {
+  AgendaSlide,
+  BulletsSlide,
+  CitationStyle,
+  ComparisonSlide,
+  ImageSlide,
+  KpiSlide,
+  LayoutAdjustment,
+  PresentationStructure,
+  QuoteSlide,
+  RgbColor,
+  SectionSlide,
+  SlideContent,
+  TableSlide,
+  TemplateConfig,
+  TimelineSlide,
+} from "../types/index.js";
+import { splitTableSlides } from "./structure.js";
+import { formatCitationNotes, hasBulletCitations } from "./citations.js";
+import { fitFontSize, TextFitBox, TextFitOptions, textFits } from "./textFit.js";
+
+export type SlidesRequest = slides_v1.Schema$Request;
+
+// The existing title slide of a new presentation, which the requests fill in
+export interface TitleSlideIds {
+  slideId: string;
+  // The title placeholder, when the layout has one
+  titleShapeId?: string;
+}
+
+// Stand-ins for the IDs of a new presentation's title slide, for requests
+// built without creating one
+export const DRY_RUN_TITLE_SLIDE: TitleSlideIds = { slideId: "title_slide", titleShapeId: "title_slide_title" };
+
+export interface PresentationRequests {
+  // Sent in one batchUpdate
+  requests: SlidesRequest[];
+  // Sent one at a time afterwards: Slides fetches each image URL, and one
+  // that cannot be read should not fail the whole deck
+  imageRequests: SlidesRequest[];
+  // Inserted once the slides exist, since notes pages get their IDs then
+  speakerNotes: Array<{ slideId: string; text: string }>;
+  layoutAdjustments: LayoutAdjustment[];
+}
+
+// Google Slides default size is 720x540 PT (10x7.5 inches)
+const SLIDE_WIDTH = 720;
+const SLIDE_HEIGHT = 540;
+const MARGIN = 36;
+const HEADER_HEIGHT = 60;
+const TITLE_HEIGHT = 50;
+const TITLE_TOP = 20;
+const FOOTER_HEIGHT = 24;
+const FOOTER_FONT_SIZE = 10;
+const COLUMN_GAP = 24;
+const COMPARISON_HEADING_HEIGHT = 36;
+const QUOTE_INSET = 36;
+const QUOTE_HEIGHT = 220;
+
+// Default font sizes; text that does not fit its box is shrunk from these
+const TITLE_SLIDE_FONT_SIZE = 44;
+const TITLE_FONT_SIZE = 28;
+const BODY_FONT_SIZES = {
+  bullets: 18,
+  agenda: 22,
+  comparison: 16,
+  quote: 28,
+};
+const DEFAULT_MIN_FONT_SCALE = 0.75;
+
+// Area below the slide title available to the type-specific renderers
+interface BodyArea {
+  slideId: string;
+  // Suffix of the slide's object IDs
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the parts every content slide has go, for a theme
+interface SlideFrame {
+  margin: number;
+  contentWidth: number;
+  titleY: number;
+  // Narrower than the content when the logo sits beside the title
+  titleWidth: number;
+  titleHeight: number;
+  body: Omit<BodyArea, "slideId" | "key">;
+}
+
+// A text size chosen by layoutSlides
+interface TextFit {
+  fontSize: number;
+  shrunk: boolean;
+  // Too long even at the smallest allowed size
+  overflow: boolean;
+}
+
+// A content slide with the sizes its text is rendered at
+interface FittedSlide {
+  slide: SlideContent;
+  title: TextFit;
+  body?: TextFit;
+  // Set on every part of a split agenda, whose items are then numbered in the
+  // text: a numbered bullet preset would restart at 1 on each continuation
+  listStart?: number;
+}
+
+// A content slide with the suffix of its object IDs
+export type KeyedSlide<T> = T & { key: string };
+
+/**
+ * The suffix of a content slide's object IDs: its index in the structure,
+ * and its part for slides that continue it. Adding a continuation leaves the
+ * IDs of the slides after it alone, so a deck update keeps them.
+ */
+export function slideKey(slideIndex: number, part: number): string {
+  return part === 0 ? `${slideIndex}` : `${slideIndex}_${part}`;
+}
+
+interface TextBoxOptions {
+  objectId: string;
+  pageObjectId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color: RgbColor;
+  fontSize: number;
+  // Slides' default font when omitted
+  fontFamily?: string;
+  bold?: boolean;
+  italic?: boolean;
+  center?: boolean;
+}
+
+// Color for emphasis inside the body (headings, big numbers, timeline)
+function getAccentColor(templateConfig: TemplateConfig): RgbColor {
+  return templateConfig.headerColor || templateConfig.titleColor;
+}
+
+function backgroundRequest(slideId: string, color: RgbColor): SlidesRequest {
+  return {
+    updatePageProperties: {
+      objectId: slideId,
+      pageProperties: {
+        pageBackgroundFill: {
+          solidFill: {
+            color: {
+              rgbColor: color,
+            },
+          },
+        },
+      },
+      fields: "pageBackgroundFill.solidFill.color",
+    },
+  };
+}
+
+function rectangleRequests(
+  objectId: string,
+  pageObjectId: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: RgbColor
+): SlidesRequest[] {
+  return [
+    {
+      createShape: {
+        objectId,
+        shapeType: "RECTANGLE",
+        elementProperties: {
+          pageObjectId,
+          size: {
+            height: { magnitude: height, unit: "PT" },
+            width: { magnitude: width, unit: "PT" },
+          },
+          transform: {
+            scaleX: 1, scaleY: 1, translateX: x, translateY: y, unit: "PT",
+          },
+        },
+      },
+    },
+    {
+      updateShapeProperties: {
+        objectId,
+        shapeProperties: {
+          shapeBackgroundFill: {
+            solidFill: { color: { rgbColor: color } },
+          },
+          outline: { propertyState: "NOT_RENDERED" },
+        },
+        fields: "shapeBackgroundFill.solidFill.color,outline",
+      },
+    },
+  ];
+}
+
+function textBoxRequests(options: TextBoxOptions): SlidesRequest[] {
+  const { objectId, pageObjectId, x, y, width, height, text, color, fontSize, fontFamily, bold, italic, center } = options;
+
+  const requests: SlidesRequest[] = [
+    {
+      createShape: {
+        objectId,
+        shapeType: "TEXT_BOX",
+        elementProperties: {
+          pageObjectId,
+          size: {
+            height: { magnitude: height, unit: "PT" },
+            width: { magnitude: width, unit: "PT" },
+          },
+          transform: {
+            scaleX: 1, scaleY: 1, translateX: x, translateY: y, unit: "PT",
+          },
+        },
+      },
+    },
+    {
+      insertText: {
+        objectId,
+        text,
+        insertionIndex: 0,
+      },
+    },
+    {
+      updateTextStyle: {
+        objectId,
+        style: {
+          foregroundColor: {
+            opaqueColor: {
+              rgbColor: color,
+            },
+          },
+          bold: !!bold,
+          italic: !!italic,
+          fontSize: {
+            magnitude: fontSize,
+            unit: "PT",
+          },
+          ...(fontFamily && { fontFamily }),
+        },
+        textRange: { type: "ALL" },
+        fields: fontFamily ? "foregroundColor,bold,italic,fontSize,fontFamily" : "foregroundColor,bold,italic,fontSize",
+      },
+    },
+  ];
+
+  if (center) {
+    requests.push({
+      updateParagraphStyle: {
+        objectId,
+        style: { alignment: "CENTER" },
+        textRange: { type: "ALL" },
+        fields: "alignment",
+      },
+    });
+  }
+
+  return requests;
+}
+
+function listBoxRequests(
+  options: Omit<TextBoxOptions, "text"> & { items: string[]; bulletPreset: string }
+): SlidesRequest[] {
+  const { items, bulletPreset, ...box } = options;
+  if (items.length === 0) {
+    return [];
+  }
+  return [
+    ...textBoxRequests({ ...box, text: items.join("\n") }),
+    {
+      createParagraphBullets: {
+        objectId: box.objectId,
+        textRange: {
+          type: "ALL",
+        },
+        bulletPreset,
+      },
+    },
+  ];
+}
+
+function bulletsBodyRequests(
+  items: string[],
+  area: BodyArea,
+  templateConfig: TemplateConfig,
+  objectId: string,
+  fontSize = BODY_FONT_SIZES.bullets
+): SlidesRequest[] {
+  return listBoxRequests({
+    objectId,
+    pageObjectId: area.slideId,
+    x: area.x,
+    y: area.y,
+    width: area.width,
+    height: area.height,
+    items,
+    color: templateConfig.bodyColor,
+    fontSize,
+    fontFamily: templateConfig.bodyFont,
+    bulletPreset: "BULLET_DISC_CIRCLE_SQUARE",
+  });
+}
+
+function comparisonBodyRequests(
+  slide: ComparisonSlide,
+  area: BodyArea,
+  templateConfig: TemplateConfig,
+  fontSize = BODY_FONT_SIZES.comparison
+): SlidesRequest[] {
+  const columnWidth = (area.width - COLUMN_GAP) / 2;
+  const headingHeight = COMPARISON_HEADING_HEIGHT;
+  const requests: SlidesRequest[] = [];
+
+  [slide.left, slide.right].forEach((column, columnIndex) => {
+    const side = columnIndex === 0 ? "left" : "right";
+    const x = area.x + columnIndex * (columnWidth + COLUMN_GAP);
+
+    requests.push(...textBoxRequests({
+      objectId: `${side}_heading_${area.key}`,
+      pageObjectId: area.slideId,
+      x,
+      y: area.y,
+      width: columnWidth,
+      height: headingHeight,
+      text: column.heading,
+      color: getAccentColor(templateConfig),
+      fontSize: 20,
+      fontFamily: templateConfig.bodyFont,
+      bold: true,
+    }));
+    requests.push(...listBoxRequests({
+      objectId: `${side}_body_${area.key}`,
+      pageObjectId: area.slideId,
+      x,
+      y: area.y + headingHeight + 8,
+      width: columnWidth,
+      height: area.height - headingHeight - 8,
+      items: column.bullets,
+      color: templateConfig.bodyColor,
+      fontSize,
+      fontFamily: templateConfig.bodyFont,
+      bulletPreset: "BULLET_DISC_CIRCLE_SQUARE",
+    }));
+  });
+
+  return requests;
+}
+
+function kpiBodyRequests(slide: KpiSlide, area: BodyArea, templateConfig: TemplateConfig): SlidesRequest[] {
+  const columnWidth = area.width / slide.metrics.length;
+  const valueY = area.y + 60;
+  const valueHeight = 90;
+  const requests: SlidesRequest[] = [];
+
+  slide.metrics.forEach((metric, metricIndex) => {
+    const x = area.x + metricIndex * columnWidth;
+    requests.push(...textBoxRequests({
+      objectId: `kpi_value_${area.key}_${metricIndex}`,
+      pageObjectId: area.slideId,
+      x,
+      y: valueY,
+      width: columnWidth,
+      height: valueHeight,
+      text: metric.value,
+      color: getAccentColor(templateConfig),
+      fontSize: slide.metrics.length > 2 ? 40 : 54,
+      fontFamily: templateConfig.bodyFont,
+      bold: true,
+      center: true,
+    }));
+    requests.push(...textBoxRequests({
+      objectId: `kpi_label_${area.key}_${metricIndex}`,
+      pageObjectId: area.slideId,
+      x,
+      y: valueY + valueHeight,
+      width: columnWidth,
+      height: 60,
+      text: metric.label,
+      color: templateConfig.bodyColor,
+      fontSize: 16,
+      fontFamily: templateConfig.bodyFont,
+      center: true,
+    }));
+  });
+
+  if (slide.context) {
+    requests.push(...textBoxRequests({
+      objectId: `kpi_context_${area.key}`,
+      pageObjectId: area.slideId,
+      x: area.x,
+      y: area.y + area.height - 60,
+      width: area.width,
+      height: 50,
+      text: slide.context,
+      color: templateConfig.bodyColor,
+      fontSize: 14,
+      fontFamily: templateConfig.bodyFont,
+      italic: true,
+      center: true,
+    }));
+  }
+
+  return requests;
+}
+
+function quoteBodyRequests(
+  slide: QuoteSlide,
+  area: BodyArea,
+  templateConfig: TemplateConfig,
+  fontSize = BODY_FONT_SIZES.quote
+): SlidesRequest[] {
+  const requests = textBoxRequests({
+    objectId: `quote_${area.key}`,
+    pageObjectId: area.slideId,
+    x: area.x + QUOTE_INSET,
+    y: area.y + 30,
+    width: area.width - QUOTE_INSET * 2,
+    height: QUOTE_HEIGHT,
+    text: quoteText(slide),
+    color: getAccentColor(templateConfig),
+    fontSize,
+    fontFamily: templateConfig.bodyFont,
+    italic: true,
+    center: true,
+  });
+
+  if (slide.attribution) {
+    requests.push(...textBoxRequests({
+      objectId: `attribution_${area.key}`,
+      pageObjectId: area.slideId,
+      x: area.x + 36,
+      y: area.y + 270,
+      width: area.width - 72,
+      height: 40,
+      text: `\u2014 ${slide.attribution}`,
+      color: templateConfig.bodyColor,
+      fontSize: 16,
+      fontFamily: templateConfig.bodyFont,
+      center: true,
+    }));
+  }
+
+  return requests;
+}
+
+function timelineBodyRequests(slide: TimelineSlide, area: BodyArea, templateConfig: TemplateConfig): SlidesRequest[] {
+  const accent = getAccentColor(templateConfig);
+  const lineY = area.y + area.height / 2 - 40;
+  const slotWidth = area.width / slide.events.length;
+  const markerSize = 14;
+
+  const requests = rectangleRequests(
+    `timeline_line_${area.key}`, area.slideId, area.x, lineY, area.width, 3, accent
+  );
+
+  slide.events.forEach((event, eventIndex) => {
+    const slotX = area.x + eventIndex * slotWidth;
+    requests.push(...rectangleRequests(
+      `timeline_marker_${area.key}_${eventIndex}`,
+      area.slideId,
+      slotX + slotWidth / 2 - markerSize / 2,
+      lineY + 1.5 - markerSize / 2,
+      markerSize,
+      markerSize,
+      accent
+    ));
+    requests.push(...textBoxRequests({
+      objectId: `timeline_date_${area.key}_${eventIndex}`,
+      pageObjectId: area.slideId,
+      x: slotX,
+      y: lineY - 50,
+      width: slotWidth,
+      height: 36,
+      text: event.date,
+      color: accent,
+      fontSize: 14,
+      fontFamily: templateConfig.bodyFont,
+      bold: true,
+      center: true,
+    }));
+    requests.push(...textBoxRequests({
+      objectId: `timeline_label_${area.key}_${eventIndex}`,
+      pageObjectId: area.slideId,
+      x: slotX + 4,
+      y: lineY + 20,
+      width: slotWidth - 8,
+      height: 90,
+      text: event.label,
+      color: templateConfig.bodyColor,
+      fontSize: 12,
+      fontFamily: templateConfig.bodyFont,
+      center: true,
+    }));
+  });
+
+  return requests;
+}
+
+function tableBodyRequests(slide: TableSlide, area: BodyArea, templateConfig: TemplateConfig): SlidesRequest[] {
+  const tableId = `table_${area.key}`;
+  const rows = [slide.columns, ...slide.rows];
+  // The header row uses the template's accent as its fill, like the header band
+  const headerFill = getAccentColor(templateConfig);
+  const headerTextColor = templateConfig.titleSlideTextColor || { red: 1, green: 1, blue: 1 };
+  const fontSize = slide.columns.length > 4 ? 10 : 12;
+  const requests: SlidesRequest[] = [
+    {
+      createTable: {
+        objectId: tableId,
+        elementProperties: {
+          pageObjectId: area.slideId,
+          size: {
+            height: { magnitude: Math.min(area.height, rows.length * 36), unit: "PT" },
+            width: { magnitude: area.width, unit: "PT" },
+          },
+          transform: {
+            scaleX: 1, scaleY: 1, translateX: area.x, translateY: area.y, unit: "PT",
+          },
+        },
+        rows: rows.length,
+        columns: slide.columns.length,
+      },
+    },
+    {
+      updateTableCellProperties: {
+        objectId: tableId,
+        tableRange: {
+          location: { rowIndex: 0, columnIndex: 0 },
+          rowSpan: 1,
+          columnSpan: slide.columns.length,
+        },
+        tableCellProperties: {
+          tableCellBackgroundFill: { solidFill: { color: { rgbColor: headerFill } } },
+        },
+        fields: "tableCellBackgroundFill.solidFill.color",
+      },
+    },
+  ];
+
+  rows.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      // Slides rejects empty insertText requests
+      if (!cell) {
+        return;
+      }
+      const cellLocation = { rowIndex, columnIndex };
+      requests.push({
+        insertText: {
+          objectId: tableId,
+          cellLocation,
+          text: cell,
+          insertionIndex: 0,
+        },
+      });
+      requests.push({
+        updateTextStyle: {
+          objectId: tableId,
+          cellLocation,
+          style: {
+            foregroundColor: {
+              opaqueColor: { rgbColor: rowIndex === 0 ? headerTextColor : templateConfig.bodyColor },
+            },
+            bold: rowIndex === 0,
+            fontSize: { magnitude: fontSize, unit: "PT" },
+            ...(templateConfig.bodyFont && { fontFamily: templateConfig.bodyFont }),
+          },
+          textRange: { type: "ALL" },
+          fields: templateConfig.bodyFont ? "foregroundColor,bold,fontSize,fontFamily" : "foregroundColor,bold,fontSize",
+        },
+      });
+    });
+  });
+
+  return requests;
+}
+
+/**
+ * Link each cited bullet in a list box to its section of the Google Doc.
+ * Ranges are in UTF-16 code units, matching JavaScript string lengths.
+ */
+export function citationLinkRequests(slide: SlideContent, objectId: string): SlidesRequest[] {
+  if (!hasBulletCitations(slide) || !slide.citations) {
+    return [];
+  }
+  const requests: SlidesRequest[] = [];
+  let start = 0;
+  slide.bullets.forEach((bullet, index) => {
+    const url = slide.citations?.[index]?.url;
+    if (url && bullet) {
+      requests.push({
+        updateTextStyle: {
+          objectId,
+          style: { link: { url } },
+          textRange: { type: "FIXED_RANGE", startIndex: start, endIndex: start + bullet.length },
+          fields: "link",
+        },
+      });
+    }
+    start += bullet.length + 1;
+  });
+  return requests;
+}
+
+/**
+ * Image on the left, bullets on the right. Slides scales the image to fit its
+ * box, keeping the aspect ratio. Without a resolved URL only the bullets are shown.
+ */
+function imageBodyRequests(
+  slide: ImageSlide,
+  area: BodyArea,
+  templateConfig: TemplateConfig,
+  fontSize = BODY_FONT_SIZES.bullets
+): SlidesRequest[] {
+  if (!slide.imageUrl) {
+    return bulletsBodyRequests(slide.bullets, area, templateConfig, `body_${area.key}`, fontSize);
+  }
+
+  const columnWidth = (area.width - COLUMN_GAP) / 2;
+  return [
+    {
+      createImage: {
+        objectId: `image_${area.key}`,
+        url: slide.imageUrl,
+        elementProperties: {
+          pageObjectId: area.slideId,
+          size: {
+            height: { magnitude: area.height, unit: "PT" },
+            width: { magnitude: columnWidth, unit: "PT" },
+          },
+          transform: {
+            scaleX: 1, scaleY: 1, translateX: area.x, translateY: area.y, unit: "PT",
+          },
+        },
+      },
+    },
+    ...bulletsBodyRequests(
+      slide.bullets,
+      { ...area, x: area.x + columnWidth + COLUMN_GAP, width: columnWidth },
+      templateConfig,
+      `body_${area.key}`,
+      fontSize
+    ),
+  ];
+}
+
+// The theme's logo in the top-right corner, level with the title
+function logoRequests(slideId: string, key: string, frame: SlideFrame, templateConfig: TemplateConfig): SlidesRequest[] {
+  const { logo } = templateConfig;
+  if (!logo) {
+    return [];
+  }
+  const x = SLIDE_WIDTH - frame.margin - logo.width;
+  const y = frame.titleY + (frame.titleHeight - logo.height) / 2;
+  return [
+    {
+      createImage: {
+        objectId: `logo_${key}`,
+        url: logo.url,
+        elementProperties: {
+          pageObjectId: slideId,
+          size: {
+            height: { magnitude: logo.height, unit: "PT" },
+            width: { magnitude: logo.width, unit: "PT" },
+          },
+          transform: {
+            scaleX: 1, scaleY: 1, translateX: x, translateY: y, unit: "PT",
+          },
+        },
+      },
+    },
+  ];
+}
+
+function sectionSlideRequests(slide: SectionSlide, slideId: string, key: string, templateConfig: TemplateConfig): SlidesRequest[] {
+  const textColor = templateConfig.titleSlideTextColor || templateConfig.titleColor;
+  const { margin, contentWidth } = getSlideFrame(templateConfig);
+  const requests: SlidesRequest[] = [
+    backgroundRequest(slideId, templateConfig.titleSlideBackgroundColor || templateConfig.backgroundColor),
+    ...textBoxRequests({
+      objectId: `title_${key}`,
+      pageObjectId: slideId,
+      x: margin,
+      y: 190,
+      width: contentWidth,
+      height: 80,
+      text: slide.title,
+      color: textColor,
+      fontSize: 36,
+      fontFamily: templateConfig.titleFont,
+      bold: true,
+      center: true,
+    }),
+  ];
+
+  if (slide.subtitle) {
+    requests.push(...textBoxRequests({
+      objectId: `subtitle_${key}`,
+      pageObjectId: slideId,
+      x: margin,
+      y: 280,
+      width: contentWidth,
+      height: 50,
+      text: slide.subtitle,
+      color: textColor,
+      fontSize: 18,
+      fontFamily: templateConfig.bodyFont,
+      center: true,
+    }));
+  }
+
+  return requests;
+}
+
+function quoteText(slide: QuoteSlide): string {
+  return `\u201C${slide.quote}\u201D`;
+}
+
+function getSlideFrame(templateConfig: TemplateConfig): SlideFrame {
+  const margin = templateConfig.margin ?? MARGIN;
+  const contentWidth = SLIDE_WIDTH - margin * 2;
+  const titleY = templateConfig.headerColor ? (templateConfig.headerHeight ?? HEADER_HEIGHT) + 10 : TITLE_TOP;
+  // The title row grows with the theme's title size
+  const titleHeight = Math.round((TITLE_HEIGHT * getTitleFontSize(templateConfig)) / TITLE_FONT_SIZE);
+  const bodyY = titleY + titleHeight + 5;
+  const footerHeight = templateConfig.footerText ? FOOTER_HEIGHT : 0;
+  return {
+    margin,
+    contentWidth,
+    titleY,
+    titleWidth: templateConfig.logo ? contentWidth - templateConfig.logo.width - COLUMN_GAP : contentWidth,
+    titleHeight,
+    body: {
+      x: margin,
+      y: bodyY,
+      width: contentWidth,
+      height: SLIDE_HEIGHT - bodyY - margin - footerHeight,
+    },
+  };
+}
+
+function getTitleFontSize(templateConfig: TemplateConfig): number {
+  return templateConfig.titleFontSize ?? TITLE_FONT_SIZE;
+}
+
+// Default sizes of agenda, comparison and quote text scale with the theme's bullet size
+function getBodyFontSize(kind: keyof typeof BODY_FONT_SIZES, templateConfig: TemplateConfig): number {
+  const scale = (templateConfig.bodyFontSize ?? BODY_FONT_SIZES.bullets) / BODY_FONT_SIZES.bullets;
+  return Math.round(BODY_FONT_SIZES[kind] * scale);
+}
+
+function fitText(
+  paragraphs: string[],
+  box: TextFitBox,
+  defaultSize: number,
+  templateConfig: TemplateConfig,
+  options: TextFitOptions = {}
+): TextFit {
+  const min = Math.round(defaultSize * (templateConfig.minFontScale ?? DEFAULT_MIN_FONT_SCALE));
+  const fontSize = fitFontSize(paragraphs, box, { min, max: defaultSize }, options);
+  return fontSize === null
+    ? { fontSize: min, shrunk: true, overflow: true }
+    : { fontSize, shrunk: fontSize < defaultSize, overflow: false };
+}
+
+type ListSlide = BulletsSlide | ImageSlide | AgendaSlide;
+
+function continuationTitle(title: string): string {
+  return title.endsWith(" (cont.)") ? title : `${title} (cont.)`;
+}
+
+function listItems(slide: ListSlide): string[] {
+  return slide.type === "agenda" ? slide.items : slide.bullets;
+}
+
+/**
+ * The slide with only items [start, end) of its list. Later parts are
+ * continuation slides without the image and speaker notes of the first.
+ */
+function sliceListSlide(slide: ListSlide, start: number, end?: number): ListSlide {
+  if (slide.type === "agenda") {
+    const items = slide.items.slice(start, end);
+    return start === 0 ? { ...slide, items } : { type: "agenda", title: continuationTitle(slide.title), items };
+  }
+  const citations = slide.citations?.slice(start, end);
+  const bullets = slide.bullets.slice(start, end);
+  if (start === 0) {
+    return { ...slide, bullets, ...(citations && { citations }) };
+  }
+  return {
+    title: continuationTitle(slide.title),
+    bullets,
+    ...(citations?.some(Boolean) && { citations }),
+  };
+}
+
+function fitTitle(title: string, templateConfig: TemplateConfig): TextFit {
+  const { titleWidth, titleHeight } = getSlideFrame(templateConfig);
+  return fitText([title], { width: titleWidth, height: titleHeight }, getTitleFontSize(templateConfig), templateConfig, { bold: true });
+}
+
+/**
+ * Fit a list slide's items at the largest size that fits; when they do not
+ * fit at the smallest size, move the items that do not fit to continuation
+ * slides, which are laid out the same way.
+ */
+function layoutListSlide(
+  slide: ListSlide,
+  area: TextFitBox,
+  templateConfig: TemplateConfig,
+  title: TextFit,
+  listStart = 1
+): FittedSlide[] {
+  const items = listItems(slide);
+  const defaultSize = getBodyFontSize(slide.type === "agenda" ? "agenda" : "bullets", templateConfig);
+  const box = slide.type === "image" && slide.imageUrl
+    ? { width: (area.width - COLUMN_GAP) / 2, height: area.height }
+    : area;
+  const options = { bullets: true };
+  const body = fitText(items, box, defaultSize, templateConfig, options);
+  if (!body.overflow || items.length === 1) {
+    return [{ slide, title, body, ...(slide.type === "agenda" && listStart > 1 && { listStart }) }];
+  }
+
+  let count = items.length - 1;
+  while (count > 1 && !textFits(items.slice(0, count), box, body.fontSize, options)) {
+    count--;
+  }
+  const first = sliceListSlide(slide, 0, count);
+  const rest = sliceListSlide(slide, count);
+  return [
+    {
+      slide: first,
+      title,
+      body: fitText(listItems(first), box, defaultSize, templateConfig, options),
+      ...(slide.type === "agenda" && { listStart }),
+    },
+    ...layoutListSlide(rest, area, templateConfig, fitTitle(rest.title, templateConfig), listStart + count),
+  ];
+}
+
+function layoutSlide(slide: SlideContent, templateConfig: TemplateConfig): FittedSlide[] {
+  // Section dividers have room for their title
+  if (slide.type === "section") {
+    return [{ slide, title: { fontSize: getTitleFontSize(templateConfig), shrunk: false, overflow: false } }];
+  }
+
+  const area = getSlideFrame(templateConfig).body;
+  const title = fitTitle(slide.title, templateConfig);
+
+  switch (slide.type) {
+    case undefined:
+    case "bullets":
+    case "image":
+    case "agenda":
+      return layoutListSlide(slide, area, templateConfig, title);
+    case "comparison": {
+      // Both columns use the same size so they read as a pair
+      const box = { width: (area.width - COLUMN_GAP) / 2, height: area.height - COMPARISON_HEADING_HEIGHT - 8 };
+      const columns = [slide.left, slide.right].map((column) =>
+        fitText(column.bullets, box, getBodyFontSize("comparison", templateConfig), templateConfig, { bullets: true })
+      );
+      const body = columns.find(({ overflow }) => overflow)
+        ?? columns.reduce((smallest, column) => (column.fontSize < smallest.fontSize ? column : smallest));
+      return [{ slide, title, body }];
+    }
+    case "quote": {
+      const box = { width: area.width - QUOTE_INSET * 2, height: QUOTE_HEIGHT };
+      return [{ slide, title, body: fitText([quoteText(slide)], box, getBodyFontSize("quote", templateConfig), templateConfig) }];
+    }
+    default:
+      return [{ slide, title }];
+  }
+}
+
+// What changed for one slide of the structure, which may now span several
+function describeAdjustments(slideIndex: number, parts: FittedSlide[]): LayoutAdjustment[] {
+  const { title: slideTitle } = parts[0].slide;
+  const adjustments: LayoutAdjustment[] = [];
+  const fits = {
+    title: parts.map((part) => part.title),
+    body: parts.flatMap((part) => (part.body ? [part.body] : [])),
+  };
+
+  for (const element of ["title", "body"] as const) {
+    const fontSize = Math.min(...fits[element].map((fit) => fit.fontSize));
+    if (fits[element].some(({ overflow }) => overflow)) {
+      adjustments.push({ slideIndex, slideTitle, kind: "overflow", element, fontSize });
+    } else if (fits[element].some(({ shrunk }) => shrunk)) {
+      adjustments.push({ slideIndex, slideTitle, kind: "shrunk", element, fontSize });
+    }
+    if (element === "body" && parts.length > 1) {
+      adjustments.push({ slideIndex, slideTitle, kind: "continued", element, slideCount: parts.length });
+    }
+  }
+  return adjustments;
+}
+
+/**
+ * Choose font sizes so the text of each slide fits its boxes, shrinking it
+ * down to the template's minimum and continuing long lists on further
+ * slides. Oversized tables are split first.
+ */
+function layoutSlides(
+  slides: SlideContent[],
+  templateConfig: TemplateConfig
+): { slides: KeyedSlide<FittedSlide>[]; adjustments: LayoutAdjustment[] } {
+  const adjustments: LayoutAdjustment[] = [];
+  const fitted = slides.flatMap((slide, slideIndex) => {
+    const parts = splitTableSlides([slide]).flatMap((part) => layoutSlide(part, templateConfig));
+    adjustments.push(...describeAdjustments(slideIndex, parts));
+    return parts.map((part, partIndex) => ({ ...part, key: slideKey(slideIndex, partIndex) }));
+  });
+  return { slides: fitted, adjustments };
+}
+
+/**
+ * Build the requests for one content slide: the shared frame (background,
+ * optional header band, title) plus the body for the slide's type.
+ */
+function buildContentSlideRequests(
+  fitted: KeyedSlide<FittedSlide>,
+  index: number,
+  templateConfig: TemplateConfig,
+  citationStyle: CitationStyle = "none"
+): SlidesRequest[] {
+  const { slide, key } = fitted;
+  const bodyFontSize = fitted.body?.fontSize;
+  const slideId = `slide_${key}`;
+
+  // Create blank slide (we'll add our own text boxes for full control)
+  const requests: SlidesRequest[] = [
+    {
+      createSlide: {
+        objectId: slideId,
+        insertionIndex: index + 1,
+        slideLayoutReference: {
+          predefinedLayout: "BLANK",
+        },
+      },
+    },
+  ];
+
+  // Section dividers mirror the title slide instead of the content frame
+  if (slide.type === "section") {
+    return [...requests, ...sectionSlideRequests(slide, slideId, key, templateConfig)];
+  }
+
+  requests.push(backgroundRequest(slideId, templateConfig.backgroundColor));
+
+  // Calculate positions based on whether header is present
+  const hasHeader = !!templateConfig.headerColor;
+  const frame = getSlideFrame(templateConfig);
+
+  // Add header rectangle if template has it
+  if (templateConfig.headerColor) {
+    requests.push(...rectangleRequests(
+      `header_${key}`, slideId, 0, 0, SLIDE_WIDTH, templateConfig.headerHeight ?? HEADER_HEIGHT, templateConfig.headerColor
+    ));
+  }
+
+  const titleTextColor = hasHeader
+    ? (templateConfig.titleColorWithHeader || templateConfig.titleColor)
+    : templateConfig.titleColor;
+
+  requests.push(...textBoxRequests({
+    objectId: `title_${key}`,
+    pageObjectId: slideId,
+    x: frame.margin,
+    y: frame.titleY,
+    width: frame.titleWidth,
+    height: frame.titleHeight,
+    text: slide.title,
+    color: titleTextColor,
+    fontSize: fitted.title.fontSize,
+    fontFamily: templateConfig.titleFont,
+    bold: true,
+  }));
+
+  requests.push(...logoRequests(slideId, key, frame, templateConfig));
+  if (templateConfig.footerText) {
+    requests.push(...textBoxRequests({
+      objectId: `footer_${key}`,
+      pageObjectId: slideId,
+      x: frame.margin,
+      y: frame.body.y + frame.body.height,
+      width: frame.contentWidth,
+      height: FOOTER_HEIGHT,
+      text: templateConfig.footerText,
+      color: templateConfig.bodyColor,
+      fontSize: FOOTER_FONT_SIZE,
+      fontFamily: templateConfig.bodyFont,
+    }));
+  }
+
+  const area: BodyArea = { slideId, key: key, ...frame.body };
+
+  switch (slide.type) {
+    case "agenda": {
+      const box = {
+        objectId: `body_${key}`,
+        pageObjectId: slideId,
+        x: area.x,
+        y: area.y,
+        width: area.width,
+        height: area.height,
+        color: templateConfig.bodyColor,
+        fontSize: bodyFontSize ?? BODY_FONT_SIZES.agenda,
+        fontFamily: templateConfig.bodyFont,
+      };
+      const { listStart } = fitted;
+      requests.push(...(listStart
+        ? textBoxRequests({ ...box, text: slide.items.map((item, i) => `${listStart + i}. ${item}`).join("\n") })
+        : listBoxRequests({ ...box, items: slide.items, bulletPreset: "NUMBERED_DIGIT_ALPHA_ROMAN" })));
+      break;
+    }
+    case "comparison":
+      requests.push(...comparisonBodyRequests(slide, area, templateConfig, bodyFontSize));
+      break;
+    case "kpi":
+      requests.push(...kpiBodyRequests(slide, area, templateConfig));
+      break;
+    case "quote":
+      requests.push(...quoteBodyRequests(slide, area, templateConfig, bodyFontSize));
+      break;
+    case "timeline":
+      requests.push(...timelineBodyRequests(slide, area, templateConfig));
+      break;
+    case "table":
+      requests.push(...tableBodyRequests(slide, area, templateConfig));
+      break;
+    case "image":
+      requests.push(...imageBodyRequests(slide, area, templateConfig, bodyFontSize));
+      break;
+    default:
+      requests.push(...bulletsBodyRequests(slide.bullets, area, templateConfig, `body_${key}`, bodyFontSize));
+  }
+
+  if (citationStyle === "links") {
+    requests.push(...citationLinkRequests(slide, `body_${key}`));
+  }
+
+  return requests;
+}
+
+
+function titleSlideRequests(title: string, ids: TitleSlideIds, templateConfig: TemplateConfig): SlidesRequest[] {
+  const requests = [
+    backgroundRequest(ids.slideId, templateConfig.titleSlideBackgroundColor || templateConfig.backgroundColor),
+  ];
+  if (!ids.titleShapeId) {
+    return requests;
+  }
+
+  const titleTextColor = templateConfig.titleSlideTextColor || templateConfig.titleColor;
+  return [
+    ...requests,
+    {
+      insertText: {
+        objectId: ids.titleShapeId,
+        text: title,
+        insertionIndex: 0,
+      },
+    },
+    {
+      updateTextStyle: {
+        objectId: ids.titleShapeId,
+        style: {
+          foregroundColor: {
+            opaqueColor: {
+              rgbColor: titleTextColor,
+            },
+          },
+          bold: true,
+          fontSize: {
+            magnitude: templateConfig.titleSlideFontSize ?? TITLE_SLIDE_FONT_SIZE,
+            unit: "PT",
+          },
+          ...(templateConfig.titleFont && { fontFamily: templateConfig.titleFont }),
+        },
+        textRange: { type: "ALL" },
+        fields: templateConfig.titleFont ? "foregroundColor,bold,fontSize,fontFamily" : "foregroundColor,bold,fontSize",
+      },
+    },
+  ];
+}
+
+/**
+ * Every request createPresentation sends for a structure, built without
+ * calling the API. Content slides get the IDs slide_0, slide_1, ... by their
+ * index in the structure, with continuations as slide_1_1, slide_1_2, ...;
+ * the title slide is the one Slides creates with the presentation.
+ */
+export function buildPresentationRequests(params: {
+  structure: PresentationStructure;
+  templateConfig: TemplateConfig;
+  citationStyle?: CitationStyle;
+  titleSlide?: TitleSlideIds;
+}): PresentationRequests {
+  const { structure, templateConfig, citationStyle = "none", titleSlide } = params;
+  const requests = titleSlide ? titleSlideRequests(structure.title, titleSlide, templateConfig) : [];
+
+  // Oversized tables and lists continue over several slides
+  const layout = layoutSlides(structure.slides, templateConfig);
+  layout.slides.forEach((fitted, index) => {
+    requests.push(...buildContentSlideRequests(fitted, index, templateConfig, citationStyle));
+  });
+
+  return {
+    requests: requests.filter((request) => !request.createImage),
+    imageRequests: requests.filter((request) => request.createImage),
+    speakerNotes: buildSpeakerNotes(layout.slides, citationStyle),
+    layoutAdjustments: layout.adjustments,
+  };
+}
+
+// Speaker notes of each content slide, followed by the sources when citations go in the notes
+export function buildSpeakerNotes(
+  slides: KeyedSlide<{ slide: SlideContent }>[],
+  citationStyle: CitationStyle
+): PresentationRequests["speakerNotes"] {
+  return slides
+    .map(({ slide, key }) => {
+      const parts = [slide.speakerNotes?.trim(), citationStyle === "notes" ? formatCitationNotes(slide) : ""];
+      return { slideId: `slide_${key}`, text: parts.filter(Boolean).join("\n\n") };
+    })
+    .filter(({ text }) => !!text);
+}
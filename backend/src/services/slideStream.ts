@@ -0,0 +1,79 @@
+/**
+ * Incremental parser for a streamed slide response. Text is pushed as it
+ * arrives and each element of the top-level "slides" array is returned as
+ * soon as its closing brace is seen, so slides can be shown before the
+ * response is complete. Anything outside the array (code fences, prose) is
+ * ignored; the full text is still validated once the stream ends.
+ */
+export interface SlideStreamParser {
+  push(chunk: string): unknown[];
+}
+
+export function createSlideStreamParser(): SlideStreamParser {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Current string literal and the last one completed at the top level of the response object
+  let stringText = "";
+  let lastKey = "";
+  let inSlides = false;
+  let slidesDepth = 0;
+  let slideText = "";
+
+  return {
+    push(chunk) {
+      const slides: unknown[] = [];
+
+      for (const char of chunk) {
+        const capturing = inSlides && depth > slidesDepth;
+        if (capturing) {
+          slideText += char;
+        }
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === "\"") {
+            inString = false;
+            if (depth === 1) {
+              lastKey = stringText;
+            }
+          } else if (depth === 1) {
+            stringText += char;
+          }
+          continue;
+        }
+
+        if (char === "\"" && depth > 0) {
+          inString = true;
+          stringText = "";
+        } else if (char === "{" || char === "[") {
+          if (!inSlides && char === "[" && depth === 1 && lastKey === "slides") {
+            inSlides = true;
+            slidesDepth = depth + 1;
+          } else if (inSlides && depth === slidesDepth && char === "{") {
+            slideText = char;
+          }
+          depth++;
+        } else if (char === "}" || char === "]") {
+          depth = Math.max(0, depth - 1);
+          if (inSlides && depth === slidesDepth && char === "}") {
+            try {
+              slides.push(JSON.parse(slideText));
+            } catch {
+              // Left for the full validation pass to report
+            }
+            slideText = "";
+          } else if (inSlides && depth < slidesDepth) {
+            inSlides = false;
+            lastKey = "";
+          }
+        }
+      }
+
+      return slides;
+    },
+  };
+}
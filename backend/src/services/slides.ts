@@ -1,35 +1,65 @@
-import { google } from "googleapis";
-import { PresentationStructure, SlideTemplate, SLIDE_TEMPLATES, TemplateConfig } from "../types/index.js";
+import { drive_v3, google, slides_v1 } from "googleapis";
+import {
+  CitationStyle,
+  DeckChanges,
+  LayoutAdjustment,
+  MasterLayoutNames,
+  PresentationStructure,
+  SlideTemplate,
+  TemplateConfig,
+  ThemeDefinition,
+} from "../types/index.js";
+import {
+  buildDeckUpdateRequests,
+  DECK_SLIDE_FIELDS,
+  DeckUpdateError,
+  findTitleSlide,
+  readDeckSlides,
+  usesMasterLayouts,
+} from "./deckUpdate.js";
+import {
+  buildMasterPresentationRequests,
+  LAYOUT_FIELDS,
+  MASTER_LAYOUT_FIELDS,
+  MasterDeckError,
+  readMasterLayouts,
+  resolveMasterLayouts,
+} from "./masterDeck.js";
+import { buildPresentationRequests, PresentationRequests, SlidesRequest } from "./slideRequests.js";
+import { getTemplateConfig, toTemplateConfig } from "./themes.js";
 
 interface CreatePresentationParams {
   structure: PresentationStructure;
   accessToken: string;
   userEmail: string;
   template?: SlideTemplate;
+  // Used instead of the template when given
+  theme?: ThemeDefinition;
+  citationStyle?: CitationStyle;
+  // A Google Slides deck to copy and fill in from its layouts, instead of the template or theme
+  masterPresentationId?: string;
+  // Also used when updating a deck made from a master deck
+  masterLayouts?: MasterLayoutNames;
+  // A deck created earlier to update in place, instead of creating a new one
+  updatePresentationId?: string;
 }
 
 interface CreatePresentationResult {
   slidesUrl: string;
   slidesId: string;
+  layoutAdjustments: LayoutAdjustment[];
+  // Only set when a deck was updated
+  deckChanges?: DeckChanges;
 }
 
-function getTemplateConfig(template?: SlideTemplate): TemplateConfig {
-  return SLIDE_TEMPLATES[template || "modern"];
-}
+type PreparedPresentation = PresentationRequests & { presentationId: string; deckChanges?: DeckChanges };
 
-export async function createPresentation(
-  params: CreatePresentationParams
-): Promise<CreatePresentationResult> {
-  const { structure, accessToken, template } = params;
-  const templateConfig = getTemplateConfig(template);
-
-  // Create OAuth2 client with user's access token
-  const auth = new google.auth.OAuth2();
-  auth.setCredentials({ access_token: accessToken });
-
-  const slides = google.slides({ version: "v1", auth });
-
-  // Step 1: Create a new presentation
+async function createBlankPresentation(
+  slides: slides_v1.Slides,
+  structure: PresentationStructure,
+  templateConfig: TemplateConfig,
+  citationStyle: CitationStyle
+): Promise<PreparedPresentation> {
   const presentation = await slides.presentations.create({
     requestBody: {
       title: structure.title,
@@ -41,271 +71,215 @@ export async function createPresentation(
     throw new Error("Failed to create presentation");
   }
 
-  // Get the title slide ID (created by default)
-  const titleSlideId = presentation.data.slides?.[0]?.objectId;
+  // Fill in the title slide Slides created and add the content slides
+  const titleSlide = presentation.data.slides?.[0];
+  const titleShapeId = titleSlide?.pageElements?.find(
+    (el) => el.shape?.placeholder?.type === "CENTERED_TITLE" ||
+           el.shape?.placeholder?.type === "TITLE"
+  )?.objectId;
+  return {
+    presentationId,
+    ...buildPresentationRequests({
+      structure,
+      templateConfig,
+      citationStyle,
+      titleSlide: titleSlide?.objectId ? { slideId: titleSlide.objectId, titleShapeId: titleShapeId ?? undefined } : undefined,
+    }),
+  };
+}
 
-  // Step 2: Build batch update requests
-  const requests: any[] = [];
+function errorStatus(error: unknown): number | undefined {
+  return (error as { response?: { status?: number } })?.response?.status;
+}
 
-  // Apply background color to title slide
-  if (titleSlideId) {
-    const titleBg = templateConfig.titleSlideBackgroundColor || templateConfig.backgroundColor;
-    requests.push({
-      updatePageProperties: {
-        objectId: titleSlideId,
-        pageProperties: {
-          pageBackgroundFill: {
-            solidFill: {
-              color: {
-                rgbColor: titleBg,
-              },
-            },
-          },
-        },
-        fields: "pageBackgroundFill.solidFill.color",
-      },
+/**
+ * Copy the master deck with Drive, so the new presentation keeps its masters
+ * and layouts, then build the requests that replace its slides. A copy whose
+ * layouts do not fit is deleted again.
+ */
+async function copyMasterDeck(
+  slides: slides_v1.Slides,
+  drive: drive_v3.Drive,
+  params: CreatePresentationParams,
+  masterPresentationId: string,
+  masterLayouts?: MasterLayoutNames
+): Promise<PreparedPresentation> {
+  let copy;
+  try {
+    copy = await drive.files.copy({
+      fileId: masterPresentationId,
+      supportsAllDrives: true,
+      fields: "id,mimeType",
+      requestBody: { name: params.structure.title },
     });
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 404 || status === 403) {
+      throw new MasterDeckError(
+        "MASTER_NOT_FOUND",
+        "Master deck not found. Check the presentation ID and that you can view the presentation.",
+        400
+      );
+    }
+    throw error;
+  }
 
-    const titleShapeId = presentation.data.slides?.[0]?.pageElements?.find(
-      (el) => el.shape?.placeholder?.type === "CENTERED_TITLE" ||
-             el.shape?.placeholder?.type === "TITLE"
-    )?.objectId;
-
-    if (titleShapeId) {
-      requests.push({
-        insertText: {
-          objectId: titleShapeId,
-          text: structure.title,
-          insertionIndex: 0,
-        },
-      });
+  const presentationId = copy.data.id;
+  if (!presentationId) {
+    throw new Error("Failed to copy the master deck");
+  }
 
-      // Apply title styling
-      const titleTextColor = templateConfig.titleSlideTextColor || templateConfig.titleColor;
-      requests.push({
-        updateTextStyle: {
-          objectId: titleShapeId,
-          style: {
-            foregroundColor: {
-              opaqueColor: {
-                rgbColor: titleTextColor,
-              },
-            },
-            bold: true,
-            fontSize: {
-              magnitude: 44,
-              unit: "PT",
-            },
-          },
-          textRange: { type: "ALL" },
-          fields: "foregroundColor,bold,fontSize",
-        },
-      });
+  try {
+    if (copy.data.mimeType !== "application/vnd.google-apps.presentation") {
+      throw new MasterDeckError("NOT_A_PRESENTATION", "The master deck must be a Google Slides presentation", 400);
     }
+    const master = await slides.presentations.get({ presentationId, fields: MASTER_LAYOUT_FIELDS });
+    return {
+      presentationId,
+      ...buildMasterPresentationRequests({
+        structure: params.structure,
+        layouts: resolveMasterLayouts(readMasterLayouts(master.data), masterLayouts),
+        existingSlideIds: (master.data.slides || []).flatMap((slide) => (slide.objectId ? [slide.objectId] : [])),
+        citationStyle: params.citationStyle,
+      }),
+    };
+  } catch (error) {
+    await drive.files.delete({ fileId: presentationId, supportsAllDrives: true }).catch((deleteError: unknown) => {
+      console.warn(`Could not delete copy ${presentationId}: ${deleteError instanceof Error ? deleteError.message : deleteError}`);
+    });
+    throw error;
   }
+}
 
-  // Create content slides
-  // Google Slides default size is 720x540 PT (10x7.5 inches)
-  const slideWidth = 720;
-  const slideHeight = 540;
-  const margin = 36;
-  const contentWidth = slideWidth - (margin * 2); // 648 PT
+/**
+ * Read a deck generated earlier and build the requests that replace only its
+ * changed content slides, so comments and slides added by hand survive. A
+ * deck made from a master deck is rebuilt from the layouts it was copied with.
+ */
+async function prepareDeckUpdate(
+  slides: slides_v1.Slides,
+  presentationId: string,
+  structure: PresentationStructure,
+  templateConfig: TemplateConfig,
+  citationStyle: CitationStyle,
+  masterLayouts?: MasterLayoutNames
+): Promise<PreparedPresentation> {
+  let deck;
+  try {
+    deck = await slides.presentations.get({ presentationId, fields: `${DECK_SLIDE_FIELDS},${LAYOUT_FIELDS}` });
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 404 || status === 403) {
+      throw new DeckUpdateError(
+        "PRESENTATION_NOT_FOUND",
+        "Presentation to update not found. Check the presentation ID and that you can edit the presentation.",
+        400
+      );
+    }
+    throw error;
+  }
 
-  for (let i = 0; i < structure.slides.length; i++) {
-    const slide = structure.slides[i];
-    const slideId = `slide_${i}`;
-    const titleId = `title_${i}`;
-    const bodyId = `body_${i}`;
-    const headerShapeId = `header_${i}`;
+  const deckSlides = readDeckSlides(deck.data);
+  const layouts = readMasterLayouts(deck.data);
+  const titleSlide = findTitleSlide(deckSlides);
+  const presentation = usesMasterLayouts(deckSlides, layouts)
+    ? buildMasterPresentationRequests({
+      structure,
+      layouts: resolveMasterLayouts(layouts, masterLayouts),
+      existingSlideIds: [],
+      citationStyle,
+      titleSlide,
+    })
+    : buildPresentationRequests({ structure, templateConfig, citationStyle, titleSlide });
+  return {
+    presentationId,
+    ...buildDeckUpdateRequests({ slides: deckSlides, title: structure.title, presentation }),
+  };
+}
 
-    // Create blank slide (we'll add our own text boxes for full control)
-    requests.push({
-      createSlide: {
-        objectId: slideId,
-        insertionIndex: i + 1,
-        slideLayoutReference: {
-          predefinedLayout: "BLANK",
-        },
-      },
-    });
+export async function createPresentation(
+  params: CreatePresentationParams
+): Promise<CreatePresentationResult> {
+  const { structure, accessToken, template, theme, citationStyle = "none", masterPresentationId, masterLayouts, updatePresentationId } = params;
+  const templateConfig = theme ? toTemplateConfig(theme) : getTemplateConfig(template);
 
-    // Apply background color to slide
-    requests.push({
-      updatePageProperties: {
-        objectId: slideId,
-        pageProperties: {
-          pageBackgroundFill: {
-            solidFill: {
-              color: {
-                rgbColor: templateConfig.backgroundColor,
-              },
-            },
-          },
-        },
-        fields: "pageBackgroundFill.solidFill.color",
-      },
-    });
+  // Create OAuth2 client with user's access token
+  const auth = new google.auth.OAuth2();
+  auth.setCredentials({ access_token: accessToken });
 
-    // Calculate positions based on whether header is present
-    const hasHeader = !!templateConfig.headerColor;
-    const headerHeight = 60;
-    const titleY = hasHeader ? headerHeight + 10 : 20;
-    const titleHeight = 50;
-    const bodyY = titleY + titleHeight + 5;
-    const bodyHeight = slideHeight - bodyY - margin;
+  const slides = google.slides({ version: "v1", auth });
 
-    // Add header rectangle if template has it
-    if (hasHeader) {
-      requests.push({
-        createShape: {
-          objectId: headerShapeId,
-          shapeType: "RECTANGLE",
-          elementProperties: {
-            pageObjectId: slideId,
-            size: {
-              height: { magnitude: headerHeight, unit: "PT" },
-              width: { magnitude: slideWidth, unit: "PT" },
-            },
-            transform: {
-              scaleX: 1, scaleY: 1, translateX: 0, translateY: 0, unit: "PT",
-            },
-          },
-        },
-      });
-      requests.push({
-        updateShapeProperties: {
-          objectId: headerShapeId,
-          shapeProperties: {
-            shapeBackgroundFill: {
-              solidFill: { color: { rgbColor: templateConfig.headerColor } },
-            },
-            outline: { propertyState: "NOT_RENDERED" },
-          },
-          fields: "shapeBackgroundFill.solidFill.color,outline",
-        },
-      });
-    }
+  // Steps 1 and 2: Create a new presentation, copy the master deck or read
+  // the deck to update, and build the requests that fill it in
+  let prepared: PreparedPresentation;
+  if (updatePresentationId) {
+    prepared = await prepareDeckUpdate(slides, updatePresentationId, structure, templateConfig, citationStyle, masterLayouts);
+  } else if (masterPresentationId) {
+    prepared = await copyMasterDeck(slides, google.drive({ version: "v3", auth }), params, masterPresentationId, masterLayouts);
+  } else {
+    prepared = await createBlankPresentation(slides, structure, templateConfig, citationStyle);
+  }
+  const { presentationId, requests, imageRequests, speakerNotes, layoutAdjustments, deckChanges } = prepared;
 
-    // Create title text box with explicit size
-    requests.push({
-      createShape: {
-        objectId: titleId,
-        shapeType: "TEXT_BOX",
-        elementProperties: {
-          pageObjectId: slideId,
-          size: {
-            height: { magnitude: titleHeight, unit: "PT" },
-            width: { magnitude: contentWidth, unit: "PT" },
-          },
-          transform: {
-            scaleX: 1, scaleY: 1, translateX: margin, translateY: titleY, unit: "PT",
-          },
-        },
+  // Step 3: Execute batch update. Images are inserted one at a time afterwards:
+  // Google fetches each URL, and one that has expired or cannot be read
+  // should not fail the whole deck.
+  if (requests.length > 0) {
+    await slides.presentations.batchUpdate({
+      presentationId,
+      requestBody: {
+        requests,
       },
     });
+  }
 
-    // Create body text box with explicit size to fill remaining space
-    requests.push({
-      createShape: {
-        objectId: bodyId,
-        shapeType: "TEXT_BOX",
-        elementProperties: {
-          pageObjectId: slideId,
-          size: {
-            height: { magnitude: bodyHeight, unit: "PT" },
-            width: { magnitude: contentWidth, unit: "PT" },
-          },
-          transform: {
-            scaleX: 1, scaleY: 1, translateX: margin, translateY: bodyY, unit: "PT",
-          },
+  for (const request of imageRequests) {
+    try {
+      await slides.presentations.batchUpdate({
+        presentationId,
+        requestBody: {
+          requests: [request],
         },
-      },
-    });
-
-    // Add title text
-    requests.push({
-      insertText: {
-        objectId: titleId,
-        text: slide.title,
-        insertionIndex: 0,
-      },
-    });
-
-    // Apply title styling
-    const titleTextColor = hasHeader
-      ? (templateConfig.titleColorWithHeader || templateConfig.titleColor)
-      : templateConfig.titleColor;
+      });
+    } catch (error) {
+      console.warn(`Skipped image ${request.createImage?.objectId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-    requests.push({
-      updateTextStyle: {
-        objectId: titleId,
-        style: {
-          foregroundColor: {
-            opaqueColor: {
-              rgbColor: titleTextColor,
-            },
-          },
-          bold: true,
-          fontSize: {
-            magnitude: 28,
-            unit: "PT",
-          },
-        },
-        textRange: { type: "ALL" },
-        fields: "foregroundColor,bold,fontSize",
-      },
+  // Step 4: Add speaker notes. Notes pages only exist once the slides are
+  // created, so their IDs have to be read back before inserting text.
+  if (speakerNotes.length > 0) {
+    const created = await slides.presentations.get({
+      presentationId,
+      fields: "slides(objectId,slideProperties.notesPage.notesProperties.speakerNotesObjectId)",
     });
 
-    // Add bullet points
-    const bulletText = slide.bullets.map((b) => `${b}`).join("\n");
-    requests.push({
-      insertText: {
-        objectId: bodyId,
-        text: bulletText,
-        insertionIndex: 0,
-      },
-    });
+    const notesRequests: SlidesRequest[] = [];
+    for (const { slideId, text } of speakerNotes) {
+      const speakerNotesId = created.data.slides
+        ?.find((page) => page.objectId === slideId)
+        ?.slideProperties?.notesPage?.notesProperties?.speakerNotesObjectId;
 
-    // Apply body text styling
-    requests.push({
-      updateTextStyle: {
-        objectId: bodyId,
-        style: {
-          foregroundColor: {
-            opaqueColor: {
-              rgbColor: templateConfig.bodyColor,
-            },
+      // Inserting into the speaker notes ID creates the shape if it is missing
+      if (speakerNotesId) {
+        notesRequests.push({
+          insertText: {
+            objectId: speakerNotesId,
+            text,
+            insertionIndex: 0,
           },
-          fontSize: {
-            magnitude: 18,
-            unit: "PT",
-          },
-        },
-        textRange: { type: "ALL" },
-        fields: "foregroundColor,fontSize",
-      },
-    });
+        });
+      }
+    }
 
-    // Format as bullet list
-    requests.push({
-      createParagraphBullets: {
-        objectId: bodyId,
-        textRange: {
-          type: "ALL",
+    if (notesRequests.length > 0) {
+      await slides.presentations.batchUpdate({
+        presentationId,
+        requestBody: {
+          requests: notesRequests,
         },
-        bulletPreset: "BULLET_DISC_CIRCLE_SQUARE",
-      },
-    });
-  }
-
-  // Step 3: Execute batch update
-  if (requests.length > 0) {
-    await slides.presentations.batchUpdate({
-      presentationId,
-      requestBody: {
-        requests,
-      },
-    });
+      });
+    }
   }
 
   const slidesUrl = `https://docs.google.com/presentation/d/${presentationId}/edit`;
@@ -313,5 +287,7 @@ export async function createPresentation(
   return {
     slidesUrl,
     slidesId: presentationId,
+    layoutAdjustments,
+    ...(deckChanges && { deckChanges }),
   };
 }
@@ -0,0 +1,98 @@
+import {
+  CombinedSource,
+  DocumentBlock,
+  DocumentSource,
+  GoogleDocsContent,
+  StructuredDocument,
+  StructuredSection,
+} from "../types/index.js";
+import { DocsError, fetchGoogleDocsContent } from "./docs.js";
+import { renderDocumentMarkdown } from "./document.js";
+
+export const MAX_SOURCES = 5;
+// Markdown has no heading level below this
+const MAX_HEADING_LEVEL = 6;
+
+interface ImportedSource extends CombinedSource {
+  content: string;
+  document?: StructuredDocument;
+}
+
+function sourceHeading(index: number, title: string): string {
+  return `Source ${index + 1}: ${title}`;
+}
+
+// Pasted text has no structure; its blank-line separated paragraphs are kept
+function textBlocks(content: string): DocumentBlock[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((text) => ({ type: "paragraph", spans: [{ text }] }));
+}
+
+/**
+ * Combine imported sources into one document: each source becomes an H1
+ * "Source N: title" section with its own headings moved one level down, so
+ * the prompt and the long-document chunker both see where each source starts.
+ */
+export function combineSources(sources: ImportedSource[], title: string): GoogleDocsContent {
+  const sections = sources.flatMap((source, index): StructuredSection[] => {
+    const own = source.document?.sections ?? [{ heading: "", level: 0, blocks: textBlocks(source.content) }];
+    const [first, ...rest] = own;
+    const leading = first && first.level === 0 ? first.blocks : [];
+    const nested = first && first.level === 0 ? rest : own;
+    return [
+      { heading: sourceHeading(index, source.title), level: 1, blocks: leading },
+      ...nested.map((section) => ({ ...section, level: Math.min(section.level + 1, MAX_HEADING_LEVEL) })),
+    ];
+  });
+
+  const document: StructuredDocument = { title, sections };
+  return {
+    title,
+    content: renderDocumentMarkdown(document),
+    document,
+    sources: sources.map(({ title: sourceTitle, origin }) => ({ title: sourceTitle, origin })),
+  };
+}
+
+/**
+ * Fetch the Google Docs among the sources in parallel and combine them with
+ * the pasted ones, in request order. A failing Doc fails the whole import,
+ * with its position in the error message.
+ */
+export async function importSources(
+  sources: DocumentSource[],
+  title: string,
+  accessToken: string
+): Promise<GoogleDocsContent> {
+  const imported = await Promise.all(sources.map(async (source, index): Promise<ImportedSource> => {
+    if (!source.googleDocsUrl) {
+      return {
+        title: source.documentTitle || "Pasted text",
+        origin: "pasted",
+        content: source.documentContent || "",
+      };
+    }
+
+    try {
+      const docsContent = await fetchGoogleDocsContent(source.googleDocsUrl, accessToken, {
+        sectionHeading: source.sectionHeading,
+      });
+      return {
+        title: source.documentTitle || docsContent.title,
+        origin: "google-docs",
+        content: docsContent.content,
+        document: docsContent.document,
+      };
+    } catch (error) {
+      if (error instanceof DocsError) {
+        throw new DocsError(error.code, `sources[${index}]: ${error.message}`, error.httpStatus);
+      }
+      throw error;
+    }
+  }));
+
+  return combineSources(imported, title);
+}
@@ -0,0 +1,470 @@
+import { PresentationStructure, SlideContent, SlideType, TableSlide } from "../types/index.js";
+import { JsonSchema } from "./llm/provider.js";
+
+export const SLIDE_TYPES: SlideType[] = [
+  "bullets",
+  "agenda",
+  "section",
+  "comparison",
+  "kpi",
+  "quote",
+  "timeline",
+  "table",
+  "image",
+];
+
+// Layout capacity of the renderers; larger values do not fit on one slide
+export const MAX_KPI_METRICS = 4;
+export const MAX_TIMELINE_EVENTS = 6;
+export const MAX_TABLE_COLUMNS = 6;
+// Longer tables continue on further slides, up to MAX_TABLE_ROWS in total
+export const MAX_TABLE_ROWS_PER_SLIDE = 6;
+export const MAX_TABLE_ROWS = 30;
+
+// Writing limits stated in the prompt and checked on the model's response
+export const MAX_TITLE_WORDS = 8;
+export const MIN_BULLETS = 3;
+export const MAX_BULLETS = 5;
+export const MAX_BULLET_WORDS = 15;
+
+const stringSchema: JsonSchema = { type: "string" };
+const stringListSchema: JsonSchema = { type: "array", items: stringSchema };
+const comparisonColumnSchema: JsonSchema = {
+  type: "object",
+  properties: { heading: stringSchema, bullets: stringListSchema },
+  required: ["heading", "bullets"],
+};
+
+/**
+ * Schema for the model's slide response. Provider schema dialects lack
+ * reliable union support, so each slide lists the fields of every type;
+ * validateSlide enforces the per-type shape.
+ */
+export const SLIDE_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    slides: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: SLIDE_TYPES },
+          title: stringSchema,
+          speakerNotes: stringSchema,
+          bullets: stringListSchema,
+          // Passages supporting each bullet, resolved into Citation objects after validation
+          citations: stringListSchema,
+          items: stringListSchema,
+          subtitle: stringSchema,
+          left: comparisonColumnSchema,
+          right: comparisonColumnSchema,
+          metrics: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { value: stringSchema, label: stringSchema },
+              required: ["value", "label"],
+            },
+          },
+          context: stringSchema,
+          quote: stringSchema,
+          attribution: stringSchema,
+          events: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { date: stringSchema, label: stringSchema },
+              required: ["date", "label"],
+            },
+          },
+          columns: stringListSchema,
+          rows: { type: "array", items: stringListSchema },
+          imageId: stringSchema,
+        },
+        required: ["type", "title"],
+      },
+    },
+  },
+  required: ["slides"],
+};
+
+type RawObject = Record<string, unknown>;
+
+const SLIDE_FIELDS = [
+  ...Object.keys(SLIDE_RESPONSE_SCHEMA.properties!.slides.items!.properties!),
+  // Set from the document after parsing, so a value from the model is replaced rather than rejected
+  "imageUrl",
+];
+
+/**
+ * Fields of a model response that are not in SLIDE_RESPONSE_SCHEMA. The
+ * renderer would drop them, but a response that adds its own fields is not
+ * following the instructions and is sent back for repair.
+ */
+export function findUnknownFields(response: RawObject): string[] {
+  const problems = Object.keys(response)
+    .filter((key) => key !== "slides")
+    .map((key) => `the response has a "${key}" field that is not in the schema`);
+  if (Array.isArray(response.slides)) {
+    problems.push(...response.slides.flatMap(findUnknownSlideFields));
+  }
+  return problems;
+}
+
+export function findUnknownSlideFields(slide: unknown, index: number): string[] {
+  const unknown = isObject(slide) ? Object.keys(slide).filter((key) => !SLIDE_FIELDS.includes(key)) : [];
+  return unknown.length > 0 ? [`slides[${index}] has fields that are not in the schema: ${unknown.join(", ")}`] : [];
+}
+
+function isObject(value: unknown): value is RawObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function cleanStrings(value: unknown): unknown {
+  return Array.isArray(value)
+    ? value.filter(isNonEmptyString).map((item) => item.trim())
+    : value;
+}
+
+function cleanOptionalString(value: unknown): string | undefined {
+  return isNonEmptyString(value) ? value.trim() : undefined;
+}
+
+/**
+ * Bullets with their citations kept aligned when blank bullets are dropped.
+ * The model cites with plain quotes; structures sent back by clients carry
+ * Citation objects, which validateSlide checks.
+ */
+function bulletFields(bullets: unknown, citations: unknown): RawObject {
+  if (!Array.isArray(bullets)) {
+    return { bullets };
+  }
+  const fields: RawObject = { bullets: cleanStrings(bullets) };
+  if (Array.isArray(citations)) {
+    const aligned = bullets.flatMap((bullet, index) => {
+      if (!isNonEmptyString(bullet)) {
+        return [];
+      }
+      const citation = citations[index];
+      return [isNonEmptyString(citation) ? { quote: citation.trim() } : isObject(citation) ? citation : null];
+    });
+    if (aligned.some(Boolean)) {
+      fields.citations = aligned;
+    }
+  }
+  return fields;
+}
+
+function isValidCitation(value: unknown): boolean {
+  return value === null || (
+    isObject(value) &&
+    isNonEmptyString(value.quote) &&
+    (value.heading === undefined || typeof value.heading === "string") &&
+    (value.url === undefined || (typeof value.url === "string" && value.url.startsWith("https://")))
+  );
+}
+
+function validateCitations(slide: RawObject, path: string): string[] {
+  if (slide.citations === undefined) {
+    return [];
+  }
+  if (
+    !Array.isArray(slide.citations) ||
+    !Array.isArray(slide.bullets) ||
+    slide.citations.length !== slide.bullets.length ||
+    !slide.citations.every(isValidCitation)
+  ) {
+    return [`${path}.citations must have one entry per bullet, each null or {quote, heading?, url?}`];
+  }
+  return [];
+}
+
+// Optional text fields are omitted entirely when blank
+function optionalField(key: string, value: unknown): RawObject {
+  const cleaned = cleanOptionalString(value);
+  return cleaned ? { [key]: cleaned } : {};
+}
+
+/**
+ * Copy only the fields that belong to the slide's type, trimming strings and
+ * dropping blank list entries. Unknown input is passed through unchanged so
+ * validateSlide can report on it.
+ */
+export function normalizeSlide(value: unknown): unknown {
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const base: RawObject = { title: typeof value.title === "string" ? value.title.trim() : value.title };
+  if (value.type !== undefined) {
+    base.type = value.type;
+  }
+  Object.assign(base, optionalField("speakerNotes", value.speakerNotes));
+
+  switch (value.type) {
+    case undefined:
+    case "bullets":
+      return { ...base, ...bulletFields(value.bullets, value.citations) };
+    case "agenda":
+      return { ...base, items: cleanStrings(value.items) };
+    case "section":
+      return { ...base, ...optionalField("subtitle", value.subtitle) };
+    case "comparison": {
+      const column = (raw: unknown) => isObject(raw)
+        ? { heading: typeof raw.heading === "string" ? raw.heading.trim() : raw.heading, bullets: cleanStrings(raw.bullets) }
+        : raw;
+      return { ...base, left: column(value.left), right: column(value.right) };
+    }
+    case "kpi":
+      return {
+        ...base,
+        metrics: Array.isArray(value.metrics)
+          ? value.metrics.map((metric) => isObject(metric)
+            ? { value: String(metric.value ?? "").trim(), label: String(metric.label ?? "").trim() }
+            : metric)
+          : value.metrics,
+        ...optionalField("context", value.context),
+      };
+    case "quote":
+      return {
+        ...base,
+        quote: typeof value.quote === "string" ? value.quote.trim() : value.quote,
+        ...optionalField("attribution", value.attribution),
+      };
+    case "timeline":
+      return {
+        ...base,
+        events: Array.isArray(value.events)
+          ? value.events.map((event) => isObject(event)
+            ? { date: String(event.date ?? "").trim(), label: String(event.label ?? "").trim() }
+            : event)
+          : value.events,
+      };
+    case "table":
+      return {
+        ...base,
+        columns: Array.isArray(value.columns) ? value.columns.map((column) => String(column ?? "").trim()) : value.columns,
+        rows: Array.isArray(value.rows)
+          ? value.rows.map((row) => Array.isArray(row) ? row.map((cell) => String(cell ?? "").trim()) : row)
+          : value.rows,
+      };
+    case "image":
+      return {
+        ...base,
+        imageId: typeof value.imageId === "string" ? value.imageId.trim() : value.imageId,
+        ...optionalField("imageUrl", value.imageUrl),
+        ...bulletFields(value.bullets, value.citations),
+      };
+    default:
+      return { ...value };
+  }
+}
+
+/**
+ * Validate one slide against the shape required by its type.
+ * Returns a list of problems; empty when valid.
+ */
+export function validateSlide(value: unknown, index: number): string[] {
+  const path = `slides[${index}]`;
+
+  if (!isObject(value)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const slide = value;
+
+  if (!isNonEmptyString(slide.title)) {
+    errors.push(`${path}.title is required`);
+  }
+  if (slide.speakerNotes !== undefined && typeof slide.speakerNotes !== "string") {
+    errors.push(`${path}.speakerNotes must be a string`);
+  }
+
+  switch (slide.type) {
+    case undefined:
+    case "bullets":
+      if (!isStringArray(slide.bullets)) {
+        errors.push(`${path}.bullets must be an array of strings`);
+      }
+      errors.push(...validateCitations(slide, path));
+      break;
+    case "agenda":
+      if (!isStringArray(slide.items) || slide.items.length === 0) {
+        errors.push(`${path}.items must be a non-empty array of strings`);
+      }
+      break;
+    case "section":
+      if (slide.subtitle !== undefined && typeof slide.subtitle !== "string") {
+        errors.push(`${path}.subtitle must be a string`);
+      }
+      break;
+    case "comparison":
+      for (const side of ["left", "right"] as const) {
+        const column = slide[side];
+        if (!isObject(column) || !isNonEmptyString(column.heading) || !isStringArray(column.bullets)) {
+          errors.push(`${path}.${side} must have a heading and an array of bullets`);
+        }
+      }
+      break;
+    case "kpi":
+      if (
+        !Array.isArray(slide.metrics) ||
+        slide.metrics.length === 0 ||
+        slide.metrics.length > MAX_KPI_METRICS ||
+        !slide.metrics.every((metric) => isObject(metric) && isNonEmptyString(metric.value) && isNonEmptyString(metric.label))
+      ) {
+        errors.push(`${path}.metrics must have 1-${MAX_KPI_METRICS} entries with a value and label`);
+      }
+      break;
+    case "quote":
+      if (!isNonEmptyString(slide.quote)) {
+        errors.push(`${path}.quote is required`);
+      }
+      if (slide.attribution !== undefined && typeof slide.attribution !== "string") {
+        errors.push(`${path}.attribution must be a string`);
+      }
+      break;
+    case "timeline":
+      if (
+        !Array.isArray(slide.events) ||
+        slide.events.length === 0 ||
+        slide.events.length > MAX_TIMELINE_EVENTS ||
+        !slide.events.every((event) => isObject(event) && isNonEmptyString(event.date) && isNonEmptyString(event.label))
+      ) {
+        errors.push(`${path}.events must have 1-${MAX_TIMELINE_EVENTS} entries with a date and label`);
+      }
+      break;
+    case "table": {
+      const columns = slide.columns;
+      if (!isStringArray(columns) || columns.length === 0 || columns.length > MAX_TABLE_COLUMNS) {
+        errors.push(`${path}.columns must have 1-${MAX_TABLE_COLUMNS} strings`);
+      } else if (
+        !Array.isArray(slide.rows) ||
+        !slide.rows.every((row) => isStringArray(row) && row.length === columns.length)
+      ) {
+        errors.push(`${path}.rows must be arrays of ${columns.length} strings`);
+      } else if (slide.rows.length > MAX_TABLE_ROWS) {
+        errors.push(`${path}.rows must have at most ${MAX_TABLE_ROWS} entries`);
+      }
+      break;
+    }
+    case "image":
+      if (!isNonEmptyString(slide.imageId)) {
+        errors.push(`${path}.imageId is required`);
+      }
+      // The URL is fetched by Google when the deck is created
+      if (slide.imageUrl !== undefined && !(typeof slide.imageUrl === "string" && slide.imageUrl.startsWith("https://"))) {
+        errors.push(`${path}.imageUrl must be an https URL`);
+      }
+      if (!isStringArray(slide.bullets)) {
+        errors.push(`${path}.bullets must be an array of strings`);
+      }
+      errors.push(...validateCitations(slide, path));
+      break;
+    default:
+      errors.push(`${path}.type must be one of: ${SLIDE_TYPES.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Split tables with more than MAX_TABLE_ROWS_PER_SLIDE rows across
+ * consecutive slides. Each part repeats the header row; later parts are
+ * titled "(cont.)" and carry no speaker notes of their own.
+ */
+export function splitTableSlides(slides: SlideContent[]): SlideContent[] {
+  return slides.flatMap((slide): SlideContent[] => {
+    if (slide.type !== "table" || slide.rows.length <= MAX_TABLE_ROWS_PER_SLIDE) {
+      return [slide];
+    }
+
+    const parts: TableSlide[] = [];
+    for (let start = 0; start < slide.rows.length; start += MAX_TABLE_ROWS_PER_SLIDE) {
+      const rows = slide.rows.slice(start, start + MAX_TABLE_ROWS_PER_SLIDE);
+      if (start === 0) {
+        parts.push({ ...slide, rows });
+      } else {
+        parts.push({ type: "table", title: `${slide.title} (cont.)`, columns: slide.columns, rows });
+      }
+    }
+    return parts;
+  });
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Check valid slides against the writing requirements given to the model
+ * (slide count, title and bullet lengths). Unlike validateSlide these are
+ * not needed to render the deck, so callers may choose to tolerate them.
+ */
+export function checkSlideRequirements(slides: SlideContent[], slideCount: number): string[] {
+  const problems: string[] = [];
+
+  if (slides.length !== slideCount) {
+    problems.push(`expected exactly ${slideCount} slides but got ${slides.length}`);
+  }
+
+  slides.forEach((slide, index) => {
+    const path = `slides[${index}]`;
+    const titleWords = countWords(slide.title);
+    if (titleWords > MAX_TITLE_WORDS) {
+      problems.push(`${path}.title has ${titleWords} words (max ${MAX_TITLE_WORDS})`);
+    }
+
+    if (slide.type === undefined || slide.type === "bullets") {
+      if (slide.bullets.length < MIN_BULLETS || slide.bullets.length > MAX_BULLETS) {
+        problems.push(`${path}.bullets has ${slide.bullets.length} entries (expected ${MIN_BULLETS}-${MAX_BULLETS})`);
+      }
+      slide.bullets.forEach((bullet, bulletIndex) => {
+        const bulletWords = countWords(bullet);
+        if (bulletWords > MAX_BULLET_WORDS) {
+          problems.push(`${path}.bullets[${bulletIndex}] has ${bulletWords} words (max ${MAX_BULLET_WORDS})`);
+        }
+      });
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Validate a client-supplied presentation structure (e.g. an edited preview)
+ * before it is rendered. Returns a list of problems; empty when valid.
+ */
+export function validatePresentationStructure(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== "object") {
+    return ["structure must be an object"];
+  }
+
+  const structure = value as Partial<PresentationStructure>;
+
+  if (typeof structure.title !== "string" || !structure.title.trim()) {
+    errors.push("structure.title is required");
+  }
+
+  if (!Array.isArray(structure.slides) || structure.slides.length === 0) {
+    errors.push("structure.slides must be a non-empty array");
+    return errors;
+  }
+
+  structure.slides.forEach((slide: SlideContent, index) => {
+    errors.push(...validateSlide(slide, index));
+  });
+
+  return errors;
+}
@@ -0,0 +1,115 @@
+// Slides text boxes default to Arial with 0.1in insets and single line spacing
+const BOX_INSET = 7.2;
+const LINE_HEIGHT = 1.15;
+// Bullet glyph and the gap after it, in ems
+const BULLET_INDENT = 1.5;
+const BOLD_WIDTH_FACTOR = 1.07;
+
+// Approximate Arial advance widths, in ems
+const NARROW = /[iljtfI.,;:!'|()[\]]/;
+const WIDE = /[mwMW@%]/;
+
+function characterWidth(char: string): number {
+  if (char === " ") {
+    return 0.28;
+  }
+  if (NARROW.test(char)) {
+    return 0.28;
+  }
+  if (WIDE.test(char)) {
+    return 0.86;
+  }
+  if (char === "r") {
+    return 0.33;
+  }
+  if (/[A-Z]/.test(char)) {
+    return 0.67;
+  }
+  if (/[0-9]/.test(char)) {
+    return 0.56;
+  }
+  return 0.52;
+}
+
+export interface TextFitBox {
+  width: number;
+  height: number;
+}
+
+export interface TextFitOptions {
+  bold?: boolean;
+  // Each paragraph is preceded by a bullet or number
+  bullets?: boolean;
+}
+
+// Width of a run of text in points
+export function measureTextWidth(text: string, fontSize: number, bold = false): number {
+  let ems = 0;
+  for (const char of text) {
+    ems += characterWidth(char);
+  }
+  return ems * fontSize * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * Lines a paragraph wraps to in a box of the given inner width, breaking at
+ * spaces like Slides does; a word wider than the line is broken across lines.
+ */
+function countParagraphLines(paragraph: string, lineWidth: number, fontSize: number, bold: boolean): number {
+  const spaceWidth = measureTextWidth(" ", fontSize, bold);
+  let lines = 1;
+  let used = 0;
+
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const width = measureTextWidth(word, fontSize, bold);
+    const needed = used === 0 ? width : used + spaceWidth + width;
+    if (needed <= lineWidth) {
+      used = needed;
+      continue;
+    }
+    if (used > 0) {
+      lines++;
+    }
+    lines += Math.ceil(width / lineWidth) - 1;
+    used = width % lineWidth || lineWidth;
+  }
+  return lines;
+}
+
+// Height the paragraphs take up in a box of the given width, insets included
+export function measureTextHeight(
+  paragraphs: string[],
+  width: number,
+  fontSize: number,
+  options: TextFitOptions = {}
+): number {
+  const indent = options.bullets ? BULLET_INDENT * fontSize : 0;
+  const lineWidth = Math.max(width - BOX_INSET * 2 - indent, fontSize);
+  const lines = paragraphs.reduce(
+    (total, paragraph) => total + countParagraphLines(paragraph, lineWidth, fontSize, !!options.bold),
+    0
+  );
+  return lines * fontSize * LINE_HEIGHT + BOX_INSET * 2;
+}
+
+export function textFits(paragraphs: string[], box: TextFitBox, fontSize: number, options: TextFitOptions = {}): boolean {
+  return measureTextHeight(paragraphs, box.width, fontSize, options) <= box.height;
+}
+
+/**
+ * The largest font size from maxSize down to minSize, in whole points, at
+ * which the paragraphs fit the box; null when they do not fit even at minSize.
+ */
+export function fitFontSize(
+  paragraphs: string[],
+  box: TextFitBox,
+  bounds: { min: number; max: number },
+  options: TextFitOptions = {}
+): number | null {
+  for (let fontSize = bounds.max; fontSize >= bounds.min; fontSize--) {
+    if (textFits(paragraphs, box, fontSize, options)) {
+      return fontSize;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,245 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { RgbColor, SlideTemplate, TemplateConfig, ThemeDefinition } from "../types/index.js";
+
+// Used when a request names no theme, if the themes directory has it
+export const DEFAULT_THEME = "modern";
+
+const DEFAULT_THEMES_DIR = join(__dirname, "../../themes");
+const THEME_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const REQUIRED_COLORS = ["title", "body", "background"];
+const OPTIONAL_COLORS = ["header", "titleSlideBackground", "titleSlideText", "titleOnHeader"];
+
+interface Bounds {
+  min: number;
+  max: number;
+}
+
+// Sizes in points; a logo is at most as tall as the default title row
+const FONT_SIZE_BOUNDS: Record<string, Bounds> = {
+  title: { min: 12, max: 60 },
+  body: { min: 10, max: 32 },
+  titleSlide: { min: 20, max: 72 },
+};
+const LAYOUT_BOUNDS: Record<string, Bounds> = {
+  margin: { min: 0, max: 120 },
+  headerHeight: { min: 20, max: 150 },
+};
+const LOGO_BOUNDS: Record<string, Bounds> = {
+  width: { min: 1, max: 200 },
+  height: { min: 1, max: 50 },
+};
+const MIN_FONT_SCALE_BOUNDS: Bounds = { min: 0.5, max: 1 };
+const MAX_FONT_NAME_LENGTH = 100;
+const MAX_FOOTER_LENGTH = 200;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Unknown keys are reported so a misspelled setting is not silently ignored
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string, problems: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${path ? `${path}.` : ""}${key} is not a theme setting`);
+    }
+  }
+}
+
+function checkNumber(value: unknown, path: string, bounds: Bounds, problems: string[]): void {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < bounds.min || value > bounds.max) {
+    problems.push(`${path} must be a number from ${bounds.min} to ${bounds.max}`);
+  }
+}
+
+function optionalSection(
+  theme: Record<string, unknown>,
+  key: string,
+  allowed: string[],
+  problems: string[]
+): Record<string, unknown> | undefined {
+  const section = theme[key];
+  if (section === undefined) {
+    return undefined;
+  }
+  if (!isObject(section)) {
+    problems.push(`${key} must be an object`);
+    return undefined;
+  }
+  checkKeys(section, allowed, key, problems);
+  return section;
+}
+
+function checkSizes(section: Record<string, unknown> | undefined, path: string, bounds: Record<string, Bounds>, problems: string[]): void {
+  for (const [key, keyBounds] of Object.entries(bounds)) {
+    if (section?.[key] !== undefined) {
+      checkNumber(section[key], `${path}.${key}`, keyBounds, problems);
+    }
+  }
+}
+
+// Problems with a theme definition; empty when it is valid
+export function validateTheme(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["theme must be an object"];
+  }
+  const problems: string[] = [];
+  checkKeys(
+    value,
+    ["id", "name", "description", "colors", "fonts", "fontSizes", "minFontScale", "layout", "logo", "footer"],
+    "",
+    problems
+  );
+
+  if (typeof value.id !== "string" || !THEME_ID_PATTERN.test(value.id)) {
+    problems.push("id must be up to 40 lowercase letters, digits and hyphens");
+  }
+  if (typeof value.name !== "string" || !value.name.trim()) {
+    problems.push("name is required");
+  }
+  if (value.description !== undefined && typeof value.description !== "string") {
+    problems.push("description must be a string");
+  }
+
+  if (!isObject(value.colors)) {
+    problems.push("colors is required");
+  } else {
+    checkKeys(value.colors, [...REQUIRED_COLORS, ...OPTIONAL_COLORS], "colors", problems);
+    for (const key of [...REQUIRED_COLORS, ...OPTIONAL_COLORS]) {
+      const color = value.colors[key];
+      if (color === undefined && OPTIONAL_COLORS.includes(key)) {
+        continue;
+      }
+      if (typeof color !== "string" || !HEX_COLOR_PATTERN.test(color)) {
+        problems.push(`colors.${key} must be a "#rrggbb" color`);
+      }
+    }
+  }
+
+  const fonts = optionalSection(value, "fonts", ["title", "body"], problems);
+  for (const key of ["title", "body"]) {
+    const font = fonts?.[key];
+    if (font !== undefined && (typeof font !== "string" || !font.trim() || font.length > MAX_FONT_NAME_LENGTH)) {
+      problems.push(`fonts.${key} must be a font name of up to ${MAX_FONT_NAME_LENGTH} characters`);
+    }
+  }
+
+  checkSizes(optionalSection(value, "fontSizes", Object.keys(FONT_SIZE_BOUNDS), problems), "fontSizes", FONT_SIZE_BOUNDS, problems);
+  if (value.minFontScale !== undefined) {
+    checkNumber(value.minFontScale, "minFontScale", MIN_FONT_SCALE_BOUNDS, problems);
+  }
+  checkSizes(optionalSection(value, "layout", Object.keys(LAYOUT_BOUNDS), problems), "layout", LAYOUT_BOUNDS, problems);
+
+  const logo = optionalSection(value, "logo", ["url", ...Object.keys(LOGO_BOUNDS)], problems);
+  if (logo) {
+    // Slides fetches the image itself, so it must be publicly reachable
+    if (typeof logo.url !== "string" || !logo.url.startsWith("https://")) {
+      problems.push("logo.url must be an https:// URL");
+    }
+    for (const [key, bounds] of Object.entries(LOGO_BOUNDS)) {
+      checkNumber(logo[key], `logo.${key}`, bounds, problems);
+    }
+  }
+
+  const footer = optionalSection(value, "footer", ["text"], problems);
+  if (footer && (typeof footer.text !== "string" || !footer.text.trim() || footer.text.length > MAX_FOOTER_LENGTH)) {
+    problems.push(`footer.text must be text of up to ${MAX_FOOTER_LENGTH} characters`);
+  }
+
+  return problems;
+}
+
+function hexToRgb(hex: string): RgbColor {
+  const channel = (offset: number) => Math.round((parseInt(hex.slice(offset, offset + 2), 16) / 255) * 1000) / 1000;
+  return { red: channel(1), green: channel(3), blue: channel(5) };
+}
+
+export function toTemplateConfig(theme: ThemeDefinition): TemplateConfig {
+  const { colors } = theme;
+  return {
+    name: theme.name,
+    description: theme.description || "",
+    titleColor: hexToRgb(colors.title),
+    bodyColor: hexToRgb(colors.body),
+    backgroundColor: hexToRgb(colors.background),
+    headerColor: colors.header ? hexToRgb(colors.header) : undefined,
+    titleSlideBackgroundColor: colors.titleSlideBackground ? hexToRgb(colors.titleSlideBackground) : undefined,
+    titleSlideTextColor: colors.titleSlideText ? hexToRgb(colors.titleSlideText) : undefined,
+    titleColorWithHeader: colors.titleOnHeader ? hexToRgb(colors.titleOnHeader) : undefined,
+    minFontScale: theme.minFontScale,
+    titleFont: theme.fonts?.title,
+    bodyFont: theme.fonts?.body,
+    titleFontSize: theme.fontSizes?.title,
+    bodyFontSize: theme.fontSizes?.body,
+    titleSlideFontSize: theme.fontSizes?.titleSlide,
+    margin: theme.layout?.margin,
+    headerHeight: theme.layout?.headerHeight,
+    logo: theme.logo,
+    footerText: theme.footer?.text,
+  };
+}
+
+function loadThemes(dir: string): ThemeDefinition[] {
+  const files = readdirSync(dir).filter((file) => file.endsWith(".json")).sort();
+  const loaded = files.map((file) => {
+    const path = join(dir, file);
+    let value: unknown;
+    try {
+      value = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      throw new Error(`Invalid theme file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const problems = validateTheme(value);
+    if (problems.length > 0) {
+      throw new Error(`Invalid theme file ${path}: ${problems.join("; ")}`);
+    }
+    return value as ThemeDefinition;
+  });
+  if (loaded.length === 0) {
+    throw new Error(`No themes found in ${dir}`);
+  }
+  return loaded;
+}
+
+let themes: Map<string, ThemeDefinition> | null = null;
+
+/**
+ * Themes come from the *.json files in THEMES_DIR (default backend/themes),
+ * which are all validated when first loaded. The default theme is listed first.
+ */
+function getThemes(): Map<string, ThemeDefinition> {
+  if (!themes) {
+    const loaded = loadThemes(process.env.THEMES_DIR || DEFAULT_THEMES_DIR);
+    const ids = new Set<string>();
+    for (const theme of loaded) {
+      if (ids.has(theme.id)) {
+        throw new Error(`Theme "${theme.id}" is defined more than once`);
+      }
+      ids.add(theme.id);
+    }
+    loaded.sort((a, b) => Number(b.id === DEFAULT_THEME) - Number(a.id === DEFAULT_THEME));
+    themes = new Map(loaded.map((theme) => [theme.id, theme]));
+  }
+  return themes;
+}
+
+// Replace the loaded themes (e.g. in tests); null reloads them from the themes directory
+export function setThemes(value: ThemeDefinition[] | null): void {
+  themes = value && new Map(value.map((theme) => [theme.id, theme]));
+}
+
+export function listThemes(): ThemeDefinition[] {
+  return [...getThemes().values()];
+}
+
+export function findTheme(id: SlideTemplate): ThemeDefinition | undefined {
+  return getThemes().get(id);
+}
+
+// The named theme, or the default one; the template must have been checked with findTheme
+export function getTemplateConfig(template?: SlideTemplate): TemplateConfig {
+  const theme = (template && findTheme(template)) || listThemes()[0];
+  return toTemplateConfig(theme);
+}
@@ -0,0 +1,12 @@
+import { UploadErrorCode } from "../../types/index.js";
+
+export class UploadError extends Error {
+  constructor(
+    public code: UploadErrorCode,
+    message: string,
+    public httpStatus: number
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
@@ -0,0 +1,211 @@
+import { parseDocument } from "htmlparser2";
+import type { ChildNode, Element } from "domhandler";
+import { DocumentBlock, ListItem, StructuredDocument, StructuredSection, TextSpan } from "../../types/index.js";
+import { mergeSpans, spansToText } from "../document.js";
+
+type SpanStyle = Omit<TextSpan, "text">;
+
+const HEADING_TAGS = /^h([1-6])$/;
+// Not document content; images in uploads have no URI Slides could fetch
+const SKIPPED_TAGS = ["head", "script", "style", "template", "noscript", "img", "svg", "iframe", "object"];
+// Elements whose content runs inline with the surrounding text
+const INLINE_TAGS = [
+  "a", "abbr", "b", "cite", "code", "em", "i", "kbd", "mark", "q", "s", "samp",
+  "small", "span", "strong", "sub", "sup", "time", "u", "var", "br", "del", "ins",
+];
+
+function isElement(node: ChildNode): node is Element {
+  return node.type === "tag" || node.type === "script" || node.type === "style";
+}
+
+function isInline(node: ChildNode): boolean {
+  return node.type === "text" || (isElement(node) && INLINE_TAGS.includes(node.name));
+}
+
+/**
+ * Styled text of inline content. Whitespace is collapsed as a browser
+ * would; <br> becomes a line break.
+ */
+function inlineSpans(nodes: ChildNode[], style: SpanStyle = {}): TextSpan[] {
+  return nodes.flatMap((node): TextSpan[] => {
+    if (node.type === "text") {
+      return [{ text: node.data.replace(/\s+/g, " "), ...style }];
+    }
+    if (!isElement(node) || SKIPPED_TAGS.includes(node.name)) {
+      return [];
+    }
+    if (node.name === "br") {
+      return [{ text: "\n", ...style }];
+    }
+
+    const nested = { ...style };
+    if (node.name === "strong" || node.name === "b") {
+      nested.bold = true;
+    } else if (node.name === "em" || node.name === "i") {
+      nested.italic = true;
+    } else if (node.name === "a" && /^https?:\/\//i.test(node.attribs.href || "")) {
+      nested.link = node.attribs.href;
+    }
+    // Block elements met here (e.g. <p> inside <li>) are separated by a space
+    const spans = inlineSpans(node.children, nested);
+    return isInline(node) ? spans : [{ text: " " }, ...spans, { text: " " }];
+  });
+}
+
+// Trim the run as a whole and collapse spaces around line breaks
+function cleanSpans(spans: TextSpan[]): TextSpan[] {
+  const merged = mergeSpans(spans.map((span) => ({ ...span, text: span.text.replace(/ *\n */g, "\n") })));
+  const cleaned: TextSpan[] = [];
+  for (const span of merged) {
+    const previous = cleaned[cleaned.length - 1];
+    const text = !previous
+      ? span.text.replace(/^\s+/, "")
+      : /\s$/.test(previous.text) ? span.text.replace(/^ +/, "") : span.text;
+    if (text) {
+      cleaned.push({ ...span, text });
+    }
+  }
+  const last = cleaned[cleaned.length - 1];
+  if (last) {
+    last.text = last.text.replace(/\s+$/, "");
+  }
+  return mergeSpans(cleaned);
+}
+
+// Text with its whitespace kept, for <pre>
+function rawText(nodes: ChildNode[]): string {
+  return nodes
+    .map((node) => node.type === "text" ? node.data : isElement(node) && !SKIPPED_TAGS.includes(node.name) ? rawText(node.children) : "")
+    .join("");
+}
+
+function listItems(list: Element, depth: number): ListItem[] {
+  return list.children.filter(isElement).flatMap((child): ListItem[] => {
+    if (child.name === "ul" || child.name === "ol") {
+      return listItems(child, depth + 1);
+    }
+    if (child.name !== "li") {
+      return [];
+    }
+    const nestedLists = child.children.filter(
+      (node): node is Element => isElement(node) && (node.name === "ul" || node.name === "ol")
+    );
+    const spans = cleanSpans(inlineSpans(child.children.filter((node) => !nestedLists.includes(node as Element))));
+    const items = spans.length > 0 ? [{ spans, depth }] : [];
+    return [...items, ...nestedLists.flatMap((nested) => listItems(nested, depth + 1))];
+  });
+}
+
+function tableRows(table: Element): TextSpan[][][] {
+  const rows: TextSpan[][][] = [];
+  const visit = (node: Element) => {
+    for (const child of node.children.filter(isElement)) {
+      if (child.name === "tr") {
+        const cells = child.children
+          .filter((cell): cell is Element => isElement(cell) && (cell.name === "td" || cell.name === "th"))
+          .map((cell) => cleanSpans(inlineSpans(cell.children)).map((span) => ({ ...span, text: span.text.replace(/\n/g, " ") })));
+        if (cells.length > 0) {
+          rows.push(cells);
+        }
+      } else if (child.name === "thead" || child.name === "tbody" || child.name === "tfoot") {
+        visit(child);
+      }
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+function findTitle(nodes: ChildNode[]): string {
+  for (const node of nodes) {
+    if (isElement(node)) {
+      if (node.name === "title") {
+        return spansToText(cleanSpans(inlineSpans(node.children)));
+      }
+      const title = findTitle(node.children);
+      if (title) {
+        return title;
+      }
+    }
+  }
+  return "";
+}
+
+/**
+ * Convert HTML into the structured representation used for Google Docs:
+ * a new section at every h1-h6, paragraphs, nested lists and tables (the
+ * first row is the header). Loose inline text between blocks becomes a
+ * paragraph; containers like <div> are read through. The title is the
+ * <title>, else the first heading, else `fallbackTitle`.
+ */
+export function htmlToDocument(html: string, fallbackTitle: string): StructuredDocument {
+  const sections: StructuredSection[] = [];
+  let current: StructuredSection = { heading: "", level: 0, blocks: [] };
+  let pending: ChildNode[] = [];
+
+  const pushBlock = (block: DocumentBlock) => current.blocks.push(block);
+  const flushInline = () => {
+    const spans = cleanSpans(inlineSpans(pending));
+    pending = [];
+    if (spans.length > 0) {
+      pushBlock({ type: "paragraph", spans });
+    }
+  };
+
+  const visit = (nodes: ChildNode[]) => {
+    for (const node of nodes) {
+      if (isInline(node)) {
+        pending.push(node);
+        continue;
+      }
+      if (!isElement(node) || SKIPPED_TAGS.includes(node.name) || node.name === "title") {
+        continue;
+      }
+
+      flushInline();
+      const heading = node.name.match(HEADING_TAGS);
+      if (heading) {
+        const text = spansToText(cleanSpans(inlineSpans(node.children))).replace(/\s+/g, " ");
+        if (text) {
+          if (current.heading || current.blocks.length > 0) {
+            sections.push(current);
+          }
+          current = { heading: text, level: Number(heading[1]), blocks: [] };
+        }
+      } else if (node.name === "pre") {
+        const text = rawText(node.children).replace(/^\n+|\s+$/g, "");
+        if (text) {
+          pushBlock({ type: "paragraph", spans: [{ text }] });
+        }
+      } else if (node.name === "p") {
+        const spans = cleanSpans(inlineSpans(node.children));
+        if (spans.length > 0) {
+          pushBlock({ type: "paragraph", spans });
+        }
+      } else if (node.name === "ul" || node.name === "ol") {
+        const items = listItems(node, 0);
+        if (items.length > 0) {
+          pushBlock({ type: "list", ordered: node.name === "ol", items });
+        }
+      } else if (node.name === "table") {
+        const rows = tableRows(node);
+        if (rows.length > 0) {
+          pushBlock({ type: "table", rows });
+        }
+      } else {
+        visit(node.children);
+        flushInline();
+      }
+    }
+  };
+
+  const root = parseDocument(html);
+  visit(root.children);
+  flushInline();
+  if (current.heading || current.blocks.length > 0) {
+    sections.push(current);
+  }
+
+  const title = findTitle(root.children) || sections.find((section) => section.level === 1)?.heading || fallbackTitle;
+  return { title, sections };
+}
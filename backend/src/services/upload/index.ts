@@ -0,0 +1,98 @@
+import mammoth from "mammoth";
+import { marked } from "marked";
+import { DocumentFile, GoogleDocsContent, StructuredDocument } from "../../types/index.js";
+import { renderDocumentMarkdown } from "../document.js";
+import { UploadError } from "./errors.js";
+import { htmlToDocument } from "./html.js";
+import { pdfToDocument } from "./pdf.js";
+
+export { UploadError } from "./errors.js";
+
+export const UPLOAD_FILE_TYPES = [".docx", ".pdf", ".md", ".markdown", ".html", ".htm"];
+
+const DEFAULT_MAX_MB = 5;
+const DEFAULT_MAX_PDF_PAGES = 50;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : fallback;
+}
+
+// Read per call so limits can be changed without a restart (and in tests)
+function uploadLimits(): { maxBytes: number; maxPdfPages: number } {
+  return {
+    maxBytes: positiveNumber(process.env.UPLOAD_MAX_MB, DEFAULT_MAX_MB) * 1024 * 1024,
+    maxPdfPages: positiveNumber(process.env.UPLOAD_MAX_PDF_PAGES, DEFAULT_MAX_PDF_PAGES),
+  };
+}
+
+function fileExtension(name: string): string {
+  const match = name.toLowerCase().match(/\.[a-z]+$/);
+  return match ? match[0] : "";
+}
+
+function decodeFile(file: DocumentFile): Buffer {
+  const data = file.data.replace(/\s+/g, "");
+  if (!data || data.length % 4 === 1 || !BASE64_PATTERN.test(data)) {
+    throw new UploadError("INVALID_FILE", "documentFile.data must be base64-encoded file content", 400);
+  }
+  return Buffer.from(data, "base64");
+}
+
+async function docxToDocument(buffer: Buffer, fallbackTitle: string): Promise<StructuredDocument> {
+  let html: string;
+  try {
+    ({ value: html } = await mammoth.convertToHtml({ buffer }));
+  } catch {
+    throw new UploadError("INVALID_FILE", "The file is not a readable .docx document", 400);
+  }
+  return htmlToDocument(html, fallbackTitle);
+}
+
+/**
+ * Parse an uploaded file into the same shape fetchGoogleDocsContent returns,
+ * structured document included. The extension picks the parser: .docx via
+ * mammoth's HTML conversion, Markdown via marked, HTML directly and PDF from
+ * its text layer. Size and PDF page limits come from UPLOAD_MAX_MB and
+ * UPLOAD_MAX_PDF_PAGES.
+ */
+export async function parseDocumentFile(file: DocumentFile): Promise<GoogleDocsContent> {
+  const extension = fileExtension(file.name);
+  if (!UPLOAD_FILE_TYPES.includes(extension)) {
+    throw new UploadError(
+      "UNSUPPORTED_FILE_TYPE",
+      `Unsupported file type "${extension || file.name}". Upload one of: ${UPLOAD_FILE_TYPES.join(", ")}`,
+      415
+    );
+  }
+
+  const { maxBytes, maxPdfPages } = uploadLimits();
+  const buffer = decodeFile(file);
+  if (buffer.length > maxBytes) {
+    throw new UploadError("FILE_TOO_LARGE", `File is larger than the ${maxBytes / 1024 / 1024} MB upload limit`, 413);
+  }
+
+  const fallbackTitle = file.name.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "") || "Uploaded Document";
+  let document: StructuredDocument;
+  switch (extension) {
+    case ".docx":
+      document = await docxToDocument(buffer, fallbackTitle);
+      break;
+    case ".pdf":
+      document = await pdfToDocument(new Uint8Array(buffer), fallbackTitle, maxPdfPages);
+      break;
+    case ".md":
+    case ".markdown":
+      document = htmlToDocument(await marked.parse(buffer.toString("utf8")), fallbackTitle);
+      break;
+    default:
+      document = htmlToDocument(buffer.toString("utf8"), fallbackTitle);
+  }
+
+  const content = renderDocumentMarkdown(document);
+  if (!content.trim()) {
+    throw new UploadError("INVALID_FILE", "The uploaded file contains no text", 400);
+  }
+  return { title: document.title, content, document };
+}
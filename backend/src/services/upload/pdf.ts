@@ -0,0 +1,170 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api.js";
+import { DocumentBlock, StructuredDocument, StructuredSection } from "../../types/index.js";
+import { UploadError } from "./errors.js";
+
+// Lines at least this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.3;
+// A vertical gap this many line heights wide starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.5;
+const MAX_HEADING_LEVEL = 3;
+const LIST_MARKER = /^(?:[•◦▪‣●○■\-–*]|\d{1,3}[.)])\s+/;
+
+interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+  // Set on the first line of each page after the first
+  pageBreak: boolean;
+}
+
+function toLines(items: TextItem[], pageBreak: boolean): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  for (const item of items) {
+    const y = item.transform[5];
+    const size = Math.round(item.height || Math.abs(item.transform[3]));
+    if (current && Math.abs(current.y - y) < Math.max(current.size, size) / 2) {
+      current.text += item.str;
+      current.size = Math.max(current.size, size);
+    } else if (item.str.trim()) {
+      current = { text: item.str, size, y, pageBreak: pageBreak && lines.length === 0 };
+      lines.push(current);
+    }
+    if (item.hasEOL) {
+      // The next item starts a new line even at the same height
+      current = null;
+    }
+  }
+
+  return lines.map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() })).filter((line) => line.text);
+}
+
+// The most common font size by amount of text
+function bodySize(lines: PdfLine[]): number {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    totals.set(line.size, (totals.get(line.size) || 0) + line.text.length);
+  }
+  return [...totals].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Rebuild document structure from positioned text lines: larger fonts are
+ * headings (the largest is level 1), lines starting with a bullet or number
+ * are list items, and vertical gaps or page breaks end paragraphs.
+ */
+function linesToSections(lines: PdfLine[]): StructuredSection[] {
+  const body = bodySize(lines);
+  const headingSizes = [...new Set(lines.map((line) => line.size))]
+    .filter((size) => size >= body * HEADING_SIZE_RATIO)
+    .sort((a, b) => b - a);
+
+  const sections: StructuredSection[] = [];
+  let current: StructuredSection = { heading: "", level: 0, blocks: [] };
+  let paragraph: string[] = [];
+  let list: Extract<DocumentBlock, { type: "list" }> | null = null;
+  let previous: PdfLine | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      current.blocks.push({ type: "paragraph", spans: [{ text: paragraph.join(" ") }] });
+      paragraph = [];
+    }
+  };
+
+  for (const line of lines) {
+    const gap = previous ? previous.y - line.y : 0;
+    const separated = !previous || line.pageBreak || line.size !== previous.size || gap > line.size * PARAGRAPH_GAP_RATIO;
+    const headingIndex = headingSizes.indexOf(line.size);
+
+    if (headingIndex !== -1) {
+      flushParagraph();
+      list = null;
+      // Consecutive lines in the same heading font are one wrapped heading
+      if (!separated && current.heading && current.blocks.length === 0) {
+        current.heading += ` ${line.text}`;
+      } else {
+        if (current.heading || current.blocks.length > 0) {
+          sections.push(current);
+        }
+        current = { heading: line.text, level: Math.min(headingIndex + 1, MAX_HEADING_LEVEL), blocks: [] };
+      }
+    } else if (LIST_MARKER.test(line.text)) {
+      flushParagraph();
+      const item = { spans: [{ text: line.text.replace(LIST_MARKER, "") }], depth: 0 };
+      if (list && !separated) {
+        list.items.push(item);
+      } else {
+        list = { type: "list", ordered: /^\d/.test(line.text), items: [item] };
+        current.blocks.push(list);
+      }
+    } else if (list && !separated) {
+      // Wrapped continuation of the last list item
+      list.items[list.items.length - 1].spans[0].text += ` ${line.text}`;
+    } else {
+      list = null;
+      if (separated) {
+        flushParagraph();
+      }
+      paragraph.push(line.text);
+    }
+    previous = line;
+  }
+
+  flushParagraph();
+  if (current.heading || current.blocks.length > 0) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Read the text layer of a PDF into the structured representation. Scanned
+ * PDFs have no text layer and are rejected rather than producing an empty
+ * deck; OCR is out of scope.
+ */
+export async function pdfToDocument(data: Uint8Array, fallbackTitle: string, maxPages: number): Promise<StructuredDocument> {
+  let pdf;
+  try {
+    pdf = await getDocument({ data, disableFontFace: true, isEvalSupported: false, verbosity: 0 }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new UploadError("INVALID_FILE", "Password-protected PDFs are not supported", 400);
+    }
+    throw new UploadError("INVALID_FILE", "The file is not a readable PDF", 400);
+  }
+
+  try {
+    if (pdf.numPages > maxPages) {
+      throw new UploadError("TOO_MANY_PAGES", `PDF has ${pdf.numPages} pages; the limit is ${maxPages}`, 413);
+    }
+
+    const lines: PdfLine[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => "str" in item);
+      lines.push(...toLines(items, number > 1));
+    }
+
+    if (lines.length === 0) {
+      throw new UploadError(
+        "NO_TEXT_LAYER",
+        "This PDF has no text layer (it looks scanned). Run it through OCR first or paste the text instead.",
+        422
+      );
+    }
+
+    const sections = linesToSections(lines);
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+    const metadataTitle = (info as { Title?: unknown }).Title;
+    const title = (typeof metadataTitle === "string" && metadataTitle.trim())
+      || sections.find((section) => section.level === 1)?.heading
+      || fallbackTitle;
+    return { title, sections };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,10 +1,5 @@
-// Available slide templates
-export type SlideTemplate =
-  | "modern"      // Clean, minimalist with blue accents
-  | "corporate"   // Professional with dark headers
-  | "creative"    // Bold colors and dynamic layouts
-  | "minimal"     // Simple black and white
-  | "executive";  // Traditional executive style
+// ID of a theme from the themes directory; custom themes are passed inline as `theme` in the request body
+export type SlideTemplate = string;
 
 export interface RgbColor {
   red: number;
@@ -12,6 +7,49 @@ export interface RgbColor {
   blue: number;
 }
 
+// A theme as written in JSON; colors are "#rrggbb" and sizes are in points
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  colors: {
+    title: string;
+    body: string;
+    background: string;
+    // Band across the top of content slides, behind the title
+    header?: string;
+    titleSlideBackground?: string;
+    titleSlideText?: string;
+    // Title color on the header band
+    titleOnHeader?: string;
+  };
+  fonts?: {
+    title?: string;
+    body?: string;
+  };
+  fontSizes?: {
+    title?: number;
+    body?: number;
+    titleSlide?: number;
+  };
+  minFontScale?: number;
+  layout?: {
+    margin?: number;
+    headerHeight?: number;
+  };
+  // Shown in the top-right corner of content slides
+  logo?: {
+    url: string;
+    width: number;
+    height: number;
+  };
+  // Shown along the bottom of content slides
+  footer?: {
+    text: string;
+  };
+}
+
+// A theme resolved for building Slides API requests
 export interface TemplateConfig {
   name: string;
   description: string;
@@ -22,92 +60,437 @@ export interface TemplateConfig {
   titleSlideBackgroundColor?: RgbColor;
   titleSlideTextColor?: RgbColor;
   titleColorWithHeader?: RgbColor;
+  // How far text may shrink to fit its box, as a share of its default size (default 0.75)
+  minFontScale?: number;
+  // Slides' default font when omitted
+  titleFont?: string;
+  bodyFont?: string;
+  titleFontSize?: number;
+  // Size of bullet text; agenda, comparison and quote text scale with it
+  bodyFontSize?: number;
+  titleSlideFontSize?: number;
+  margin?: number;
+  headerHeight?: number;
+  logo?: ThemeDefinition["logo"];
+  footerText?: string;
 }
 
-export const SLIDE_TEMPLATES: Record<SlideTemplate, TemplateConfig> = {
-  modern: {
-    name: "Modern",
-    description: "Clean, minimalist design with blue accents",
-    titleColor: { red: 0.1, green: 0.3, blue: 0.6 },
-    bodyColor: { red: 0.2, green: 0.2, blue: 0.2 },
-    backgroundColor: { red: 1, green: 1, blue: 1 },
-    titleSlideBackgroundColor: { red: 0.1, green: 0.45, blue: 0.91 }, // #1a73e8
-    titleSlideTextColor: { red: 1, green: 1, blue: 1 },
-  },
-  corporate: {
-    name: "Corporate",
-    description: "Professional design with dark headers",
-    titleColor: { red: 1, green: 1, blue: 1 },
-    bodyColor: { red: 0.2, green: 0.2, blue: 0.2 },
-    backgroundColor: { red: 0.98, green: 0.98, blue: 0.98 },
-    headerColor: { red: 0.13, green: 0.13, blue: 0.13 }, // Dark header
-    titleSlideBackgroundColor: { red: 0.13, green: 0.13, blue: 0.13 },
-    titleSlideTextColor: { red: 1, green: 1, blue: 1 },
-  },
-  creative: {
-    name: "Creative",
-    description: "Bold colors and dynamic style",
-    titleColor: { red: 0.8, green: 0.2, blue: 0.4 },
-    bodyColor: { red: 0.25, green: 0.25, blue: 0.25 },
-    backgroundColor: { red: 1, green: 0.98, blue: 0.95 },
-    titleSlideBackgroundColor: { red: 0.8, green: 0.2, blue: 0.4 },
-    titleSlideTextColor: { red: 1, green: 1, blue: 1 },
-  },
-  minimal: {
-    name: "Minimal",
-    description: "Simple black and white design",
-    titleColor: { red: 0, green: 0, blue: 0 },
-    bodyColor: { red: 0.3, green: 0.3, blue: 0.3 },
-    backgroundColor: { red: 1, green: 1, blue: 1 },
-    titleSlideBackgroundColor: { red: 0.1, green: 0.1, blue: 0.1 },
-    titleSlideTextColor: { red: 1, green: 1, blue: 1 },
-  },
-  executive: {
-    name: "Executive",
-    description: "Traditional executive presentation style",
-    titleColor: { red: 0.1, green: 0.2, blue: 0.4 },
-    bodyColor: { red: 0.2, green: 0.2, blue: 0.2 },
-    backgroundColor: { red: 0.95, green: 0.95, blue: 0.97 },
-    headerColor: { red: 0.1, green: 0.2, blue: 0.4 },
-    titleSlideBackgroundColor: { red: 0.1, green: 0.2, blue: 0.4 },
-    titleSlideTextColor: { red: 1, green: 1, blue: 1 },
-    titleColorWithHeader: { red: 1, green: 1, blue: 1 }, // White text when on header
-  },
-};
+// Supported LLM backends for summarization
+export type LlmProviderName =
+  | "gemini"     // Google Gemini (hosted)
+  | "anthropic"  // Anthropic Messages API (hosted)
+  | "openai"     // OpenAI or any hosted OpenAI-compatible API
+  | "local"      // Self-hosted OpenAI-compatible server (llama.cpp, Ollama, vLLM)
+  | "mock";      // Canned slides for development without credentials
+
+export type LlmErrorCode =
+  | "UNKNOWN_PROVIDER"
+  | "PROVIDER_NOT_CONFIGURED"
+  | "PROVIDER_NOT_ALLOWED"
+  | "PROVIDER_REQUEST_FAILED"
+  | "INVALID_RESPONSE";
+
+// How much presenter talking-point text to generate per slide
+export type SpeakerNotesLength = "none" | "brief" | "detailed";
+
+// How bullet citations appear in the created deck; they are always part of the preview
+export type CitationStyle = "none" | "notes" | "links";
 
 export interface GenerateRequest {
   documentContent?: string;
   googleDocsUrl?: string;
+  // Limit a googleDocsUrl import to the section under this heading (and its subheadings)
+  sectionHeading?: string;
+  // Uploaded .docx, .pdf, .md or .html file, instead of documentContent or googleDocsUrl
+  documentFile?: DocumentFile;
+  // Several Google Docs and/or pasted texts synthesized into one deck, instead of the fields above
+  sources?: DocumentSource[];
   documentTitle: string;
   slideCount: number;
   customPrompt?: string;
   template?: SlideTemplate;
+  // A theme defined in the request, instead of a template
+  theme?: ThemeDefinition;
+  // Google Slides presentation to copy and fill in, instead of a template or theme
+  masterPresentationId?: string;
+  // Layouts of the master to use, by name; see DEFAULT_MASTER_LAYOUTS
+  masterLayouts?: MasterLayoutNames;
+  // A deck generated earlier, whose changed slides are replaced instead of creating a new one
+  updatePresentationId?: string;
+  notesLength?: SpeakerNotesLength;
+  citationStyle?: CitationStyle;
+  // Refuse to create slides that show numbers not found in the source
+  strictFactCheck?: boolean;
+  provider?: LlmProviderName; // Overrides the configured default LLM provider
   userEmail: string;
   accessToken: string; // OAuth token from user for Slides/Docs API
 }
 
+export interface DocumentFile {
+  // File name; its extension selects the parser
+  name: string;
+  // Base64-encoded file content
+  data: string;
+}
+
+// One input of a multi-source request: either googleDocsUrl or documentContent
+export interface DocumentSource {
+  googleDocsUrl?: string;
+  sectionHeading?: string;
+  documentContent?: string;
+  // How the source is named in the prompt; defaults to the Doc's title
+  documentTitle?: string;
+}
+
+export interface CombinedSource {
+  title: string;
+  origin: "google-docs" | "pasted";
+}
+
+export interface RenderRequest
+  extends Partial<Pick<GenerateRequest, "documentContent" | "googleDocsUrl" | "sectionHeading" | "documentFile" | "sources" | "documentTitle">> {
+  structure: PresentationStructure;
+  template?: SlideTemplate;
+  theme?: ThemeDefinition;
+  masterPresentationId?: string;
+  masterLayouts?: MasterLayoutNames;
+  updatePresentationId?: string;
+  citationStyle?: CitationStyle;
+  // Checks the structure's numbers against the source, which must then be sent as in /generate
+  strictFactCheck?: boolean;
+  userEmail: string;
+  accessToken: string;
+}
+
+// POST /generate/render/dry-run: what /render would send to the Slides API
+export type DryRunRequest = Pick<RenderRequest, "structure" | "template" | "theme" | "citationStyle">;
+
+// Numbers shown on a slide that could not be found in the source
+export interface FactCheckWarning {
+  slideIndex: number;
+  slideTitle: string;
+  numbers: string[];
+}
+
+export type FactCheckErrorCode = "UNVERIFIED_NUMBERS";
+
+// How createPresentation changed a slide so its text fits on it
+export type LayoutAdjustmentKind =
+  | "shrunk"     // Rendered at fontSize instead of the default size
+  | "continued"  // Body split over slideCount slides, titled "... (cont.)"
+  | "overflow"   // Still too long at the smallest allowed size
+  | "dropped";   // Left out: the master deck's layout has no placeholder for it
+
+export interface LayoutAdjustment {
+  // Index into the structure's slides
+  slideIndex: number;
+  slideTitle: string;
+  kind: LayoutAdjustmentKind;
+  element: "title" | "body";
+  fontSize?: number;
+  slideCount?: number;
+}
+
+export type SuspiciousContentKind =
+  | "instruction-override"
+  | "role-change"
+  | "prompt-extraction"
+  | "chat-markup"
+  | "output-manipulation"
+  | "hidden-text";
+
+// Document text that looks like it is trying to instruct the model
+export interface SuspiciousContent {
+  kind: SuspiciousContentKind;
+  excerpt: string;
+}
+
+// Built-in detectors of personal data and secrets, applied before content reaches the LLM
+export type RedactionType = "email" | "phone" | "secret";
+
+// One redacted value; the original is never included
+export interface Redaction {
+  // A built-in RedactionType or the name of a custom pattern
+  type: string;
+  placeholder: string;
+  occurrences: number;
+  // Whether the original is put back where the placeholder appears in the slides
+  restored: boolean;
+}
+
 export interface GoogleDocsContent {
   title: string;
   content: string;
+  // Present when the document's structure is known (Docs API or an uploaded file, not plain-text exports)
+  document?: StructuredDocument;
+  // Present when several sources were combined, in the order they appear in the content
+  sources?: CombinedSource[];
+}
+
+// Structured intermediate representation of an imported document
+
+export interface TextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  link?: string;
+}
+
+export interface ListItem {
+  spans: TextSpan[];
+  // 0 for top-level items
+  depth: number;
+}
+
+export type DocumentBlock =
+  | { type: "paragraph"; spans: TextSpan[] }
+  | { type: "list"; ordered: boolean; items: ListItem[] }
+  // The first row is the header row
+  | { type: "table"; rows: TextSpan[][][] }
+  // An inline image; the model sees only the ID, the URI is used when rendering
+  | { type: "image"; id: string; uri: string; description?: string };
+
+export interface StructuredSection {
+  // Empty with level 0 for content before the first heading
+  heading: string;
+  level: number;
+  blocks: DocumentBlock[];
+  // Link to the heading in the Google Doc, when the Docs API gave it an ID
+  url?: string;
+}
+
+export interface StructuredDocument {
+  title: string;
+  sections: StructuredSection[];
 }
 
 export type DocsErrorCode =
   | "INVALID_URL"
   | "DOCUMENT_NOT_FOUND"
-  | "ACCESS_DENIED";
+  | "ACCESS_DENIED"
+  | "SECTION_NOT_FOUND";
+
+export type UploadErrorCode =
+  | "UNSUPPORTED_FILE_TYPE"
+  | "INVALID_FILE"
+  | "FILE_TOO_LARGE"
+  | "TOO_MANY_PAGES"
+  | "NO_TEXT_LAYER";
+
+export type AuthErrorCode =
+  | "INVALID_TOKEN"
+  | "INSUFFICIENT_SCOPE"
+  | "EMAIL_MISMATCH"
+  | "VERIFICATION_FAILED"
+  | "INVALID_API_KEY"
+  | "QUOTA_EXCEEDED";
+
+// "create-slides" keys may also preview
+export type ApiKeyScope = "preview" | "create-slides";
+
+// A key as configured in API_KEYS; only the SHA-256 hash of the key is stored
+export interface ApiKeyConfig {
+  id: string;
+  name?: string;
+  hash: string;
+  scopes: ApiKeyScope[];
+  // Daily limits (UTC); unlimited when omitted
+  requestsPerDay?: number;
+  tokensPerDay?: number;
+}
+
+export interface ApiKeyUsage {
+  // UTC day the daily counters apply to, e.g. "2025-06-30"
+  period: string;
+  requests: number;
+  tokens: number;
+  totalRequests: number;
+  totalTokens: number;
+  lastUsedAt?: string;
+}
 
 export interface GenerateResponse {
   success: boolean;
   slidesUrl?: string;
   slidesId?: string;
   error?: string;
+  // Unverified numbers when strictFactCheck blocked the request
+  warnings?: FactCheckWarning[];
+  redactions?: Redaction[];
+  suspiciousContent?: SuspiciousContent[];
+  layoutAdjustments?: LayoutAdjustment[];
+  deckChanges?: DeckChanges;
+}
+
+// Background generation jobs (POST /generate/jobs)
+export type JobKind = "generate" | "preview";
+export type JobStatus = "pending" | "running" | "succeeded" | "failed";
+export type JobStage = "fetching" | "summarizing" | "rendering";
+
+export interface JobRequest extends GenerateRequest {
+  // Stop after summarizing and return the structure instead of creating slides
+  previewOnly?: boolean;
+}
+
+export interface JobResult {
+  slidesUrl?: string;
+  slidesId?: string;
+  structure?: PresentationStructure;
+  documentTitle?: string;
+  warnings?: FactCheckWarning[];
+  redactions?: Redaction[];
+  suspiciousContent?: SuspiciousContent[];
+  layoutAdjustments?: LayoutAdjustment[];
+  deckChanges?: DeckChanges;
+}
+
+// Stored job record; never holds the request's access token
+export interface GenerationJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  stage?: JobStage;
+  progress: number; // 0-100
+  createdAt: string;
+  updatedAt: string;
+  result?: JobResult;
+  error?: string;
+  code?: string;
+  // The unverified numbers that stopped a strict-mode job
+  warnings?: FactCheckWarning[];
+  // The API key that submitted the job; polling must present the same key
+  apiKeyId?: string;
 }
 
-export interface SlideContent {
+// The title slide or a slide type, each filled into a layout of a master deck
+export type MasterLayoutRole = "title" | SlideType;
+
+export type MasterLayoutNames = Partial<Record<MasterLayoutRole, string>>;
+
+export type MasterDeckErrorCode =
+  | "MASTER_NOT_FOUND"
+  | "NOT_A_PRESENTATION"
+  | "LAYOUT_NOT_FOUND"
+  | "LAYOUT_MISSING_PLACEHOLDER";
+
+export type DeckUpdateErrorCode = "PRESENTATION_NOT_FOUND" | "NOT_A_GENERATED_DECK";
+
+// Content slide IDs (slide_0, slide_1_1, ...) by what updating a deck did to them
+export interface DeckChanges {
+  unchanged: string[];
+  updated: string[];
+  added: string[];
+  removed: string[];
+}
+
+// Layouts the model can choose from for each content slide
+export type SlideType =
+  | "bullets"     // Title plus 3-5 bullet points (default)
+  | "agenda"      // Numbered list of topics
+  | "section"     // Divider introducing a part of the deck
+  | "comparison"  // Two columns side by side
+  | "kpi"         // Big headline numbers
+  | "quote"       // Single highlighted statement
+  | "timeline"    // Dated milestones
+  | "table"       // Rows and columns
+  | "image";      // Figure from the document beside key points
+
+interface SlideBase {
   title: string;
+  speakerNotes?: string;
+}
+
+// Where a bullet's claim comes from in the source document
+export interface Citation {
+  // Passage copied from the document
+  quote: string;
+  // Heading of the section the passage is in
+  heading?: string;
+  url?: string;
+}
+
+export interface BulletsSlide extends SlideBase {
+  type?: "bullets"; // Optional so untyped structures from older clients still render
+  bullets: string[];
+  // One entry per bullet; null where no supporting passage was found
+  citations?: Array<Citation | null>;
+}
+
+export interface AgendaSlide extends SlideBase {
+  type: "agenda";
+  items: string[];
+}
+
+export interface SectionSlide extends SlideBase {
+  type: "section";
+  subtitle?: string;
+}
+
+export interface ComparisonColumn {
+  heading: string;
+  bullets: string[];
+}
+
+export interface ComparisonSlide extends SlideBase {
+  type: "comparison";
+  left: ComparisonColumn;
+  right: ComparisonColumn;
+}
+
+export interface KpiMetric {
+  value: string;
+  label: string;
+}
+
+export interface KpiSlide extends SlideBase {
+  type: "kpi";
+  metrics: KpiMetric[];
+  context?: string;
+}
+
+export interface QuoteSlide extends SlideBase {
+  type: "quote";
+  quote: string;
+  attribution?: string;
+}
+
+export interface TimelineEvent {
+  date: string;
+  label: string;
+}
+
+export interface TimelineSlide extends SlideBase {
+  type: "timeline";
+  events: TimelineEvent[];
+}
+
+export interface TableSlide extends SlideBase {
+  type: "table";
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ImageSlide extends SlideBase {
+  type: "image";
+  // Inline object ID of the image in the source document
+  imageId: string;
+  // Set from the document once the slides are generated
+  imageUrl?: string;
   bullets: string[];
+  citations?: Array<Citation | null>;
 }
 
+export type SlideContent =
+  | BulletsSlide
+  | AgendaSlide
+  | SectionSlide
+  | ComparisonSlide
+  | KpiSlide
+  | QuoteSlide
+  | TimelineSlide
+  | TableSlide
+  | ImageSlide;
+
 export interface PresentationStructure {
   title: string;
   slides: SlideContent[];
@@ -1,8 +1,301 @@
 // Auth utility functions
-// The main authentication is handled via OAuth tokens passed from the Apps Script client
-// This file can be extended for additional auth needs (e.g., API key validation)
+// Callers authenticate with the Google OAuth access token they pass in the request body;
+// it is verified with Google before the backend acts on the user's behalf.
+// Programmatic clients additionally present an API key, which carries scopes and quotas.
 
-export function validateApiKey(apiKey: string | undefined): boolean {
-  // For future use: validate incoming API keys if needed
-  return !!apiKey && apiKey.length > 0;
+import { createHash } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { ApiKeyConfig, ApiKeyScope, AuthErrorCode } from "../types/index.js";
+import {
+  checkApiKeyQuota,
+  findApiKey,
+  hasApiKeyScope,
+  recordApiKeyRequest,
+  secondsUntilQuotaReset,
+} from "../services/apiKeys.js";
+
+const GOOGLE_TOKENINFO_URL = "https://oauth2.googleapis.com/tokeninfo";
+const GOOGLE_SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+// Verified tokens are cached until they expire; this bounds the cache between prunes
+const MAX_CACHED_TOKENS = 1000;
+const LOCAL_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+export const API_KEY_HEADER = "x-api-key";
+
+export type GoogleApi = "docs" | "slides" | "master";
+
+// Any one of these scopes is enough for the calls made on the user's behalf:
+// fetchGoogleDocsContent reads the document, createPresentation creates the deck
+// and, for a master deck, copies a presentation the app did not create
+const ACCEPTED_SCOPES: Record<GoogleApi, string[]> = {
+  docs: ["documents.readonly", "documents", "drive.readonly", "drive"],
+  slides: ["presentations", "drive.file", "drive"],
+  master: ["drive.readonly", "drive"],
+};
+
+export class AuthError extends Error {
+  constructor(
+    public code: AuthErrorCode,
+    message: string,
+    public httpStatus: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface VerifiedToken {
+  // Only present when the token was granted an email scope
+  email?: string;
+  emailVerified: boolean;
+  scopes: string[];
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+export interface TokenVerifier {
+  verify(accessToken: string): Promise<VerifiedToken>;
+}
+
+interface TokenInfoResponse {
+  email?: string;
+  email_verified?: string;
+  scope?: string;
+  exp?: string;
+  expires_in?: string;
+}
+
+export function createGoogleTokenVerifier(): TokenVerifier {
+  return {
+    async verify(accessToken) {
+      let response: globalThis.Response;
+      try {
+        // POST keeps the token out of URLs and any proxy logs
+        response = await fetch(GOOGLE_TOKENINFO_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({ access_token: accessToken }).toString(),
+        });
+      } catch {
+        throw new AuthError("VERIFICATION_FAILED", "Could not reach Google to verify the access token", 502);
+      }
+
+      if (response.status === 400) {
+        throw new AuthError("INVALID_TOKEN", "Invalid or expired Google access token", 401);
+      }
+      if (!response.ok) {
+        throw new AuthError(
+          "VERIFICATION_FAILED",
+          `Google token verification failed: ${response.status} ${response.statusText}`,
+          502
+        );
+      }
+
+      const data: TokenInfoResponse = await response.json();
+      const expiresAt = data.exp
+        ? Number(data.exp) * 1000
+        : Date.now() + Number(data.expires_in || 0) * 1000;
+
+      return {
+        email: data.email,
+        emailVerified: data.email_verified === "true",
+        scopes: (data.scope || "").split(" ").filter(Boolean),
+        expiresAt,
+      };
+    },
+  };
+}
+
+/**
+ * Stand-in for tests and offline development: accepts only the listed
+ * tokens, each valid for an hour unless an expiry is given
+ */
+export function createLocalTokenVerifier(
+  tokens: Record<string, Omit<VerifiedToken, "expiresAt"> & { expiresAt?: number }>
+): TokenVerifier {
+  return {
+    async verify(accessToken) {
+      const token = Object.prototype.hasOwnProperty.call(tokens, accessToken) ? tokens[accessToken] : undefined;
+      if (!token) {
+        throw new AuthError("INVALID_TOKEN", "Invalid or expired Google access token", 401);
+      }
+      return { ...token, expiresAt: token.expiresAt ?? Date.now() + LOCAL_TOKEN_LIFETIME_MS };
+    },
+  };
+}
+
+let tokenVerifier: TokenVerifier | null = null;
+// Keyed by a hash so raw tokens are not kept around
+const verifiedTokens = new Map<string, VerifiedToken>();
+
+function getTokenVerifier(): TokenVerifier {
+  if (!tokenVerifier) {
+    tokenVerifier = createGoogleTokenVerifier();
+  }
+  return tokenVerifier;
+}
+
+// Swap in another verifier (e.g. the local stand-in); null restores Google's tokeninfo
+export function setTokenVerifier(verifier: TokenVerifier | null): void {
+  tokenVerifier = verifier;
+  verifiedTokens.clear();
+}
+
+function cacheToken(key: string, token: VerifiedToken): void {
+  const now = Date.now();
+  for (const [cachedKey, cached] of verifiedTokens) {
+    if (cached.expiresAt <= now) {
+      verifiedTokens.delete(cachedKey);
+    }
+  }
+  // Maps iterate in insertion order, so this evicts the oldest entries
+  for (const cachedKey of verifiedTokens.keys()) {
+    if (verifiedTokens.size < MAX_CACHED_TOKENS) {
+      break;
+    }
+    verifiedTokens.delete(cachedKey);
+  }
+  verifiedTokens.set(key, token);
+}
+
+/**
+ * Verify an access token, reusing earlier results until the token expires
+ */
+export async function verifyAccessToken(accessToken: string): Promise<VerifiedToken> {
+  const key = createHash("sha256").update(accessToken).digest("hex");
+  const cached = verifiedTokens.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const token = await getTokenVerifier().verify(accessToken);
+  if (token.expiresAt <= Date.now()) {
+    throw new AuthError("INVALID_TOKEN", "Invalid or expired Google access token", 401);
+  }
+  cacheToken(key, token);
+  return token;
+}
+
+/**
+ * Check a verified token against what the request needs. Throws an AuthError
+ * naming the first problem found.
+ */
+export function checkTokenAccess(token: VerifiedToken, apis: GoogleApi[], userEmail?: string): void {
+  for (const api of apis) {
+    const granted = ACCEPTED_SCOPES[api].some((scope) => token.scopes.includes(GOOGLE_SCOPE_PREFIX + scope));
+    if (!granted) {
+      const needed = ACCEPTED_SCOPES[api].map((scope) => GOOGLE_SCOPE_PREFIX + scope).join(" or ");
+      throw new AuthError("INSUFFICIENT_SCOPE", `Access token is missing a required scope: ${needed}`, 403);
+    }
+  }
+
+  if (userEmail !== undefined) {
+    if (!token.email || !token.emailVerified) {
+      throw new AuthError("EMAIL_MISMATCH", "Access token does not include a verified email address", 403);
+    }
+    if (token.email.toLowerCase() !== userEmail.trim().toLowerCase()) {
+      throw new AuthError("EMAIL_MISMATCH", "userEmail does not match the signed-in Google account", 403);
+    }
+  }
+}
+
+/**
+ * Middleware verifying the accessToken in the request body before a route
+ * uses it: reading a Google Doc (directly or as one of the sources) needs a
+ * Docs scope, creating slides a Slides scope, and any userEmail must be the
+ * token's account. Requests without a
+ * token pass through so routes can report missing fields themselves.
+ * The verified token is available as res.locals.googleToken.
+ */
+export function verifyGoogleAccess(options: { createsSlides?: (body: Record<string, unknown>) => boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const body = req.body || {};
+    if (typeof body.accessToken !== "string" || !body.accessToken) {
+      next();
+      return;
+    }
+
+    const apis: GoogleApi[] = [];
+    const sources: unknown[] = Array.isArray(body.sources) ? body.sources : [];
+    if (body.googleDocsUrl || sources.some((source) => (source as { googleDocsUrl?: unknown } | null)?.googleDocsUrl)) {
+      apis.push("docs");
+    }
+    if (options.createsSlides?.(body)) {
+      apis.push("slides");
+      if (body.masterPresentationId) {
+        apis.push("master");
+      }
+    }
+
+    try {
+      const token = await verifyAccessToken(body.accessToken);
+      checkTokenAccess(token, apis, typeof body.userEmail === "string" ? body.userEmail : undefined);
+      res.locals.googleToken = token;
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        console.warn(`Token verification rejected request: ${error.code}`);
+        sendAuthError(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Look up the configured key for a presented API key; null when unknown
+ */
+export function validateApiKey(apiKey: string | undefined): ApiKeyConfig | null {
+  return apiKey ? findApiKey(apiKey) : null;
+}
+
+function sendAuthError(res: Response, error: AuthError): void {
+  res.status(error.httpStatus).json({ success: false, error: error.message, code: error.code });
+}
+
+/**
+ * Middleware for requests carrying an X-API-Key header: the key must exist,
+ * allow the route's scope and be within its daily quotas. The request is
+ * then counted and the key is available as res.locals.apiKey. Requests
+ * without the header pass through (browser and add-on clients stay on the
+ * IP rate limit).
+ */
+export function requireApiKeyScope(scope: ApiKeyScope | ((body: Record<string, unknown>) => ApiKeyScope)) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = req.get(API_KEY_HEADER);
+    if (presented === undefined) {
+      next();
+      return;
+    }
+
+    try {
+      const key = validateApiKey(presented);
+      if (!key) {
+        throw new AuthError("INVALID_API_KEY", "Invalid API key", 401);
+      }
+
+      const needed = typeof scope === "function" ? scope(req.body || {}) : scope;
+      if (!hasApiKeyScope(key, needed)) {
+        throw new AuthError("INSUFFICIENT_SCOPE", `API key "${key.id}" does not allow ${needed}`, 403);
+      }
+
+      const quotaProblem = checkApiKeyQuota(key);
+      if (quotaProblem) {
+        res.set("Retry-After", String(secondsUntilQuotaReset()));
+        throw new AuthError("QUOTA_EXCEEDED", quotaProblem, 429);
+      }
+
+      recordApiKeyRequest(key.id);
+      res.locals.apiKey = key;
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        console.warn(`API key rejected request: ${error.code}`);
+        sendAuthError(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
 }
@@ -0,0 +1,27 @@
+import { Request } from "express";
+import rateLimit from "express-rate-limit";
+import { API_KEY_HEADER, validateApiKey } from "./auth.js";
+
+const WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Job status polling would otherwise exhaust the window during one long job.
+ * Requests with a valid API key are limited by the key's quotas instead; an
+ * unknown key stays on the IP limit, so keys cannot be guessed at full speed.
+ */
+function skipRateLimit(req: Request): boolean {
+  return (req.method === "GET" && /\/generate\/jobs\/[^/]+$/.test(req.path)) ||
+    validateApiKey(req.get(API_KEY_HEADER)) !== null;
+}
+
+// Limits each IP to `max` requests per window
+export function createRateLimiter(max: number) {
+  return rateLimit({
+    windowMs: WINDOW_MS,
+    max,
+    message: { error: "Too many requests, please try again later." },
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip: skipRateLimit,
+  });
+}
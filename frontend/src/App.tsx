@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { useGoogleLogin, googleLogout } from "@react-oauth/google";
 import { jsPDF } from "jspdf";
 import html2canvas from "html2canvas";
@@ -9,9 +9,53 @@ const isOAuthEnabled = () => Boolean(import.meta.env.VITE_GOOGLE_CLIENT_ID);
 // API URL - empty string uses same-origin (works with Vite proxy in dev, Firebase rewrites in prod)
 const API_URL = import.meta.env.VITE_API_URL || "";
 
-interface Slide {
+interface Citation {
+  quote: string;
+  heading?: string;
+  url?: string;
+}
+
+interface SlideBase {
   title: string;
-  bullets: string[];
+  speakerNotes?: string;
+}
+
+// Mirrors the backend SlideContent union; "type" is absent on plain bullet slides
+type Slide = SlideBase & (
+  | { type?: "bullets"; bullets: string[]; citations?: (Citation | null)[] }
+  | { type: "agenda"; items: string[] }
+  | { type: "section"; subtitle?: string }
+  | {
+      type: "comparison";
+      left: { heading: string; bullets: string[] };
+      right: { heading: string; bullets: string[] };
+    }
+  | { type: "kpi"; metrics: { value: string; label: string }[]; context?: string }
+  | { type: "quote"; quote: string; attribution?: string }
+  | { type: "timeline"; events: { date: string; label: string }[] }
+  | { type: "table"; columns: string[]; rows: string[][] }
+  | { type: "image"; imageId: string; imageUrl?: string; bullets: string[]; citations?: (Citation | null)[] }
+);
+
+// Numbers on a slide that the backend could not find in the source
+interface FactCheckWarning {
+  slideIndex: number;
+  slideTitle: string;
+  numbers: string[];
+}
+
+// A value replaced with a placeholder before the document was sent to the AI
+interface Redaction {
+  type: string;
+  placeholder: string;
+  occurrences: number;
+  restored: boolean;
+}
+
+// A passage of the document that looks like instructions aimed at the AI
+interface SuspiciousContent {
+  kind: string;
+  excerpt: string;
 }
 
 interface GenerateResponse {
@@ -20,13 +64,52 @@ interface GenerateResponse {
     title: string;
     slides: Slide[];
   };
+  documentTitle?: string;
+  warnings?: FactCheckWarning[];
+  redactions?: Redaction[];
+  suspiciousContent?: SuspiciousContent[];
+  error?: string;
+}
+
+type PreviewStage = "fetching" | "summarizing";
+type JobStage = PreviewStage | "rendering";
+
+// What a finished preview returns, streamed or from a job
+type PreviewResult = Omit<GenerateResponse, "success" | "error">;
+
+// Events of POST /api/generate/preview/stream
+type PreviewStreamEvent =
+  | { event: "stage"; data: { stage: PreviewStage; documentTitle?: string } }
+  | { event: "slide"; data: { index: number; slide: Slide } }
+  | { event: "retry"; data: { problems: string[] } }
+  | { event: "done"; data: PreviewResult }
+  | { event: "error"; data: { error?: string; code?: string } };
+
+// Background job as reported by GET /api/generate/jobs/:id
+interface GenerationJob {
+  id: string;
+  status: "pending" | "running" | "succeeded" | "failed";
+  stage?: JobStage;
+  progress: number;
+  result?: PreviewResult;
   error?: string;
 }
 
+// How the backend changed a slide so its text fits
+interface LayoutAdjustment {
+  slideIndex: number;
+  slideTitle: string;
+  kind: "shrunk" | "continued" | "overflow" | "dropped";
+  element: "title" | "body";
+  fontSize?: number;
+  slideCount?: number;
+}
+
 interface ExportResponse {
   success: boolean;
   slidesUrl?: string;
   slidesId?: string;
+  layoutAdjustments?: LayoutAdjustment[];
   error?: string;
 }
 
@@ -36,60 +119,285 @@ interface UserInfo {
   picture: string;
 }
 
-type SlideTemplate = "modern" | "corporate" | "creative" | "minimal" | "executive";
-type InputMode = "paste" | "google-docs";
+type InputMode = "paste" | "google-docs" | "upload";
+type NotesLength = "none" | "brief" | "detailed";
+type CitationStyle = "none" | "notes" | "links";
 
-const SLIDE_TEMPLATES: Record<SlideTemplate, any> = {
-  modern: {
-    titleColor: "#1a73e8",
-    bodyColor: "#333",
-    backgroundColor: "#fff",
-    titleSlideBackgroundColor: "#1a73e8",
-    titleSlideTextColor: "#fff",
-  },
-  corporate: {
-    titleColor: "#fff",
-    bodyColor: "#333",
-    backgroundColor: "#fafafa",
-    headerColor: "#202124",
-    titleSlideBackgroundColor: "#202124",
-    titleSlideTextColor: "#fff",
-  },
-  creative: {
-    titleColor: "#c2185b",
-    bodyColor: "#333",
-    backgroundColor: "#fffaf0",
-    titleSlideBackgroundColor: "#c2185b",
-    titleSlideTextColor: "#fff",
-  },
-  minimal: {
-    titleColor: "#000",
-    bodyColor: "#333",
-    backgroundColor: "#fff",
-    titleSlideBackgroundColor: "#111",
-    titleSlideTextColor: "#fff",
-  },
-  executive: {
-    titleColor: "#1a237e",
-    bodyColor: "#333",
-    backgroundColor: "#f5f5f7",
-    headerColor: "#1a237e",
-    titleSlideBackgroundColor: "#1a237e",
-    titleSlideTextColor: "#fff",
-    titleColorWithHeader: "#fff",
+// A theme from GET /api/generate/templates; mirrors the backend ThemeDefinition
+interface Theme {
+  id: string;
+  name: string;
+  description?: string;
+  colors: {
+    title: string;
+    body: string;
+    background: string;
+    header?: string;
+    titleSlideBackground?: string;
+    titleSlideText?: string;
+    titleOnHeader?: string;
+  };
+  fonts?: { title?: string; body?: string };
+  layout?: { headerHeight?: number };
+  logo?: { url: string };
+  footer?: { text: string };
+}
+
+// Used until the backend's themes load, or if they cannot be
+const DEFAULT_THEME: Theme = {
+  id: "modern",
+  name: "Modern",
+  description: "Clean, minimalist design with blue accents",
+  colors: {
+    title: "#1a4d99",
+    body: "#333333",
+    background: "#ffffff",
+    titleSlideBackground: "#1a73e8",
+    titleSlideText: "#ffffff",
   },
 };
 
-const TEMPLATES: { id: SlideTemplate; name: string; description: string }[] = [
-  { id: "modern", name: "Modern", description: "Clean, minimalist design with blue accents" },
-  { id: "corporate", name: "Corporate", description: "Professional design with dark headers" },
-  { id: "creative", name: "Creative", description: "Bold colors and dynamic style" },
-  { id: "minimal", name: "Minimal", description: "Simple black and white design" },
-  { id: "executive", name: "Executive", description: "Traditional executive presentation style" },
-];
+// Header band height in the backend's points, drawn 3.5rem tall in the preview
+const DEFAULT_HEADER_HEIGHT = 60;
+
+function hexToRgb(hex: string): [number, number, number] {
+  return [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+}
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  fetching: "Fetching Google Doc...",
+  summarizing: "Analyzing document with AI...",
+  rendering: "Creating slides...",
+};
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Statuses of a stream endpoint the server or a proxy in front of it does not serve
+const STREAM_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+// File types the backend can parse; keep in sync with UPLOAD_FILE_TYPES in the backend
+const UPLOAD_FILE_TYPES = [".docx", ".pdf", ".md", ".markdown", ".html", ".htm"];
+// Matches the backend's default UPLOAD_MAX_MB
+const MAX_UPLOAD_MB = 5;
+
+// File contents as base64, without the data URL prefix
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Read a text/event-stream body, calling onEvent with each event's name and parsed data
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).trim());
+      }
+    }
+    if (data.length > 0) {
+      onEvent(event, JSON.parse(data.join("\n")));
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop() || "";
+      blocks.forEach(dispatch);
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Poll a generation job until it finishes, reporting progress along the way
+async function waitForJob(
+  jobId: string,
+  onProgress: (job: GenerationJob) => void,
+  signal: AbortSignal
+): Promise<GenerationJob> {
+  for (;;) {
+    const response = await fetch(`${API_URL}/api/generate/jobs/${jobId}`, { signal });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || "Unknown error occurred");
+    }
+    const job: GenerationJob = data.job;
+    if (job.status === "succeeded" || job.status === "failed") {
+      return job;
+    }
+    onProgress(job);
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+// e.g. "2 emails, 1 secret"
+function describeRedactions(redactions: Redaction[]): string {
+  const counts = new Map<string, number>();
+  redactions.forEach(({ type }) => counts.set(type, (counts.get(type) || 0) + 1));
+  return [...counts].map(([type, count]) => `${count} ${type}${count === 1 ? "" : "s"}`).join(", ");
+}
+
+// e.g. ["2 slides continued on a new slide.", "Text may still overflow on: Roadmap."]
+function describeLayoutAdjustments(adjustments: LayoutAdjustment[]): string[] {
+  const titlesOf = (kind: LayoutAdjustment["kind"]) => [
+    ...new Map(adjustments.filter((adjustment) => adjustment.kind === kind).map((a) => [a.slideIndex, a.slideTitle])).values(),
+  ];
+  const slides = (count: number) => (count === 1 ? "1 slide" : `${count} slides`);
+
+  const continued = titlesOf("continued");
+  const shrunk = titlesOf("shrunk");
+  const overflow = titlesOf("overflow");
+  const dropped = titlesOf("dropped");
+  return [
+    ...(continued.length > 0 ? [`${slides(continued.length)} continued on a new slide.`] : []),
+    ...(shrunk.length > 0 ? [`Smaller text on ${slides(shrunk.length)} to fit.`] : []),
+    ...(overflow.length > 0 ? [`Text may still overflow on: ${overflow.join(", ")}.`] : []),
+    ...(dropped.length > 0 ? [`The master deck's layout left out text on: ${dropped.join(", ")}.`] : []),
+  ];
+}
 
 const GOOGLE_DOCS_URL_PATTERN = /^https:\/\/docs\.google\.com\/document\/d\/[a-zA-Z0-9_-]+/;
 
+// Bullets whose source passage is shown on hover
+function CitedBullets({ bullets, citations }: { bullets: string[]; citations?: (Citation | null)[] }) {
+  return (
+    <>
+      {bullets.map((bullet, bulletIndex) => {
+        const citation = citations?.[bulletIndex];
+        if (!citation) {
+          return <li key={bulletIndex}>{bullet}</li>;
+        }
+        const source = citation.heading ? `\n— ${citation.heading}` : "";
+        return (
+          <li key={bulletIndex} className="has-citation" title={`“${citation.quote}”${source}`}>
+            {bullet}
+          </li>
+        );
+      })}
+    </>
+  );
+}
+
+// Preview of a content slide's body, laid out like the backend renderer for its type
+function SlideBody({ slide, accentColor, bodyColor }: { slide: Slide; accentColor: string; bodyColor: string }) {
+  switch (slide.type) {
+    case "section":
+      return null;
+    case "agenda":
+      return (
+        <ol className="slide-agenda" style={{ color: bodyColor }}>
+          {slide.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{item}</li>
+          ))}
+        </ol>
+      );
+    case "comparison":
+      return (
+        <div className="slide-comparison" style={{ color: bodyColor }}>
+          {[slide.left, slide.right].map((column, columnIndex) => (
+            <div key={columnIndex} className="slide-comparison-column">
+              <h5 style={{ color: accentColor }}>{column.heading}</h5>
+              <ul>
+                {column.bullets.map((bullet, bulletIndex) => (
+                  <li key={bulletIndex}>{bullet}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      );
+    case "kpi":
+      return (
+        <div className="slide-kpi" style={{ color: bodyColor }}>
+          <div className="slide-kpi-metrics">
+            {slide.metrics.map((metric, metricIndex) => (
+              <div key={metricIndex} className="slide-kpi-metric">
+                <span className="slide-kpi-value" style={{ color: accentColor }}>{metric.value}</span>
+                <span className="slide-kpi-label">{metric.label}</span>
+              </div>
+            ))}
+          </div>
+          {slide.context && <p className="slide-kpi-context">{slide.context}</p>}
+        </div>
+      );
+    case "quote":
+      return (
+        <blockquote className="slide-quote" style={{ color: accentColor }}>
+          <p>&ldquo;{slide.quote}&rdquo;</p>
+          {slide.attribution && <footer style={{ color: bodyColor }}>&mdash; {slide.attribution}</footer>}
+        </blockquote>
+      );
+    case "timeline":
+      return (
+        <ol className="slide-timeline" style={{ borderColor: accentColor }}>
+          {slide.events.map((event, eventIndex) => (
+            <li key={eventIndex}>
+              <span className="slide-timeline-date" style={{ color: accentColor }}>{event.date}</span>
+              <span className="slide-timeline-label" style={{ color: bodyColor }}>{event.label}</span>
+            </li>
+          ))}
+        </ol>
+      );
+    case "table":
+      return (
+        <table className="slide-table" style={{ color: bodyColor }}>
+          <thead>
+            <tr>
+              {slide.columns.map((column, columnIndex) => (
+                <th key={columnIndex}>{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {slide.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    case "image":
+      return (
+        <div className="slide-image" style={{ color: bodyColor }}>
+          {slide.imageUrl && <img src={slide.imageUrl} alt="" />}
+          <ul>
+            <CitedBullets bullets={slide.bullets} citations={slide.citations} />
+          </ul>
+        </div>
+      );
+    default:
+      return (
+        <ul style={{ color: bodyColor }}>
+          <CitedBullets bullets={slide.bullets} citations={slide.citations} />
+        </ul>
+      );
+  }
+}
+
 // Custom hook that wraps Google OAuth - checks at runtime if OAuth is properly configured
 function useGoogleAuth(
   onSuccess: (accessToken: string) => Promise<void>,
@@ -130,9 +438,17 @@ function App() {
   const [documentContent, setDocumentContent] = useState("");
   const [documentTitle, setDocumentTitle] = useState("");
   const [slideCount, setSlideCount] = useState(5);
-  const [template, setTemplate] = useState<SlideTemplate>("modern");
+  const [themes, setThemes] = useState<Theme[]>([DEFAULT_THEME]);
+  const [template, setTemplate] = useState(DEFAULT_THEME.id);
   const [customPrompt, setCustomPrompt] = useState("");
+  const [notesLength, setNotesLength] = useState<NotesLength>("brief");
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>("none");
+  const [strictFactCheck, setStrictFactCheck] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [previewStage, setPreviewStage] = useState<PreviewStage | null>(null);
+  const [jobProgress, setJobProgress] = useState<GenerationJob | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const previewAbortRef = useRef<AbortController | null>(null);
   const [result, setResult] = useState<GenerateResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -140,6 +456,8 @@ function App() {
   const [inputMode, setInputMode] = useState<InputMode>("paste");
   const [googleDocsUrl, setGoogleDocsUrl] = useState("");
   const [urlError, setUrlError] = useState<string | null>(null);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
 
   // Google OAuth state
   const [accessToken, setAccessToken] = useState<string | null>(null);
@@ -147,6 +465,22 @@ function App() {
   const [exporting, setExporting] = useState(false);
   const [exportResult, setExportResult] = useState<ExportResponse | null>(null);
 
+  const theme = themes.find(({ id }) => id === template) || themes[0];
+
+  // Themes come from the backend so the preview matches the exported deck
+  useEffect(() => {
+    fetch(`${API_URL}/api/generate/templates`)
+      .then((response) => (response?.ok ? response.json() : null))
+      .then((data) => {
+        if (Array.isArray(data?.templates) && data.templates.length > 0) {
+          setThemes(data.templates);
+        }
+      })
+      .catch(() => {
+        // Keep the default theme
+      });
+  }, []);
+
   const handleLoginSuccess = async (token: string) => {
     setAccessToken(token);
     // Fetch user info
@@ -186,6 +520,9 @@ function App() {
     setExportResult(null);
   };
 
+  // Strict mode keeps slides with unverified numbers from leaving the preview
+  const exportBlocked = strictFactCheck && !!result?.warnings?.length;
+
   const handleExportToSlides = async () => {
     if (!accessToken || !user || !result?.structure) return;
 
@@ -194,27 +531,19 @@ function App() {
     setError(null);
 
     try {
-      const requestBody: Record<string, unknown> = {
-        documentTitle,
-        slideCount,
-        template,
-        customPrompt: customPrompt || undefined,
-        accessToken,
-        userEmail: user.email,
-      };
-
-      if (inputMode === "google-docs") {
-        requestBody.googleDocsUrl = googleDocsUrl;
-      } else {
-        requestBody.documentContent = documentContent;
-      }
-
-      const response = await fetch(`${API_URL}/api/generate`, {
+      // Send the previewed structure so the deck matches what the user approved
+      const response = await fetch(`${API_URL}/api/generate/render`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify({
+          structure: result.structure,
+          template,
+          citationStyle,
+          accessToken,
+          userEmail: user.email,
+        }),
       });
 
       const data: ExportResponse = await response.json();
@@ -283,7 +612,7 @@ function App() {
 
       // Fill background if it's a title slide to avoid white borders
       if (slide.classList.contains("title-slide")) {
-        doc.setFillColor(26, 115, 232); // #1a73e8
+        doc.setFillColor(...hexToRgb(theme.colors.titleSlideBackground || theme.colors.background));
         doc.rect(0, 0, pdfWidth, pdfHeight, "F");
       }
 
@@ -308,16 +637,39 @@ function App() {
     }
   };
 
+  const handleFileChange = (file: File | null) => {
+    setUploadFile(null);
+    setFileError(null);
+    if (!file) {
+      return;
+    }
+    const extension = file.name.toLowerCase().match(/\.[a-z]+$/)?.[0] || "";
+    if (!UPLOAD_FILE_TYPES.includes(extension)) {
+      setFileError(`Unsupported file type. Upload one of: ${UPLOAD_FILE_TYPES.join(", ")}`);
+    } else if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      setFileError(`File is larger than the ${MAX_UPLOAD_MB} MB upload limit`);
+    } else {
+      setUploadFile(file);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setPreviewStage(null);
+    setJobProgress(null);
     setError(null);
+    setNotice(null);
     setResult(null);
 
+    const controller = new AbortController();
+    previewAbortRef.current = controller;
+
     try {
       const requestBody: Record<string, unknown> = {
         slideCount,
         customPrompt: customPrompt || undefined,
+        notesLength,
       };
 
       if (inputMode === "google-docs") {
@@ -337,37 +689,155 @@ function App() {
         if (documentTitle) {
           requestBody.documentTitle = documentTitle;
         }
+      } else if (inputMode === "upload") {
+        if (!uploadFile) {
+          setError("Please choose a file to upload");
+          setLoading(false);
+          return;
+        }
+        requestBody.documentFile = { name: uploadFile.name, data: await readFileAsBase64(uploadFile) };
+        // documentTitle is optional for uploads (will use the file's title)
+        if (documentTitle) {
+          requestBody.documentTitle = documentTitle;
+        }
       } else {
         requestBody.documentContent = documentContent;
         requestBody.documentTitle = documentTitle;
       }
 
-      const response = await fetch(`${API_URL}/api/generate/preview`, {
+      const showPreview = (preview: PreviewResult) => {
+        setResult({ success: true, ...preview });
+        // Auto-fill title from the imported document if using Google Docs or an upload
+        if (inputMode !== "paste" && preview.documentTitle && !documentTitle) {
+          setDocumentTitle(preview.documentTitle);
+        }
+      };
+
+      // Without a stream, generate in a background job and poll it until it finishes
+      const generateInJob = async () => {
+        setResult(null);
+        setPreviewStage(null);
+        const response = await fetch(`${API_URL}/api/generate/jobs`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ ...requestBody, previewOnly: true }),
+          signal: controller.signal,
+        });
+        const submitted = await response.json();
+        if (!submitted.success) {
+          setError(submitted.error || "Unknown error occurred");
+          return;
+        }
+        const job = await waitForJob(submitted.jobId, setJobProgress, controller.signal);
+        if (job.status === "failed" || !job.result) {
+          setError(job.error || "Unknown error occurred");
+          return;
+        }
+        showPreview(job.result);
+      };
+
+      const handleStreamEvent = (streamEvent: PreviewStreamEvent) => {
+        switch (streamEvent.event) {
+          case "stage": {
+            const { stage, documentTitle: title } = streamEvent.data;
+            setPreviewStage(stage);
+            if (title) {
+              setResult({ success: true, structure: { title, slides: [] } });
+            }
+            break;
+          }
+          case "slide": {
+            const { index, slide } = streamEvent.data;
+            setResult((previous) => {
+              if (!previous?.structure) {
+                return previous;
+              }
+              const slides = [...previous.structure.slides];
+              slides[index] = slide;
+              return { ...previous, structure: { ...previous.structure, slides } };
+            });
+            break;
+          }
+          case "retry":
+            // The model is asked to try again; its next response replaces the slides so far
+            setResult((previous) => previous?.structure
+              ? { ...previous, structure: { ...previous.structure, slides: [] } }
+              : previous);
+            break;
+          case "done":
+            showPreview(streamEvent.data);
+            break;
+          case "error":
+            setResult(null);
+            setError(streamEvent.data.error || "Unknown error occurred");
+            break;
+        }
+      };
+
+      // Slides are streamed as the model writes them so the preview fills in progressively
+      const response = await fetch(`${API_URL}/api/generate/preview/stream`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(requestBody),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
+      if (STREAM_UNAVAILABLE_STATUSES.includes(response.status) || (response.ok && !response.body)) {
+        await generateInJob();
+        return;
+      }
 
-      if (data.success) {
-        setResult(data);
-        // Auto-fill title from fetched document if using Google Docs
-        if (inputMode === "google-docs" && data.documentTitle && !documentTitle) {
-          setDocumentTitle(data.documentTitle);
-        }
-      } else {
+      // Validation errors are returned as JSON before the stream starts
+      if (!response.ok || !response.body) {
+        const data = await response.json();
         setError(data.error || "Unknown error occurred");
+        return;
+      }
+
+      let finished = false;
+      try {
+        await readEventStream(response.body, (event, data) => {
+          if (event === "done" || event === "error") {
+            finished = true;
+          }
+          handleStreamEvent({ event, data } as PreviewStreamEvent);
+        });
+      } catch (err) {
+        // A stream cut off before its result (e.g. by a proxy timeout) is retried as a job
+        if (controller.signal.aborted || finished) {
+          throw err;
+        }
+        await generateInJob();
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to connect to server");
+      if (controller.signal.aborted) {
+        // Keep whatever was generated before the cancel
+        setResult((previous) => {
+          const slides = previous?.structure?.slides.filter(Boolean) || [];
+          return previous?.structure && slides.length > 0
+            ? { ...previous, structure: { ...previous.structure, slides } }
+            : null;
+        });
+        setNotice("Generation cancelled.");
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to connect to server");
+      }
     } finally {
+      previewAbortRef.current = null;
       setLoading(false);
+      setPreviewStage(null);
+      setJobProgress(null);
     }
   };
 
+  const handleCancel = () => {
+    previewAbortRef.current?.abort();
+  };
+
   return (
     <div className="container">
       <header>
@@ -422,6 +892,13 @@ function App() {
               >
                 Import from Google Docs
               </button>
+              <button
+                type="button"
+                className={`toggle-button ${inputMode === "upload" ? "active" : ""}`}
+                onClick={() => setInputMode("upload")}
+              >
+                Upload File
+              </button>
             </div>
           </div>
 
@@ -455,6 +932,36 @@ function App() {
                 />
               </div>
             </>
+          ) : inputMode === "upload" ? (
+            <>
+              <div className="form-group">
+                <label htmlFor="documentFile">Document File</label>
+                <input
+                  // Keyed so React does not reuse a controlled text input from another mode
+                  key="documentFile"
+                  id="documentFile"
+                  type="file"
+                  accept={UPLOAD_FILE_TYPES.join(",")}
+                  onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                  className={fileError ? "input-error" : ""}
+                />
+                {fileError && <span className="url-error-message">{fileError}</span>}
+                <span className="url-hint">
+                  Word (.docx), PDF, Markdown or HTML, up to {MAX_UPLOAD_MB} MB. Scanned PDFs need OCR first.
+                </span>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="title">Document Title (Optional)</label>
+                <input
+                  id="title"
+                  type="text"
+                  value={documentTitle}
+                  onChange={(e) => setDocumentTitle(e.target.value)}
+                  placeholder="Leave blank to use the file's title"
+                />
+              </div>
+            </>
           ) : (
             <>
               <div className="form-group">
@@ -503,17 +1010,54 @@ function App() {
               <select
                 id="template"
                 value={template}
-                onChange={(e) => setTemplate(e.target.value as SlideTemplate)}
+                onChange={(e) => setTemplate(e.target.value)}
               >
-                {TEMPLATES.map((t) => (
+                {themes.map((t) => (
                   <option key={t.id} value={t.id}>
-                    {t.name} - {t.description}
+                    {t.description ? `${t.name} - ${t.description}` : t.name}
                   </option>
                 ))}
               </select>
             </div>
           </div>
 
+          <div className="form-group">
+            <label htmlFor="notesLength">Speaker Notes</label>
+            <select
+              id="notesLength"
+              value={notesLength}
+              onChange={(e) => setNotesLength(e.target.value as NotesLength)}
+            >
+              <option value="none">None</option>
+              <option value="brief">Brief talking points</option>
+              <option value="detailed">Detailed script</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="citationStyle">Source Citations</label>
+            <select
+              id="citationStyle"
+              value={citationStyle}
+              onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+            >
+              <option value="none">Preview only</option>
+              <option value="notes">In speaker notes</option>
+              <option value="links">Link bullets to the document</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={strictFactCheck}
+                onChange={(e) => setStrictFactCheck(e.target.checked)}
+              />
+              Block export when numbers are not found in the source
+            </label>
+          </div>
+
           <div className="form-group">
             <label htmlFor="customPrompt">Custom Instructions (Optional)</label>
             <textarea
@@ -530,7 +1074,8 @@ function App() {
             disabled={
               loading ||
               (inputMode === "paste" && (!documentContent || !documentTitle)) ||
-              (inputMode === "google-docs" && (!googleDocsUrl || !validateGoogleDocsUrl(googleDocsUrl) || !user))
+              (inputMode === "google-docs" && (!googleDocsUrl || !validateGoogleDocsUrl(googleDocsUrl) || !user)) ||
+              (inputMode === "upload" && !uploadFile)
             }
           >
             {loading ? "Generating..." : "Generate Slides"}
@@ -542,59 +1087,114 @@ function App() {
 
           {error && <div className="error">{error}</div>}
 
+          {notice && <div className="notice">{notice}</div>}
+
           {loading && (
             <div className="loading">
               <div className="spinner"></div>
-              <p>Analyzing document with AI...</p>
+              <p>
+                {(previewStage || jobProgress?.stage) === "fetching" && inputMode === "upload"
+                  ? "Reading uploaded file..."
+                  : STAGE_LABELS[previewStage || jobProgress?.stage || "summarizing"]}
+              </p>
+              {jobProgress && (
+                <progress className="preview-progress" value={jobProgress.progress} max={100} />
+              )}
+              {result?.structure && (
+                <>
+                  <p className="preview-progress-count">
+                    {result.structure.slides.filter(Boolean).length} of {slideCount} slides generated
+                  </p>
+                  <progress
+                    className="preview-progress"
+                    value={result.structure.slides.filter(Boolean).length}
+                    max={slideCount}
+                  />
+                </>
+              )}
+              <button type="button" onClick={handleCancel} className="cancel-button">
+                Cancel
+              </button>
             </div>
           )}
 
           {result?.structure && (
             <div className={`slides-preview ${template}`}>
-              <div className="export-section">
-                {exportResult?.slidesUrl ? (
-                  <div className="export-success">
-                    <p>Presentation created successfully!</p>
-                    <a
-                      href={exportResult.slidesUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="slides-link"
+              {/* Export once generation has finished */}
+              {!loading && (
+                <div className="export-section">
+                  {!!result.redactions?.length && (
+                    <div className="notice">Hidden from the AI: {describeRedactions(result.redactions)}.</div>
+                  )}
+                  {!!result.suspiciousContent?.length && (
+                    <div className="notice suspicious-content">
+                      Parts of this document read like instructions to the AI. They were treated as content, but
+                      check the slides before exporting:
+                      <ul>
+                        {result.suspiciousContent.map(({ excerpt }, index) => (
+                          <li key={index}>{excerpt}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {exportBlocked && (
+                    <div className="error">
+                      Export is blocked: {result.warnings!.length === 1 ? "1 slide shows" : `${result.warnings!.length} slides show`}{" "}
+                      numbers that were not found in the source.
+                    </div>
+                  )}
+                  {exportResult?.slidesUrl ? (
+                    <div className="export-success">
+                      <p>Presentation created successfully!</p>
+                      <a
+                        href={exportResult.slidesUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="slides-link"
+                      >
+                        Open in Google Slides
+                      </a>
+                      {describeLayoutAdjustments(exportResult.layoutAdjustments || []).map((line) => (
+                        <p key={line} className="layout-note">{line}</p>
+                      ))}
+                    </div>
+                  ) : user ? (
+                    <button
+                      onClick={handleExportToSlides}
+                      disabled={exporting || exportBlocked}
+                      className="export-button"
                     >
-                      Open in Google Slides
-                    </a>
-                  </div>
-                ) : user ? (
-                  <button
-                    onClick={handleExportToSlides}
-                    disabled={exporting}
-                    className="export-button"
+                      {exporting ? "Exporting..." : "Export to Google Slides"}
+                    </button>
+                  ) : oauthEnabled ? (
+                    <p className="login-prompt">
+                      Sign in with Google to export to Google Slides
+                    </p>
+                  ) : (
+                    <p className="login-prompt">
+                      Configure Google OAuth to enable export to Google Slides
+                    </p>
+                  )}
+                
+                  <button 
+                    onClick={handleExportToPdf}
+                    disabled={exportBlocked}
+                    className="export-button secondary"
+                    style={{ marginTop: '10px' }}
                   >
-                    {exporting ? "Exporting..." : "Export to Google Slides"}
+                    Export to PDF
                   </button>
-                ) : oauthEnabled ? (
-                  <p className="login-prompt">
-                    Sign in with Google to export to Google Slides
-                  </p>
-                ) : (
-                  <p className="login-prompt">
-                    Configure Google OAuth to enable export to Google Slides
-                  </p>
-                )}
-                
-                <button 
-                  onClick={handleExportToPdf}
-                  className="export-button secondary"
-                  style={{ marginTop: '10px' }}
-                >
-                  Export to PDF
-                </button>
-              </div>
+                </div>
+              )}
 
               {(() => {
-                const config = SLIDE_TEMPLATES[template];
-                const titleSlideBg = config.titleSlideBackgroundColor || config.backgroundColor;
-                const titleSlideText = config.titleSlideTextColor || config.titleColor;
+                const { colors, fonts } = theme;
+                const titleSlideBg = colors.titleSlideBackground || colors.background;
+                const titleSlideText = colors.titleSlideText || colors.title;
+                const titleFont = fonts?.title && { fontFamily: fonts.title };
+                const warningsBySlide = new Map(
+                  (result.warnings || []).map((warning) => [warning.slideIndex, warning.numbers])
+                );
 
                 return (
                   <>
@@ -602,35 +1202,66 @@ function App() {
                       className="slide title-slide"
                       style={{ backgroundColor: titleSlideBg, color: titleSlideText }}
                     >
-                      <h3>{result.structure.title}</h3>
+                      <h3 style={{ ...titleFont }}>{result.structure.title}</h3>
                     </div>
 
                     {result.structure.slides.map((slide, index) => {
-                      const hasHeader = !!config.headerColor;
-                      const slideTitleColor = hasHeader 
-                        ? (config.titleColorWithHeader || "#fff") 
-                        : config.titleColor;
+                      const hasHeader = !!colors.header;
+                      const slideTitleColor = hasHeader
+                        ? (colors.titleOnHeader || colors.title)
+                        : colors.title;
 
                       return (
-                        <div 
-                          key={index} 
-                          className={`slide ${hasHeader ? 'has-header' : ''}`}
-                          style={{ backgroundColor: config.backgroundColor }}
-                        >
-                          {hasHeader && (
+                        <Fragment key={index}>
+                          {slide.type === "section" ? (
+                            <div
+                              className="slide section-slide"
+                              style={{ backgroundColor: titleSlideBg, color: titleSlideText, fontFamily: fonts?.body }}
+                            >
+                              <div className="slide-number">Slide {index + 1}</div>
+                              <h3 style={{ ...titleFont }}>{slide.title}</h3>
+                              {slide.subtitle && <p className="section-subtitle">{slide.subtitle}</p>}
+                            </div>
+                          ) : (
                             <div 
-                              className="slide-header-bar" 
-                              style={{ backgroundColor: config.headerColor }}
-                            />
+                              className={`slide ${hasHeader ? 'has-header' : ''}`}
+                              style={{ backgroundColor: colors.background, fontFamily: fonts?.body }}
+                            >
+                              {hasHeader && (
+                                <div
+                                  className="slide-header-bar"
+                                  style={{
+                                    backgroundColor: colors.header,
+                                    height: `${((theme.layout?.headerHeight ?? DEFAULT_HEADER_HEIGHT) / DEFAULT_HEADER_HEIGHT) * 3.5}rem`,
+                                  }}
+                                />
+                              )}
+                              <div className="slide-number">Slide {index + 1}</div>
+                              {theme.logo && <img className="slide-logo" src={theme.logo.url} alt="" />}
+                              <h4 style={{ color: slideTitleColor, ...titleFont }}>{slide.title}</h4>
+                              <SlideBody
+                                slide={slide}
+                                accentColor={colors.header || colors.title}
+                                bodyColor={colors.body}
+                              />
+                              {theme.footer && (
+                                <p className="slide-footer" style={{ color: colors.body }}>{theme.footer.text}</p>
+                              )}
+                            </div>
+                          )}
+                          {/* Kept outside the slide so PDF export only captures slide content */}
+                          {warningsBySlide.get(index) && (
+                            <p className="fact-check-warning">
+                              Not found in the source: {warningsBySlide.get(index)!.join(", ")}
+                            </p>
+                          )}
+                          {slide.speakerNotes && (
+                            <details className="speaker-notes">
+                              <summary>Speaker Notes</summary>
+                              <p>{slide.speakerNotes}</p>
+                            </details>
                           )}
-                          <div className="slide-number">Slide {index + 1}</div>
-                          <h4 style={{ color: slideTitleColor }}>{slide.title}</h4>
-                          <ul style={{ color: config.bodyColor }}>
-                            {slide.bullets.map((bullet, bulletIndex) => (
-                              <li key={bulletIndex}>{bullet}</li>
-                            ))}
-                          </ul>
-                        </div>
+                        </Fragment>
                       );
                     })}
                   </>